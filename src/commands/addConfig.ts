@@ -0,0 +1,229 @@
+import type { QuickPickItem } from 'vscode';
+import {
+  getStoreChanges,
+  getStoreName,
+  getStoreSources,
+  type AzureEnvSettings,
+  type StoreSource,
+} from '../models/settings';
+import { isExcluded, matchesSelection } from '../models/keySelection';
+
+/**
+ * Folder node the command was started from in the tree view.
+ */
+export interface AddConfigItem {
+  key?: string;
+  store?: string;
+}
+
+export interface AddConfigDeps {
+  getSettings: () => AzureEnvSettings;
+  /** Keys currently shown for a store, used to suggest key prefixes */
+  getExistingKeys: (store: string) => string[];
+  showQuickPickSingle: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T | undefined>;
+  showInputBox: (options: {
+    prompt: string;
+    placeHolder?: string;
+    value?: string;
+    valueSelection?: [number, number];
+    validateInput?: (value: string) => string | undefined;
+  }) => Thenable<string | undefined>;
+  /** Create the setting, failing with SettingExistsError if the key already has that label */
+  addSetting: (endpoint: string, key: string, value: string, label: string) => Promise<void>;
+  saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+}
+
+export type AddConfigResult =
+  | {
+      added: true;
+      key: string;
+      label: string;
+      store: string;
+      /** Whether the key is selected under a label the store is refreshed with */
+      injected: boolean;
+    }
+  | { added: false; reason: 'cancelled' | 'not_connected' };
+
+interface StoreItem extends QuickPickItem {
+  source: StoreSource;
+}
+
+interface PrefixItem extends QuickPickItem {
+  prefix: string;
+}
+
+/**
+ * Create a plain configuration value in App Configuration and add it to the
+ * selected keys of its store. Started from a folder node, the key is
+ * prefilled with the folder path. An existing value is never overwritten.
+ */
+export async function runAddConfigFlow(
+  item: AddConfigItem | undefined,
+  deps: AddConfigDeps
+): Promise<AddConfigResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  if (sources.length === 0) {
+    return { added: false, reason: 'not_connected' };
+  }
+
+  const source = await pickStore(sources, item?.store, deps);
+  if (!source) {
+    return { added: false, reason: 'cancelled' };
+  }
+  const store = getStoreName(source);
+
+  const prefix = item?.key ? `${item.key}/` : await pickPrefix(deps.getExistingKeys(store), deps);
+  if (prefix === undefined) {
+    return { added: false, reason: 'cancelled' };
+  }
+
+  const key = await deps.showInputBox({
+    prompt: 'Configuration key',
+    placeHolder: 'e.g. MyService/Database/Host',
+    value: prefix,
+    valueSelection: [prefix.length, prefix.length],
+    validateInput: validateKey,
+  });
+  if (!key) {
+    return { added: false, reason: 'cancelled' };
+  }
+
+  const value = await deps.showInputBox({ prompt: `Value for ${key}` });
+  if (value === undefined) {
+    return { added: false, reason: 'cancelled' };
+  }
+
+  const label = await deps.showInputBox({
+    prompt: 'Label (leave empty for no label)',
+    value: source.label ?? '',
+  });
+  if (label === undefined) {
+    return { added: false, reason: 'cancelled' };
+  }
+
+  await deps.addSetting(source.endpoint, key, value, label);
+  const selected = await selectKey(settings, source, key, deps);
+
+  const labels = [source.label ?? '', ...(source.overrideLabels ?? [])];
+  return { added: true, key, label, store, injected: selected && labels.includes(label) };
+}
+
+/**
+ * Check a new key name. Keys ending in `*` would be read back as a prefix selection.
+ */
+export function validateKey(value: string): string | undefined {
+  const key = value.trim();
+  if (!key) {
+    return 'Key is required';
+  }
+  if (key !== value) {
+    return 'Key cannot start or end with spaces';
+  }
+  if (key.endsWith('/')) {
+    return 'Key cannot end with /';
+  }
+  if (key.endsWith('*')) {
+    return 'Key cannot end with *';
+  }
+  if (key === '.' || key === '..' || key.includes('%')) {
+    return 'Key cannot be "." or ".." or contain %';
+  }
+  return undefined;
+}
+
+/**
+ * Get the folder prefixes of the given keys, e.g. `App/` and `App/Db/` for `App/Db/Host`.
+ */
+export function getKeyPrefixes(keys: string[]): string[] {
+  const prefixes = new Set<string>();
+  for (const key of keys) {
+    const segments = key.split('/');
+    for (let index = 1; index < segments.length; index++) {
+      prefixes.add(`${segments.slice(0, index).join('/')}/`);
+    }
+  }
+  return Array.from(prefixes).sort();
+}
+
+/**
+ * Use the store a tree node belongs to, the only store, or ask the user.
+ */
+export async function pickStore(
+  sources: StoreSource[],
+  store: string | undefined,
+  deps: Pick<AddConfigDeps, 'showQuickPickSingle'>
+): Promise<StoreSource | undefined> {
+  const fromItem = store ? sources.find((source) => getStoreName(source) === store) : undefined;
+  if (fromItem || sources.length === 1) {
+    return fromItem ?? sources[0];
+  }
+
+  const picked = await deps.showQuickPickSingle<StoreItem>(
+    sources.map((source) => ({
+      label: getStoreName(source),
+      description: source.endpoint,
+      source,
+    })),
+    { placeHolder: 'Select the App Configuration store' }
+  );
+  return picked?.source;
+}
+
+async function pickPrefix(keys: string[], deps: AddConfigDeps): Promise<string | undefined> {
+  const prefixes = getKeyPrefixes(keys);
+  if (prefixes.length === 0) {
+    return '';
+  }
+
+  const picked = await deps.showQuickPickSingle<PrefixItem>(
+    [
+      { label: '$(add) New top-level key', prefix: '' },
+      ...prefixes.map((prefix) => ({ label: prefix, prefix })),
+    ],
+    { placeHolder: 'Select where to add the key' }
+  );
+  return picked?.prefix;
+}
+
+/**
+ * Add the key to the store's selected keys unless a selection already covers
+ * it, and drop an exact exclusion of it. Returns whether the key is selected
+ * afterwards; a prefix exclusion can still leave it out.
+ */
+export async function selectKey(
+  settings: AzureEnvSettings,
+  source: StoreSource,
+  key: string,
+  deps: Pick<AddConfigDeps, 'saveSettings'>
+): Promise<boolean> {
+  const selected = source.selectedKeys.some((selection) => matchesSelection(key, selection));
+  const exclusions = source.excludedKeys ?? [];
+  const excludedKeys = exclusions.filter((exclusion) => exclusion !== key);
+  const changes: Pick<StoreSource, 'selectedKeys' | 'excludedKeys'> = {
+    selectedKeys: selected ? source.selectedKeys : [...source.selectedKeys, key],
+    ...(excludedKeys.length !== exclusions.length && { excludedKeys }),
+  };
+
+  if (!selected || changes.excludedKeys) {
+    await saveStoreSelections(settings, source, changes, deps);
+  }
+
+  return !isExcluded(key, excludedKeys);
+}
+
+/**
+ * Save selection changes to the store they belong to: the primary store's
+ * settings or its entry in `stores`.
+ */
+export async function saveStoreSelections(
+  settings: AzureEnvSettings,
+  source: StoreSource,
+  changes: Partial<Pick<StoreSource, 'selectedKeys' | 'excludedKeys'>>,
+  deps: Pick<AddConfigDeps, 'saveSettings'>
+): Promise<void> {
+  await deps.saveSettings(getStoreChanges(settings, source, changes));
+}
@@ -0,0 +1,233 @@
+import type { QuickPickItem } from 'vscode';
+import { getStoreName, getStoreSources, type AzureEnvSettings } from '../models/settings';
+import { createKeyVaultReference, KEY_VAULT_REFERENCE_CONTENT_TYPE } from '../models/configValue';
+import { getCloudEnvironment } from '../models/cloud';
+import { validateVaultUrl } from '../models/validation';
+import { SettingExistsError } from '../errors';
+import { pickStore, selectKey, validateKey, type AddConfigItem } from './addConfig';
+
+export interface VaultInfo {
+  name: string;
+  vaultUrl: string;
+}
+
+export interface AddSecretDeps {
+  getSettings: () => AzureEnvSettings;
+  listVaults: () => Promise<VaultInfo[]>;
+  showQuickPickSingle: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T | undefined>;
+  showInputBox: (options: {
+    prompt: string;
+    placeHolder?: string;
+    value?: string;
+    password?: boolean;
+    validateInput?: (value: string) => string | undefined;
+  }) => Thenable<string | undefined>;
+  showWarningMessage: (
+    message: string,
+    options: { modal: true; detail?: string },
+    confirmLabel: string
+  ) => Thenable<string | undefined>;
+  secretExists: (vaultUrl: string, secretName: string) => Promise<boolean>;
+  /** Create the secret, or add a version to an existing one, and return its URI */
+  setSecret: (vaultUrl: string, secretName: string, value: string) => Promise<string>;
+  /** Create the setting, failing with SettingExistsError if the key already has that label */
+  addSetting: (
+    endpoint: string,
+    key: string,
+    value: string,
+    label: string,
+    contentType: string
+  ) => Promise<void>;
+  saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+}
+
+/**
+ * App Configuration reference created for a new secret.
+ */
+export interface SecretReference {
+  key: string;
+  label: string;
+  store: string;
+  /** Whether the key is selected under a label the store is refreshed with */
+  injected: boolean;
+}
+
+export type AddSecretResult =
+  | {
+      added: true;
+      secretUri: string;
+      reference?: SecretReference;
+      /** Reference key left as it was because it already exists at the label */
+      existingReference?: Pick<SecretReference, 'key' | 'label'>;
+    }
+  | { added: false; reason: 'cancelled' | 'no_vaults' }
+  | { added: false; reason: 'invalid_vault'; message: string };
+
+interface VaultItem extends QuickPickItem {
+  vaultUrl: string;
+}
+
+interface ReferenceItem extends QuickPickItem {
+  createReference: boolean;
+}
+
+const ADD_VERSION_CONFIRM_LABEL = 'Add Version';
+
+/** Key Vault secret names: 1-127 letters, digits and dashes */
+const SECRET_NAME_PATTERN = /^[0-9a-zA-Z-]{1,127}$/;
+
+/**
+ * Create a Key Vault secret and, optionally, a Key Vault reference to it in
+ * App Configuration. The reference key is added to the selected keys so the
+ * secret is injected on the next refresh. Started from a folder node, the
+ * reference key is prefilled with the folder path. Adding a version to an
+ * existing secret is confirmed first, and an existing setting is never
+ * overwritten by the reference.
+ */
+export async function runAddSecretFlow(
+  item: AddConfigItem | undefined,
+  deps: AddSecretDeps
+): Promise<AddSecretResult> {
+  const settings = deps.getSettings();
+
+  let vaultUrl = settings.keyVault.defaultVault;
+  if (vaultUrl) {
+    const message = validateVaultUrl(vaultUrl, getCloudEnvironment(settings.cloud));
+    if (message) {
+      return { added: false, reason: 'invalid_vault', message };
+    }
+  } else {
+    const vaults = await deps.listVaults();
+    if (vaults.length === 0) {
+      return { added: false, reason: 'no_vaults' };
+    }
+    const picked = await deps.showQuickPickSingle<VaultItem>(
+      vaults.map((vault) => ({
+        label: vault.name,
+        description: vault.vaultUrl,
+        vaultUrl: vault.vaultUrl,
+      })),
+      { placeHolder: 'Select the Key Vault to create the secret in' }
+    );
+    if (!picked) {
+      return { added: false, reason: 'cancelled' };
+    }
+    vaultUrl = picked.vaultUrl;
+  }
+
+  const secretName = await deps.showInputBox({
+    prompt: 'Secret name',
+    placeHolder: 'e.g. Database-Password',
+    validateInput: validateSecretName,
+  });
+  if (!secretName) {
+    return { added: false, reason: 'cancelled' };
+  }
+
+  if (await deps.secretExists(vaultUrl, secretName)) {
+    const confirmation = await deps.showWarningMessage(
+      `Secret ${secretName} already exists. Add a new version of it?`,
+      { modal: true, detail: 'References without a version will resolve to the new value.' },
+      ADD_VERSION_CONFIRM_LABEL
+    );
+    if (confirmation !== ADD_VERSION_CONFIRM_LABEL) {
+      return { added: false, reason: 'cancelled' };
+    }
+  }
+
+  const value = await deps.showInputBox({
+    prompt: `Value for secret ${secretName}`,
+    password: true,
+  });
+  if (value === undefined) {
+    return { added: false, reason: 'cancelled' };
+  }
+
+  const secretUri = await deps.setSecret(vaultUrl, secretName, value);
+
+  const sources = getStoreSources(settings);
+  if (sources.length === 0) {
+    return { added: true, secretUri };
+  }
+
+  const choice = await deps.showQuickPickSingle<ReferenceItem>(
+    [
+      {
+        label: 'Create App Configuration reference',
+        description: 'Inject the secret into terminals',
+        createReference: true,
+      },
+      { label: 'Only create the secret', createReference: false },
+    ],
+    { placeHolder: `Secret ${secretName} created. Reference it from App Configuration?` }
+  );
+  if (!choice?.createReference) {
+    return { added: true, secretUri };
+  }
+
+  const source = await pickStore(sources, item?.store, deps);
+  if (!source) {
+    return { added: true, secretUri };
+  }
+
+  const key = await deps.showInputBox({
+    prompt: 'Configuration key for the reference',
+    value: item?.key ? `${item.key}/${secretName}` : secretName,
+    validateInput: validateKey,
+  });
+  if (!key) {
+    return { added: true, secretUri };
+  }
+
+  const label = await deps.showInputBox({
+    prompt: 'Label (leave empty for no label)',
+    value: source.label ?? '',
+  });
+  if (label === undefined) {
+    return { added: true, secretUri };
+  }
+
+  try {
+    await deps.addSetting(
+      source.endpoint,
+      key,
+      createKeyVaultReference(secretUri),
+      label,
+      KEY_VAULT_REFERENCE_CONTENT_TYPE
+    );
+  } catch (error) {
+    if (error instanceof SettingExistsError) {
+      return { added: true, secretUri, existingReference: { key, label } };
+    }
+    throw error;
+  }
+  const selected = await selectKey(settings, source, key, deps);
+
+  const labels = [source.label ?? '', ...(source.overrideLabels ?? [])];
+  return {
+    added: true,
+    secretUri,
+    reference: {
+      key,
+      label,
+      store: getStoreName(source),
+      injected: selected && labels.includes(label),
+    },
+  };
+}
+
+/**
+ * Check a new Key Vault secret name.
+ */
+export function validateSecretName(value: string): string | undefined {
+  if (!value) {
+    return 'Secret name is required';
+  }
+  if (!SECRET_NAME_PATTERN.test(value)) {
+    return 'Use 1-127 letters, digits and dashes';
+  }
+  return undefined;
+}
@@ -1,6 +1,9 @@
-import type { QuickPickItem } from 'vscode';
+import type { QuickPickItem, QuickPickItemKind } from 'vscode';
+import type { AzureSubscription, AzureTenant } from '@microsoft/vscode-azext-azureauth';
 import type { AuthService } from '../services/authService';
-import type { AzureEnvSettings } from '../models/settings';
+import { getStoreName, type AzureEnvSettings } from '../models/settings';
+import { getFolderSelections } from '../models/keySelection';
+import { MAX_OVERRIDE_LABELS, validateSettings } from '../models/validation';
 
 export interface StoreInfo {
   name: string;
@@ -12,7 +15,17 @@ export interface KeyInfo {
 }
 
 export interface ConnectFlowDeps {
-  authService: AuthService;
+  authService: Pick<
+    AuthService,
+    | 'ensureSignedIn'
+    | 'signIn'
+    | 'getSubscriptions'
+    | 'getTenants'
+    | 'getUnauthenticatedTenants'
+    | 'getAccountAuthentication'
+    | 'getDefaultAccount'
+    | 'saveAccount'
+  >;
   showQuickPickSingle: <T extends QuickPickItem>(
     items: T[],
     options?: { placeHolder?: string }
@@ -22,11 +35,50 @@ export interface ConnectFlowDeps {
     options?: { placeHolder?: string }
   ) => Promise<T[] | undefined>;
   saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+  /** Current settings, used to check a pasted endpoint against the configured cloud */
+  getSettings: () => AzureEnvSettings;
+  showInputBox: (options: {
+    prompt: string;
+    placeHolder?: string;
+    validateInput?: (value: string) => string | undefined;
+  }) => Thenable<string | undefined>;
   listStores: (subscriptionId: string, credential: unknown) => Promise<StoreInfo[]>;
+  /**
+   * The second argument is the subscription, the signed-in account when
+   * connecting by endpoint, or undefined when tokens come from another
+   * credential source
+   */
   listLabels: (endpoint: string, credential: unknown) => Promise<string[]>;
   listKeys: (endpoint: string, subscription: unknown, label: string) => Promise<KeyInfo[]>;
 }
 
+interface SubscriptionItem extends QuickPickItem {
+  /** Unset for separators and action items */
+  subscription?: AzureSubscription;
+  action?: 'addAccount' | 'signInTenant' | 'endpoint';
+}
+
+interface TenantItem extends QuickPickItem {
+  /** Unset for the item that asks for a tenant ID */
+  tenant?: AzureTenant;
+}
+
+interface LabelItem extends QuickPickItem {
+  value: string;
+  layered?: boolean;
+  /** Ends the override label selection */
+  done?: boolean;
+}
+
+const LAYER_LABELS_ITEM = '$(layers) Layer multiple labels...';
+const DONE_LAYERING_ITEM = '$(check) Done';
+const CONNECT_BY_ENDPOINT_ITEM = '$(link) Connect by endpoint URL...';
+const ADD_ACCOUNT_ITEM = '$(add) Sign in with another account...';
+const SIGN_IN_TENANT_ITEM = '$(key) Sign in to another tenant...';
+const ENTER_TENANT_ITEM = '$(edit) Enter a tenant ID...';
+/** `QuickPickItemKind.Separator`; only the type is imported so the flow runs without vscode */
+const SEPARATOR_KIND = -1 as QuickPickItemKind;
+
 export type ConnectResult =
   | { success: true; endpoint: string; storeName: string }
   | { success: false; reason: string };
@@ -36,15 +88,12 @@ export type ConnectResult =
  * Returns success with endpoint or failure with reason.
  */
 export async function runConnectFlow(deps: ConnectFlowDeps): Promise<ConnectResult> {
-  const {
-    authService,
-    showQuickPickSingle,
-    showQuickPickMulti,
-    saveSettings,
-    listStores,
-    listLabels,
-    listKeys,
-  } = deps;
+  const { authService, showQuickPickSingle, listStores } = deps;
+
+  // Subscriptions are listed from the VS Code account only
+  if (deps.getSettings().auth.credential !== 'vscode') {
+    return connectByEndpoint(deps);
+  }
 
   // Step 1: Ensure signed in
   const isSignedIn = await authService.ensureSignedIn();
@@ -52,24 +101,33 @@ export async function runConnectFlow(deps: ConnectFlowDeps): Promise<ConnectResu
     return { success: false, reason: 'auth_failed' };
   }
 
-  // Step 2: Get and select subscription
-  const subscriptions = await authService.getSubscriptions();
-  if (subscriptions.length === 0) {
-    return { success: false, reason: 'no_subscriptions' };
-  }
-
-  const subItems = subscriptions.map((sub) => ({
-    label: sub.name,
-    description: sub.subscriptionId,
-    subscription: sub,
-  }));
+  // Step 2: Get and select subscription, signing in to more accounts or
+  // tenants until the wanted one is listed
+  let selectedSub: SubscriptionItem | undefined;
+  for (;;) {
+    const subscriptions = await authService.getSubscriptions();
+    if (subscriptions.length === 0) {
+      return { success: false, reason: 'no_subscriptions' };
+    }
 
-  const selectedSub = await showQuickPickSingle(subItems, {
-    placeHolder: 'Select Azure subscription',
-  });
+    selectedSub = await showQuickPickSingle(
+      await getSubscriptionItems(authService, subscriptions),
+      { placeHolder: 'Select Azure subscription' }
+    );
 
-  if (!selectedSub) {
-    return { success: false, reason: 'cancelled' };
+    if (!selectedSub) {
+      return { success: false, reason: 'cancelled' };
+    }
+    if (selectedSub.action === 'endpoint') {
+      return connectByEndpoint(deps);
+    }
+    if (selectedSub.action === 'addAccount') {
+      await authService.signIn();
+    } else if (selectedSub.action === 'signInTenant') {
+      await signInToTenant(deps);
+    } else if (selectedSub.subscription) {
+      break;
+    }
   }
 
   // Step 3: List and select App Configuration store
@@ -97,42 +155,246 @@ export async function runConnectFlow(deps: ConnectFlowDeps): Promise<ConnectResu
     return { success: false, reason: 'cancelled' };
   }
 
-  // Step 4: Get and select label
-  const labels = await listLabels(selectedStore.endpoint, selectedSub.subscription);
+  const result = await selectKeysAndSave(deps, selectedStore, selectedSub.subscription, {
+    subscriptionId: selectedSub.subscription.subscriptionId,
+    tenantId: selectedSub.subscription.tenantId,
+  });
+  if (result.success) {
+    // Refresh uses this account only, rather than any account with the subscription
+    await authService.saveAccount(selectedSub.subscription.account);
+  }
+  return result;
+}
+
+/**
+ * Build the subscription picker: subscriptions grouped under their tenant and
+ * account, then the sign-in and connect by endpoint actions.
+ */
+async function getSubscriptionItems(
+  authService: Pick<AuthService, 'getTenants'>,
+  subscriptions: AzureSubscription[]
+): Promise<SubscriptionItem[]> {
+  const tenants = await authService.getTenants();
+  const groups = new Map<string, AzureSubscription[]>();
+  for (const sub of subscriptions) {
+    const key = `${sub.account.id}/${sub.tenantId}`;
+    groups.set(key, [...(groups.get(key) ?? []), sub]);
+  }
+
+  const items: SubscriptionItem[] = [];
+  for (const subs of groups.values()) {
+    const { tenantId, account } = subs[0];
+    const tenantName = tenants.find((t) => t.tenantId === tenantId)?.displayName ?? tenantId;
+    items.push({ label: `${tenantName} (${account.label})`, kind: SEPARATOR_KIND });
+    items.push(
+      ...subs.map((sub) => ({
+        label: sub.name,
+        description: sub.subscriptionId,
+        subscription: sub,
+      }))
+    );
+  }
+
+  items.push(
+    { label: '', kind: SEPARATOR_KIND },
+    {
+      label: ADD_ACCOUNT_ITEM,
+      description: 'List the subscriptions of another Microsoft account',
+      action: 'addAccount',
+    },
+    {
+      label: SIGN_IN_TENANT_ITEM,
+      description: 'For tenants that require their own sign-in or MFA',
+      action: 'signInTenant',
+    },
+    {
+      label: CONNECT_BY_ENDPOINT_ITEM,
+      description: 'For access granted on the store only',
+      action: 'endpoint',
+    }
+  );
+  return items;
+}
+
+/**
+ * Sign in to a tenant that is not listed yet: one that needs its own sign-in
+ * (e.g. for MFA), or one entered by ID.
+ */
+async function signInToTenant(deps: ConnectFlowDeps): Promise<void> {
+  const { authService, showQuickPickSingle, showInputBox } = deps;
+  const tenants = await authService.getUnauthenticatedTenants();
+  const picked = await showQuickPickSingle<TenantItem>(
+    [
+      ...tenants.map((tenant) => ({
+        label: tenant.displayName ?? tenant.tenantId!,
+        description: `${tenant.tenantId} (${tenant.account.label})`,
+        tenant,
+      })),
+      { label: ENTER_TENANT_ITEM, description: 'For a tenant not listed here' },
+    ],
+    { placeHolder: 'Select the tenant to sign in to' }
+  );
+  if (!picked) {
+    return;
+  }
+  if (picked.tenant) {
+    await authService.signIn(picked.tenant.tenantId, picked.tenant.account);
+    return;
+  }
+
+  const tenantId = await showInputBox({
+    prompt: 'Tenant ID or domain',
+    placeHolder: 'contoso.onmicrosoft.com',
+    validateInput: (value) => (value.trim() ? undefined : 'Enter a tenant ID or domain'),
+  });
+  if (tenantId) {
+    await authService.signIn(tenantId.trim());
+  }
+}
+
+/**
+ * Connect to a store by its endpoint URL, skipping the subscription and store
+ * pickers. Tokens come from the signed-in account or the configured credential
+ * source, so a data-plane role on the store is enough. No subscription is saved,
+ * only the account used.
+ */
+export async function runConnectByEndpointFlow(deps: ConnectFlowDeps): Promise<ConnectResult> {
+  if (deps.getSettings().auth.credential !== 'vscode') {
+    return connectByEndpoint(deps);
+  }
+  const isSignedIn = await deps.authService.ensureSignedIn();
+  if (!isSignedIn) {
+    return { success: false, reason: 'auth_failed' };
+  }
+  return connectByEndpoint(deps);
+}
+
+async function connectByEndpoint(deps: ConnectFlowDeps): Promise<ConnectResult> {
+  const settings = deps.getSettings();
+  const input = await deps.showInputBox({
+    prompt: 'App Configuration endpoint URL',
+    placeHolder: 'https://mystore.azconfig.io',
+    validateInput: (value) => validateEndpoint(value.trim(), settings),
+  });
+  if (!input) {
+    return { success: false, reason: 'cancelled' };
+  }
+
+  const endpoint = new URL(input.trim()).origin;
+  // Keep to the account VS Code picks now, so refresh does not switch accounts later
+  const isVSCode = settings.auth.credential === 'vscode';
+  const account = isVSCode ? await deps.authService.getDefaultAccount() : undefined;
+  const result = await selectKeysAndSave(
+    deps,
+    { endpoint, name: getStoreName({ endpoint }) },
+    isVSCode
+      ? { account, authentication: deps.authService.getAccountAuthentication(undefined, account) }
+      : undefined,
+    { subscriptionId: '', tenantId: '' }
+  );
+  if (result.success) {
+    await deps.authService.saveAccount(account);
+  }
+  return result;
+}
+
+/**
+ * Check a pasted endpoint with the same rules as the saved settings,
+ * including the domain of the configured cloud.
+ */
+function validateEndpoint(endpoint: string, settings: AzureEnvSettings): string | undefined {
+  if (!endpoint) {
+    return 'Enter the endpoint URL of the App Configuration store';
+  }
+  return validateSettings({ ...settings, endpoint }).errors.find(
+    (error) => error.field === 'endpoint'
+  )?.message;
+}
+
+/**
+ * Select labels and keys of the chosen store, then save the connection.
+ */
+async function selectKeysAndSave(
+  deps: ConnectFlowDeps,
+  selectedStore: StoreInfo,
+  credentialSource: unknown,
+  connection: Pick<AzureEnvSettings, 'subscriptionId' | 'tenantId'>
+): Promise<ConnectResult> {
+  const { showQuickPickSingle, showQuickPickMulti, saveSettings, listLabels, listKeys } = deps;
+
+  // Step 4: Get and select label (optionally layered with override labels)
+  const labels = await listLabels(selectedStore.endpoint, credentialSource);
 
   let selectedLabel = '';
+  let overrideLabels: string[] = [];
   if (labels.length > 1) {
     // Multiple labels - prompt user to select
-    const labelItems = labels.map((l) => ({
+    const labelItems: LabelItem[] = labels.map((l) => ({
       label: l || '(no label)',
       value: l,
     }));
 
-    const pickedLabel = await showQuickPickSingle(labelItems, {
-      placeHolder: 'Select configuration label',
-    });
+    const pickedLabel = await showQuickPickSingle<LabelItem>(
+      [
+        ...labelItems,
+        {
+          label: LAYER_LABELS_ITEM,
+          description: 'Base label plus override labels',
+          value: '',
+          layered: true,
+        },
+      ],
+      {
+        placeHolder: 'Select configuration label',
+      }
+    );
 
     if (!pickedLabel) {
       return { success: false, reason: 'cancelled' };
     }
-    selectedLabel = pickedLabel.value;
+
+    if (pickedLabel.layered) {
+      const layers = await pickLabelLayers(labelItems, showQuickPickSingle);
+      if (!layers) {
+        return { success: false, reason: 'cancelled' };
+      }
+      selectedLabel = layers.base;
+      overrideLabels = layers.overrides;
+    } else {
+      selectedLabel = pickedLabel.value;
+    }
   } else if (labels.length === 1) {
     // Single label - auto-select
     selectedLabel = labels[0];
   }
   // If no labels, selectedLabel remains ''
 
-  // Step 5: List and select keys (filtered by label)
-  const keys = await listKeys(selectedStore.endpoint, selectedSub.subscription, selectedLabel);
+  // Step 5: List and select keys (filtered by every selected label)
+  const keys: KeyInfo[] = [];
+  for (const label of [selectedLabel, ...overrideLabels]) {
+    for (const key of await listKeys(selectedStore.endpoint, credentialSource, label)) {
+      if (!keys.some((k) => k.key === key.key)) {
+        keys.push(key);
+      }
+    }
+  }
 
   if (keys.length === 0) {
     return { success: false, reason: 'no_keys' };
   }
 
-  const keyItems = keys.map((k) => ({
-    label: k.key,
-    key: k.key,
-  }));
+  // Offer whole folders first; they keep picking up keys added to the store later
+  const keyItems = [
+    ...getFolderSelections(keys.map((k) => k.key)).map((prefix) => ({
+      label: prefix,
+      description: `All keys under ${prefix.slice(0, -1)}, including new ones`,
+      key: prefix,
+    })),
+    ...keys.map((k) => ({
+      label: k.key,
+      key: k.key,
+    })),
+  ];
 
   const selectedKeys = await showQuickPickMulti(keyItems, {
     placeHolder: 'Select configuration keys',
@@ -150,9 +412,9 @@ export async function runConnectFlow(deps: ConnectFlowDeps): Promise<ConnectResu
   await saveSettings({
     endpoint: selectedStore.endpoint,
     selectedKeys: selectedKeys.map((k) => k.key),
-    subscriptionId: selectedSub.subscription.subscriptionId,
-    tenantId: selectedSub.subscription.tenantId,
+    ...connection,
     label: selectedLabel,
+    overrideLabels,
   });
 
   return {
@@ -161,3 +423,56 @@ export async function runConnectFlow(deps: ConnectFlowDeps): Promise<ConnectResu
     storeName: selectedStore.name,
   };
 }
+
+/**
+ * Prompt for a base label and the override labels layered on top of it.
+ * Overrides are picked one at a time in the order they are applied, so each
+ * one picked wins over the ones before it, up to the supported number.
+ */
+async function pickLabelLayers(
+  labelItems: LabelItem[],
+  showQuickPickSingle: ConnectFlowDeps['showQuickPickSingle']
+): Promise<{ base: string; overrides: string[] } | undefined> {
+  const base = await showQuickPickSingle(labelItems, {
+    placeHolder: 'Select base label (shared defaults)',
+  });
+  if (!base) {
+    return undefined;
+  }
+
+  const overrides: string[] = [];
+  for (;;) {
+    const remaining = labelItems.filter(
+      (item) => item.value !== base.value && !overrides.includes(item.value)
+    );
+    if (remaining.length === 0 || overrides.length === MAX_OVERRIDE_LABELS) {
+      break;
+    }
+    const picked = await showQuickPickSingle<LabelItem>(
+      [
+        ...remaining,
+        {
+          label: DONE_LAYERING_ITEM,
+          description:
+            overrides.length > 0
+              ? overrides.map((value) => value || '(no label)').join(' → ')
+              : 'No override labels',
+          value: '',
+          done: true,
+        },
+      ],
+      {
+        placeHolder: `Select override label ${overrides.length + 1} (wins over the labels before it)`,
+      }
+    );
+    if (!picked) {
+      return undefined;
+    }
+    if (picked.done) {
+      break;
+    }
+    overrides.push(picked.value);
+  }
+
+  return { base: base.value, overrides };
+}
@@ -0,0 +1,28 @@
+export interface CopyEnvVarItem {
+  envVar?: string;
+}
+
+export interface CopyEnvVarDeps {
+  writeText: (value: string) => Thenable<void>;
+  showInformationMessage: (message: string) => Thenable<unknown>;
+  showWarningMessage?: (message: string) => Thenable<unknown>;
+}
+
+const NO_ENV_VAR_MESSAGE = 'No environment variable name available to copy';
+
+export async function copyEnvVarCommand(
+  item: CopyEnvVarItem | undefined,
+  deps: CopyEnvVarDeps
+): Promise<void> {
+  if (!item) {
+    return;
+  }
+
+  if (!item.envVar) {
+    await deps.showWarningMessage?.(NO_ENV_VAR_MESSAGE);
+    return;
+  }
+
+  await deps.writeText(item.envVar);
+  await deps.showInformationMessage(`${item.envVar} copied to clipboard`);
+}
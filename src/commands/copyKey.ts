@@ -1,5 +1,6 @@
 export interface CopyKeyItem {
   fullKey?: string;
+  envVar?: string;
 }
 
 export interface CopyKeyDeps {
@@ -25,5 +26,7 @@ export async function copyKeyCommand(
   }
 
   await deps.writeText(item.fullKey);
-  await deps.showInformationMessage(COPY_KEY_MESSAGE);
+  await deps.showInformationMessage(
+    item.envVar ? `${COPY_KEY_MESSAGE} (${item.envVar})` : COPY_KEY_MESSAGE
+  );
 }
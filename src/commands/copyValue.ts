@@ -1,5 +1,6 @@
 export interface CopyValueItem {
   value?: string;
+  envVar?: string;
 }
 
 export interface CopyValueDeps {
@@ -25,5 +26,7 @@ export async function copyValueCommand(
   }
 
   await deps.writeText(item.value);
-  await deps.showInformationMessage(COPY_VALUE_MESSAGE);
+  await deps.showInformationMessage(
+    item.envVar ? `Value of ${item.envVar} copied to clipboard` : COPY_VALUE_MESSAGE
+  );
 }
@@ -0,0 +1,423 @@
+import type { TokenCredential } from '@azure/identity';
+import type { ConfigurationSetting } from '@azure/app-configuration';
+import { getStoreName, getStoreSources, type AzureEnvSettings } from '../models/settings';
+import {
+  isKeyVaultReference,
+  parseKeyVaultReference,
+  parseKeyVaultSecretUri,
+} from '../models/configValue';
+import { isPrefixSelection } from '../models/keySelection';
+import { getCloudEnvironment } from '../models/cloud';
+import {
+  buildKeyFilter,
+  buildLabelFilter,
+  MAX_FILTER_VALUES,
+  type ListSettingsOptions,
+} from '../services/appConfigService';
+import { CREDENTIAL_SOURCE_LABELS } from '../services/sourceCredential';
+import { AuthenticationError, getRemediation, type Remediation } from '../errors';
+import { SafeLogger } from '../utils/safeLog';
+import { chunk } from '../utils/concurrency';
+
+/**
+ * The parts of an Azure subscription the checks need.
+ */
+export interface DiagnoseSubscription {
+  name: string;
+  subscriptionId: string;
+  tenantId: string;
+}
+
+export interface DiagnoseDeps<S extends DiagnoseSubscription> {
+  getSettings: () => AzureEnvSettings;
+  /** Whether a Microsoft account is signed in, without prompting */
+  isSignedIn: () => Promise<boolean>;
+  getSubscriptions: () => Promise<S[]>;
+  /**
+   * Credential for data-plane scopes; without a subscription, the signed-in
+   * account's or the configured credential source's
+   */
+  createCredential: (subscription?: S) => TokenCredential;
+  listSettings: (
+    credential: TokenCredential,
+    endpoint: string,
+    options: ListSettingsOptions
+  ) => Promise<ConfigurationSetting[]>;
+  /** Read a secret without using the cache; the value is discarded */
+  getSecret: (credential: TokenCredential, secretUri: string) => Promise<unknown>;
+}
+
+export type DiagnosticStatus = 'pass' | 'fail' | 'skip';
+
+/**
+ * Outcome of one diagnostic check.
+ */
+export interface DiagnosticStep {
+  name: string;
+  status: DiagnosticStatus;
+  /** One-line outcome, free of setting values */
+  summary: string;
+  /** Context for the log, redacted when the report is written */
+  data?: Record<string, unknown>;
+  error?: unknown;
+  /** Suggested next step for a failure */
+  remediation?: Remediation;
+}
+
+const NOT_SIGNED_IN = new AuthenticationError('Not signed in', 'not_signed_in');
+
+const STATUS_TEXT: Record<DiagnosticStatus, string> = {
+  pass: '✅ Pass',
+  fail: '❌ Fail',
+  skip: '⏭️ Skipped',
+};
+
+/**
+ * Check each link between VS Code and the configured stores in order: sign-in,
+ * the saved subscription and tenant, data-plane tokens, store reachability,
+ * read permission on the selected keys and access to every referenced vault.
+ * Checks that depend on a failed one are reported as skipped.
+ */
+export async function runDiagnoseFlow<S extends DiagnoseSubscription>(
+  deps: DiagnoseDeps<S>
+): Promise<DiagnosticStep[]> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  const cloud = getCloudEnvironment(settings.cloud);
+  const steps: DiagnosticStep[] = [];
+  const storeStepNames = sources.flatMap((source) => [
+    `Reach ${getStoreName(source)}`,
+    `Read ${getStoreName(source)}`,
+  ]);
+  const skipRemaining = (summary: string): DiagnosticStep[] => {
+    const names = ['Subscription', 'App Configuration token', 'Key Vault token', ...storeStepNames];
+    const done = steps.map((step) => step.name);
+    return [
+      ...steps,
+      ...names
+        .filter((name) => !done.includes(name))
+        .map((name) => ({ name, status: 'skip' as const, summary })),
+    ];
+  };
+
+  // Sign-in; other credential sources sign in when the first token is requested
+  const credentialSource = settings.auth.credential;
+  if (credentialSource !== 'vscode') {
+    steps.push({
+      name: 'Sign-in',
+      status: 'skip',
+      summary: `Tokens come from ${CREDENTIAL_SOURCE_LABELS[credentialSource]}, checked by the token steps`,
+    });
+  } else {
+    try {
+      if (!(await deps.isSignedIn())) {
+        steps.push({
+          name: 'Sign-in',
+          status: 'fail',
+          summary: 'Not signed in to a Microsoft account in VS Code',
+          remediation: getRemediation(NOT_SIGNED_IN),
+        });
+        return skipRemaining('Requires sign-in');
+      }
+      steps.push({ name: 'Sign-in', status: 'pass', summary: 'Signed in to a Microsoft account' });
+    } catch (error) {
+      steps.push(failure('Sign-in', 'Could not read the sign-in state', error));
+      return skipRemaining('Requires sign-in');
+    }
+  }
+
+  // Subscription and tenant; a connection by endpoint or another credential
+  // source uses no subscription
+  let credential: TokenCredential;
+  if (settings.subscriptionId && credentialSource === 'vscode') {
+    const subscription = await checkSubscription(deps, settings, steps);
+    if (!subscription) {
+      return skipRemaining('Requires the saved subscription');
+    }
+    credential = deps.createCredential(subscription);
+  } else if (sources.length > 0) {
+    steps.push({
+      name: 'Subscription',
+      status: 'skip',
+      summary:
+        credentialSource === 'vscode'
+          ? 'Connected by endpoint, so the signed-in account is used without a subscription'
+          : `Tokens come from ${CREDENTIAL_SOURCE_LABELS[credentialSource]}, not a subscription`,
+    });
+    credential = deps.createCredential();
+  } else {
+    steps.push({
+      name: 'Subscription',
+      status: 'fail',
+      summary: 'Nothing is connected. Run "Azure Env: Connect" first.',
+    });
+    return skipRemaining('Requires a connection');
+  }
+
+  // Data-plane tokens
+  const appConfigToken = await checkToken(
+    credential,
+    'App Configuration token',
+    `${cloud.appConfigurationAudience}/.default`
+  );
+  const keyVaultToken = await checkToken(
+    credential,
+    'Key Vault token',
+    `${cloud.keyVaultAudience}/.default`
+  );
+  steps.push(appConfigToken, keyVaultToken);
+  if (appConfigToken.status !== 'pass') {
+    return skipRemaining('Requires an App Configuration token');
+  }
+
+  // Stores and the Key Vault references among their selected keys
+  const references: { key: string; uri: string }[] = [];
+  for (const source of sources) {
+    const name = getStoreName(source);
+    const labels = [source.label ?? '', ...(source.overrideLabels ?? [])];
+    const data = { endpoint: source.endpoint, labels };
+    if (source.selectedKeys.length === 0) {
+      steps.push(
+        { name: `Reach ${name}`, status: 'skip', summary: 'No keys selected', data },
+        { name: `Read ${name}`, status: 'skip', summary: 'No keys selected', data }
+      );
+      continue;
+    }
+
+    const exactKeys = source.selectedKeys.filter((selection) => !isPrefixSelection(selection));
+    const keyFilters = [
+      ...chunk(exactKeys, MAX_FILTER_VALUES).map(buildKeyFilter),
+      ...source.selectedKeys.filter(isPrefixSelection),
+    ];
+    const labelFilter = buildLabelFilter(labels.filter((label, i) => labels.indexOf(label) === i));
+
+    const found: ConfigurationSetting[] = [];
+    try {
+      // The first request tells whether the store answers at all
+      found.push(
+        ...(await deps.listSettings(credential, source.endpoint, {
+          keyFilter: keyFilters[0],
+          labelFilter,
+        }))
+      );
+      steps.push({ name: `Reach ${name}`, status: 'pass', summary: 'The store responded', data });
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === undefined) {
+        steps.push(failure(`Reach ${name}`, 'The store did not respond', error, data), {
+          name: `Read ${name}`,
+          status: 'skip',
+          summary: 'Requires a reachable store',
+        });
+      } else {
+        steps.push(
+          {
+            name: `Reach ${name}`,
+            status: 'pass',
+            summary: `The store responded with status ${statusCode}`,
+            data,
+          },
+          failure(`Read ${name}`, 'Reading the selected keys was refused', error, data)
+        );
+      }
+      continue;
+    }
+
+    try {
+      for (const keyFilter of keyFilters.slice(1)) {
+        found.push(
+          ...(await deps.listSettings(credential, source.endpoint, { keyFilter, labelFilter }))
+        );
+      }
+    } catch (error) {
+      steps.push(failure(`Read ${name}`, 'Reading the selected keys failed', error, data));
+      continue;
+    }
+
+    steps.push({
+      name: `Read ${name}`,
+      status: 'pass',
+      summary:
+        found.length > 0
+          ? `Read ${found.length} settings for ${source.selectedKeys.length} selections`
+          : 'Read permission granted, but no selected key was found',
+      data,
+    });
+
+    for (const setting of found.filter((candidate) => isKeyVaultReference(candidate.contentType))) {
+      try {
+        const uri = parseKeyVaultReference(setting.value ?? '');
+        parseKeyVaultSecretUri(uri, cloud);
+        references.push({ key: setting.key, uri });
+      } catch (error) {
+        steps.push(
+          failure(`Reference ${setting.key}`, 'The Key Vault reference is malformed', error)
+        );
+      }
+    }
+  }
+
+  // One secret from each distinct vault
+  const vaults = new Map<string, string[]>();
+  for (const { uri } of references) {
+    const { vaultUrl } = parseKeyVaultSecretUri(uri, cloud);
+    vaults.set(vaultUrl, [...(vaults.get(vaultUrl) ?? []), uri]);
+  }
+  for (const [vaultUrl, uris] of vaults) {
+    const name = `Vault ${new URL(vaultUrl).hostname}`;
+    const data = { vaultUrl, references: uris.length };
+    if (keyVaultToken.status !== 'pass') {
+      steps.push({ name, status: 'skip', summary: 'Requires a Key Vault token', data });
+      continue;
+    }
+    try {
+      await deps.getSecret(credential, uris[0]);
+      steps.push({ name, status: 'pass', summary: 'Read a referenced secret', data });
+    } catch (error) {
+      steps.push(failure(name, 'Reading a referenced secret failed', error, data));
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Find the saved subscription, preferring the saved tenant, and record the
+ * outcome. A subscription found in another tenant fails the check but is
+ * still returned so the later checks can run.
+ */
+async function checkSubscription<S extends DiagnoseSubscription>(
+  deps: DiagnoseDeps<S>,
+  settings: AzureEnvSettings,
+  steps: DiagnosticStep[]
+): Promise<S | undefined> {
+  const expected = { subscriptionId: settings.subscriptionId, tenantId: settings.tenantId };
+  let subscription: S | undefined;
+  try {
+    const subscriptions = await deps.getSubscriptions();
+    subscription = subscriptions.find(
+      (candidate) =>
+        candidate.subscriptionId === settings.subscriptionId &&
+        candidate.tenantId === settings.tenantId
+    );
+    if (subscription) {
+      steps.push({
+        name: 'Subscription',
+        status: 'pass',
+        summary: `Found ${subscription.name} in the saved tenant`,
+        data: expected,
+      });
+    } else {
+      subscription = subscriptions.find(
+        (candidate) => candidate.subscriptionId === settings.subscriptionId
+      );
+      steps.push({
+        name: 'Subscription',
+        status: 'fail',
+        summary: subscription
+          ? `${subscription.name} is in tenant ${subscription.tenantId}, not the saved tenant`
+          : `The saved subscription is not available to the signed-in account (${subscriptions.length} available)`,
+        data: expected,
+        remediation: {
+          action: 'switchTenant',
+          title: 'Switch Tenant',
+          detail: 'Sign in to the tenant the store belongs to, or run "Azure Env: Connect" again.',
+        },
+      });
+    }
+  } catch (error) {
+    steps.push(failure('Subscription', 'Could not list subscriptions', error, expected));
+  }
+  return subscription;
+}
+
+async function checkToken(
+  credential: TokenCredential,
+  name: string,
+  scope: string
+): Promise<DiagnosticStep> {
+  try {
+    const token = await credential.getToken(scope);
+    if (!token) {
+      return {
+        name,
+        status: 'fail',
+        summary: 'No token was returned',
+        data: { scope },
+        remediation: getRemediation(NOT_SIGNED_IN),
+      };
+    }
+    return {
+      name,
+      status: 'pass',
+      summary: 'Token acquired',
+      data: { scope, expiresOn: new Date(token.expiresOnTimestamp).toISOString() },
+    };
+  } catch (error) {
+    return failure(name, 'Token acquisition failed', error, { scope });
+  }
+}
+
+function failure(
+  name: string,
+  summary: string,
+  error: unknown,
+  data?: Record<string, unknown>
+): DiagnosticStep {
+  return { name, status: 'fail', summary, data, error, remediation: getRemediation(error) };
+}
+
+/**
+ * Render the checks as a markdown report for a support ticket. The summary
+ * table holds no values; the log beneath it is written through SafeLogger,
+ * which redacts sensitive fields.
+ */
+export function formatDiagnosticReport(steps: DiagnosticStep[], generatedAt: Date): string {
+  const log: string[] = [];
+  const logger = new SafeLogger({
+    appendLine: (line: string): void => {
+      log.push(line);
+    },
+    show: (): void => undefined,
+  });
+  for (const step of steps) {
+    const message = `${step.name}: ${step.status}. ${step.summary}`;
+    if (step.status === 'fail') {
+      logger.error(message, step.error);
+      if (step.data) {
+        logger.debug(`${step.name} context`, step.data);
+      }
+    } else if (step.status === 'skip') {
+      logger.warn(message, step.data);
+    } else {
+      logger.info(message, step.data);
+    }
+  }
+
+  const cell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const failed = steps.filter((step) => step.status === 'fail').length;
+  return [
+    '# Azure Env Diagnostics',
+    '',
+    `Generated ${generatedAt.toISOString()}. ${failed === 0 ? 'All checks passed.' : `${failed} of ${steps.length} checks failed.`}`,
+    'Setting values, secrets and tokens are not included.',
+    '',
+    '| Step | Result | Details |',
+    '| --- | --- | --- |',
+    ...steps.map(
+      (step) =>
+        `| ${cell(step.name)} | ${STATUS_TEXT[step.status]} | ${cell(
+          step.remediation && step.status === 'fail'
+            ? `${step.summary}. Next step: ${step.remediation.detail}`
+            : step.summary
+        )} |`
+    ),
+    '',
+    '## Log',
+    '',
+    '```text',
+    ...log,
+    '```',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,79 @@
+import type { ConnectionSnapshot } from '../models/settings';
+
+export interface DisconnectDeps {
+  getConnectionSnapshot: () => ConnectionSnapshot;
+  clearConnectionSettings: () => Promise<void>;
+  /** Keep the cleared settings so the user can reconnect later */
+  rememberConnection: (snapshot: ConnectionSnapshot) => Thenable<void>;
+  /** Remove injected variables, tree contents, status and pending refreshes */
+  teardown: () => void;
+  showWarningMessage: (
+    message: string,
+    options: { modal: true; detail?: string },
+    confirmLabel: string
+  ) => Thenable<string | undefined>;
+}
+
+export type DisconnectResult =
+  { disconnected: true; canReconnect: boolean } | { disconnected: false; reason: 'cancelled' };
+
+export interface ReconnectDeps {
+  getRememberedConnection: () => ConnectionSnapshot | undefined;
+  restoreConnectionSettings: (snapshot: ConnectionSnapshot) => Promise<void>;
+  forgetConnection: () => Thenable<void>;
+}
+
+export type ReconnectResult =
+  | { reconnected: true; snapshot: ConnectionSnapshot }
+  | { reconnected: false; reason: 'nothing_remembered' };
+
+const DISCONNECT_CONFIRM_LABEL = 'Disconnect';
+
+/**
+ * Confirm, then remove every App Configuration setting from the workspace and
+ * tear down everything the connection produced. The cleared settings are
+ * remembered for {@link runReconnectFlow}.
+ */
+export async function runDisconnectFlow(deps: DisconnectDeps): Promise<DisconnectResult> {
+  const confirmation = await deps.showWarningMessage(
+    'Disconnect Azure Env from App Configuration?',
+    {
+      modal: true,
+      detail:
+        'This removes the azureEnv.appConfiguration settings from this workspace and clears the injected environment variables.',
+    },
+    DISCONNECT_CONFIRM_LABEL
+  );
+
+  if (confirmation !== DISCONNECT_CONFIRM_LABEL) {
+    return { disconnected: false, reason: 'cancelled' };
+  }
+
+  const snapshot = deps.getConnectionSnapshot();
+  const canReconnect = isConnection(snapshot);
+  if (canReconnect) {
+    await deps.rememberConnection(snapshot);
+  }
+
+  await deps.clearConnectionSettings();
+  deps.teardown();
+  return { disconnected: true, canReconnect };
+}
+
+/**
+ * Restore the settings remembered by the last disconnect.
+ */
+export async function runReconnectFlow(deps: ReconnectDeps): Promise<ReconnectResult> {
+  const snapshot = deps.getRememberedConnection();
+  if (!snapshot || !isConnection(snapshot)) {
+    return { reconnected: false, reason: 'nothing_remembered' };
+  }
+
+  await deps.restoreConnectionSettings(snapshot);
+  await deps.forgetConnection();
+  return { reconnected: true, snapshot };
+}
+
+function isConnection(snapshot: ConnectionSnapshot): boolean {
+  return !!snapshot.endpoint || (snapshot.stores?.length ?? 0) > 0 || !!snapshot.activeProfile;
+}
@@ -0,0 +1,126 @@
+import type { QuickPickItem } from 'vscode';
+import {
+  getStoreName,
+  getStoreSources,
+  type AzureEnvSettings,
+  type StoreSource,
+} from '../models/settings';
+import { isPrefixSelection, matchesSelection } from '../models/keySelection';
+import { getKeyPrefixes, pickStore, saveStoreSelections } from './addConfig';
+
+export interface EditKeysDeps {
+  getSettings: () => AzureEnvSettings;
+  /** Keys in the store under any of its refreshed labels */
+  listKeys: (source: StoreSource) => Promise<string[]>;
+  showQuickPickSingle: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T | undefined>;
+  showQuickPickMulti: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T[] | undefined>;
+  saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+}
+
+export type EditKeysResult =
+  | { saved: true; added: string[]; removed: string[]; store: string }
+  | { saved: false; reason: 'cancelled' | 'not_connected' | 'no_keys' | 'unchanged' };
+
+interface SelectionItem extends QuickPickItem {
+  selection: string;
+}
+
+/**
+ * Change the selected keys of a configured store without re-running connect.
+ * The store's keys are listed under their folders, with a "whole folder"
+ * entry per folder and the current selection pre-checked. Only the
+ * difference is saved: selections that are not listed are kept, and added
+ * keys lose an exact exclusion.
+ */
+export async function runEditKeysFlow(deps: EditKeysDeps): Promise<EditKeysResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  if (sources.length === 0) {
+    return { saved: false, reason: 'not_connected' };
+  }
+
+  const source = await pickStore(sources, undefined, deps);
+  if (!source) {
+    return { saved: false, reason: 'cancelled' };
+  }
+
+  const keys = await deps.listKeys(source);
+  if (keys.length === 0) {
+    return { saved: false, reason: 'no_keys' };
+  }
+
+  const items = buildSelectionItems(keys, source.selectedKeys);
+  const picked = await deps.showQuickPickMulti(items, {
+    placeHolder: `Select configuration keys for ${getStoreName(source)}`,
+  });
+  if (!picked) {
+    return { saved: false, reason: 'cancelled' };
+  }
+
+  const checked = picked.map((item) => item.selection);
+  const listed = items.map((item) => item.selection);
+  const removed = source.selectedKeys.filter(
+    (selection) => listed.includes(selection) && !checked.includes(selection)
+  );
+  const added = checked.filter((selection) => !source.selectedKeys.includes(selection));
+  if (added.length === 0 && removed.length === 0) {
+    return { saved: false, reason: 'unchanged' };
+  }
+
+  const exclusions = source.excludedKeys ?? [];
+  const excludedKeys = exclusions.filter((exclusion) => !added.includes(exclusion));
+  await saveStoreSelections(
+    settings,
+    source,
+    {
+      selectedKeys: [
+        ...source.selectedKeys.filter((selection) => !removed.includes(selection)),
+        ...added,
+      ],
+      ...(excludedKeys.length !== exclusions.length && { excludedKeys }),
+    },
+    deps
+  );
+
+  return { saved: true, added, removed, store: getStoreName(source) };
+}
+
+/**
+ * Build the key list: every folder as a prefix selection, followed by the
+ * folders and keys under it, with the current selections checked.
+ */
+function buildSelectionItems(keys: string[], selectedKeys: string[]): SelectionItem[] {
+  const folders = getKeyPrefixes(keys).map((prefix) => `${prefix}*`);
+  return [...folders, ...keys].sort(compareSelections).map((selection) => {
+    const coveredBy = selectedKeys.find(
+      (other) =>
+        other !== selection && isPrefixSelection(other) && matchesSelection(selection, other)
+    );
+    return {
+      label: isPrefixSelection(selection) ? `$(folder) ${selection}` : selection,
+      description: isPrefixSelection(selection)
+        ? 'Whole folder, including keys added later'
+        : coveredBy && `Included by ${coveredBy}`,
+      picked: selectedKeys.includes(selection),
+      selection,
+    };
+  });
+}
+
+/**
+ * Order selections by path, with a folder's prefix selection before its contents.
+ */
+function compareSelections(a: string, b: string): number {
+  const pathA = isPrefixSelection(a) ? a.slice(0, -1) : a;
+  const pathB = isPrefixSelection(b) ? b.slice(0, -1) : b;
+  if (pathA === pathB) {
+    return 0;
+  }
+  return pathA < pathB ? -1 : 1;
+}
@@ -0,0 +1,139 @@
+import type { ConfigurationSetting } from '@azure/app-configuration';
+import type { SetSettingOptions } from '../services/appConfigService';
+import { getStoreName, getStoreSources, type AzureEnvSettings } from '../models/settings';
+import { parseKeyVaultSecretUri } from '../models/configValue';
+import { getCloudEnvironment } from '../models/cloud';
+import { SettingConflictError } from '../errors';
+
+/**
+ * Value node the command was started from in the tree view.
+ */
+export interface EditValueItem {
+  key?: string;
+  value?: string;
+  isSecret?: boolean;
+  /** Label the value was read from ('' for the null label) */
+  sourceLabel?: string;
+  store?: string;
+  etag?: string;
+  secretUri?: string;
+}
+
+export interface EditValueDeps {
+  getSettings: () => AzureEnvSettings;
+  showInputBox: (options: {
+    prompt: string;
+    value?: string;
+    password?: boolean;
+  }) => Thenable<string | undefined>;
+  /** Edit a multi-line value in an editor; undefined when the user cancels */
+  editInEditor: (key: string, value: string) => Promise<string | undefined>;
+  /** Read the stored setting, for its etag, content type and tags */
+  getSetting: (endpoint: string, key: string, label: string) => Promise<ConfigurationSetting>;
+  /** Write the setting only if it still has the etag in the options; returns the new etag */
+  setSetting: (
+    endpoint: string,
+    key: string,
+    value: string,
+    label: string,
+    options: SetSettingOptions
+  ) => Promise<string | undefined>;
+  /** Add a new version of the secret */
+  setSecret: (vaultUrl: string, secretName: string, value: string) => Promise<string>;
+}
+
+export type EditValueResult =
+  | {
+      edited: true;
+      key: string;
+      value: string;
+      /** Etag of the updated setting, for plain values */
+      etag?: string;
+      /** The reference pins a secret version, so the new version is not injected */
+      pinned?: boolean;
+    }
+  | { edited: false; reason: 'cancelled' | 'unchanged' | 'not_editable' | 'conflict' };
+
+/**
+ * Edit a value from the tree in place. Plain values are written back to
+ * App Configuration only if nobody changed them since they were loaded;
+ * multi-line values are edited in an editor. For Key Vault references a new
+ * version of the referenced secret is added instead.
+ */
+export async function runEditValueFlow(
+  item: EditValueItem | undefined,
+  deps: EditValueDeps
+): Promise<EditValueResult> {
+  if (!item?.key) {
+    return { edited: false, reason: 'not_editable' };
+  }
+  const { key } = item;
+  const current = item.value ?? '';
+
+  if (item.isSecret) {
+    if (!item.secretUri) {
+      return { edited: false, reason: 'not_editable' };
+    }
+    const secret = parseKeyVaultSecretUri(
+      item.secretUri,
+      getCloudEnvironment(deps.getSettings().cloud)
+    );
+    const value = await deps.showInputBox({
+      prompt: `New value for secret ${secret.secretName}`,
+      value: current,
+      password: true,
+    });
+    if (value === undefined) {
+      return { edited: false, reason: 'cancelled' };
+    }
+    if (value === current) {
+      return { edited: false, reason: 'unchanged' };
+    }
+
+    await deps.setSecret(secret.vaultUrl, secret.secretName, value);
+    return { edited: true, key, value, pinned: !!secret.version };
+  }
+
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  const source =
+    sources.find((candidate) => getStoreName(candidate) === item.store) ??
+    (sources.length === 1 ? sources[0] : undefined);
+  if (!source) {
+    return { edited: false, reason: 'not_editable' };
+  }
+
+  const value = current.includes('\n')
+    ? await deps.editInEditor(key, current)
+    : await deps.showInputBox({ prompt: `Value for ${key}`, value: current });
+  if (value === undefined) {
+    return { edited: false, reason: 'cancelled' };
+  }
+  if (value === current) {
+    return { edited: false, reason: 'unchanged' };
+  }
+
+  // The write replaces the whole setting, so keep its content type and tags.
+  // Without an etag from the tree, the stored one is used if the value is
+  // still the one that was edited.
+  const label = item.sourceLabel ?? source.label ?? '';
+  const stored = await deps.getSetting(source.endpoint, key, label);
+  const etag = item.etag ?? stored.etag;
+  if (!etag || etag !== stored.etag || (stored.value ?? '') !== current) {
+    return { edited: false, reason: 'conflict' };
+  }
+
+  try {
+    const newEtag = await deps.setSetting(source.endpoint, key, value, label, {
+      contentType: stored.contentType,
+      tags: stored.tags,
+      etag,
+    });
+    return { edited: true, key, value, etag: newEtag };
+  } catch (error) {
+    if (error instanceof SettingConflictError) {
+      return { edited: false, reason: 'conflict' };
+    }
+    throw error;
+  }
+}
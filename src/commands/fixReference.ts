@@ -0,0 +1,124 @@
+import type { ConfigurationSetting } from '@azure/app-configuration';
+import type { SetSettingOptions } from '../services/appConfigService';
+import { getStoreName, getStoreSources, type AzureEnvSettings } from '../models/settings';
+import {
+  createKeyVaultReference,
+  KEY_VAULT_REFERENCE_CONTENT_TYPE,
+  parseKeyVaultReference,
+  parseKeyVaultSecretUri,
+} from '../models/configValue';
+import { getCloudEnvironment } from '../models/cloud';
+import { SettingConflictError } from '../errors';
+
+/**
+ * Key whose Key Vault reference failed to resolve.
+ */
+export interface FixReferenceTarget {
+  key: string;
+  store?: string;
+  /**
+   * Label of the setting holding the reference: '' for the null label, unset
+   * when unknown, in which case the store's label is used
+   */
+  label?: string;
+  /** Current value of the reference, which may not be valid JSON */
+  reference?: string;
+}
+
+export interface FixReferenceDeps {
+  getSettings: () => AzureEnvSettings;
+  showInputBox: (options: {
+    prompt: string;
+    placeHolder?: string;
+    value?: string;
+    validateInput?: (value: string) => string | undefined;
+  }) => Thenable<string | undefined>;
+  getSetting: (endpoint: string, key: string, label: string) => Promise<ConfigurationSetting>;
+  setSetting: (
+    endpoint: string,
+    key: string,
+    value: string,
+    label: string,
+    options: SetSettingOptions
+  ) => Promise<void>;
+}
+
+export type FixReferenceResult =
+  | { fixed: true; key: string; secretUri: string }
+  | { fixed: false; reason: 'cancelled' | 'not_connected' | 'conflict' };
+
+/**
+ * Point a broken Key Vault reference at a secret URI. The current URI is
+ * offered for editing when the reference can still be read. The setting keeps
+ * its tags, and is only written if it has not changed since it was loaded.
+ */
+export async function runFixReferenceFlow(
+  target: FixReferenceTarget,
+  deps: FixReferenceDeps
+): Promise<FixReferenceResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  const source = target.store
+    ? sources.find((candidate) => getStoreName(candidate) === target.store)
+    : sources[0];
+  if (!source) {
+    return { fixed: false, reason: 'not_connected' };
+  }
+
+  const cloud = getCloudEnvironment(settings.cloud);
+  const secretUri = await deps.showInputBox({
+    prompt: `Key Vault secret URI for ${target.key}`,
+    placeHolder: `https://myvault.${cloud.keyVaultSuffix || 'vault.azure.net'}/secrets/MySecret`,
+    value: readSecretUri(target.reference),
+    validateInput: (value) => {
+      try {
+        parseKeyVaultSecretUri(value.trim(), cloud);
+        return undefined;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    },
+  });
+  if (secretUri === undefined) {
+    return { fixed: false, reason: 'cancelled' };
+  }
+
+  const uri = secretUri.trim();
+  const label = target.label ?? source.label ?? '';
+  const stored = await deps.getSetting(source.endpoint, target.key, label);
+  if (
+    !stored.etag ||
+    (target.reference !== undefined && (stored.value ?? '') !== target.reference)
+  ) {
+    return { fixed: false, reason: 'conflict' };
+  }
+
+  try {
+    await deps.setSetting(source.endpoint, target.key, createKeyVaultReference(uri), label, {
+      contentType: KEY_VAULT_REFERENCE_CONTENT_TYPE,
+      tags: stored.tags,
+      etag: stored.etag,
+    });
+  } catch (error) {
+    if (error instanceof SettingConflictError) {
+      return { fixed: false, reason: 'conflict' };
+    }
+    throw error;
+  }
+  return { fixed: true, key: target.key, secretUri: uri };
+}
+
+/**
+ * Get the secret URI from a reference value, falling back to the raw value
+ * when it is not valid JSON (e.g. a bare URI).
+ */
+function readSecretUri(reference: string | undefined): string | undefined {
+  if (!reference) {
+    return undefined;
+  }
+  try {
+    return parseKeyVaultReference(reference);
+  } catch {
+    return reference.trim().startsWith('https://') ? reference.trim() : undefined;
+  }
+}
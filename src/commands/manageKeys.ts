@@ -0,0 +1,273 @@
+import type { ConfigurationSetting } from '@azure/app-configuration';
+import type { QuickPickItem } from 'vscode';
+import {
+  buildKeyFilter,
+  buildLabelFilter,
+  buildPrefixFilter,
+  MAX_FILTER_VALUES,
+  type ListSettingsOptions,
+  type SetSettingOptions,
+} from '../services/appConfigService';
+import {
+  getStoreName,
+  getStoreSources,
+  type AzureEnvSettings,
+  type StoreSource,
+} from '../models/settings';
+import { isPrefixSelection, matchesSelection, renameSelection } from '../models/keySelection';
+import type { KeyHierarchyNode } from '../models/keyHierarchy';
+import { chunk } from '../utils/concurrency';
+import { pickStore, saveStoreSelections, validateKey } from './addConfig';
+
+/**
+ * Tree node the command was started from: a value, or a folder whose whole
+ * subtree is affected.
+ */
+export type ManageKeyItem = Pick<KeyHierarchyNode, 'key' | 'isValue' | 'children' | 'store'>;
+
+export interface ManageKeysDeps {
+  getSettings: () => AzureEnvSettings;
+  showQuickPickSingle: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T | undefined>;
+  showInputBox: (options: {
+    prompt: string;
+    value?: string;
+    validateInput?: (value: string) => string | undefined;
+  }) => Thenable<string | undefined>;
+  showWarningMessage: (
+    message: string,
+    options: { modal: true; detail?: string },
+    confirmLabel: string
+  ) => Thenable<string | undefined>;
+  listSettings: (endpoint: string, options: ListSettingsOptions) => Promise<ConfigurationSetting[]>;
+  setSetting: (
+    endpoint: string,
+    key: string,
+    value: string,
+    label: string,
+    options: SetSettingOptions
+  ) => Promise<void>;
+  deleteSetting: (endpoint: string, key: string, label: string) => Promise<void>;
+  saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+}
+
+export type DeleteKeyResult =
+  | { deleted: true; keys: string[]; store: string }
+  | { deleted: false; reason: 'cancelled' | 'not_connected' | 'not_found' };
+
+export type RenameKeyResult =
+  | { renamed: true; keys: { from: string; to: string }[]; store: string }
+  | { renamed: false; reason: 'cancelled' | 'not_connected' | 'not_found' }
+  | { renamed: false; reason: 'exists'; keys: string[] };
+
+const DELETE_CONFIRM_LABEL = 'Delete';
+const RENAME_CONFIRM_LABEL = 'Rename';
+
+/**
+ * Delete a key, or every key under a folder, from App Configuration under
+ * each label the store is refreshed with. A preview of every affected
+ * setting is confirmed first. Exact selections of the deleted keys, and
+ * prefix selections inside a deleted folder, are removed from the settings.
+ */
+export async function runDeleteKeyFlow(
+  item: ManageKeyItem | undefined,
+  deps: ManageKeysDeps
+): Promise<DeleteKeyResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  if (!item?.key || sources.length === 0) {
+    return { deleted: false, reason: 'not_connected' };
+  }
+
+  const source = await pickStore(sources, item.store, deps);
+  if (!source) {
+    return { deleted: false, reason: 'cancelled' };
+  }
+
+  const existing = await listNode(source, item, deps);
+  if (existing.length === 0) {
+    return { deleted: false, reason: 'not_found' };
+  }
+
+  const confirmation = await deps.showWarningMessage(
+    `Delete ${describeCount(existing.length)} from ${getStoreName(source)}?`,
+    { modal: true, detail: existing.map(describeSetting).join('\n') },
+    DELETE_CONFIRM_LABEL
+  );
+  if (confirmation !== DELETE_CONFIRM_LABEL) {
+    return { deleted: false, reason: 'cancelled' };
+  }
+
+  for (const setting of existing) {
+    await deps.deleteSetting(source.endpoint, setting.key, setting.label ?? '');
+  }
+
+  const deleted = unique(existing.map((setting) => setting.key));
+  const isFolder = item.children.length > 0;
+  const selectedKeys = source.selectedKeys.filter((selection) =>
+    isPrefixSelection(selection)
+      ? !(isFolder && selection.startsWith(`${item.key}/`))
+      : !deleted.includes(selection)
+  );
+  if (selectedKeys.length !== source.selectedKeys.length) {
+    await saveStoreSelections(settings, source, { selectedKeys }, deps);
+  }
+
+  return { deleted: true, keys: deleted, store: getStoreName(source) };
+}
+
+/**
+ * Rename a key, or move every key under a folder to a new path. Each setting
+ * is copied with its value, content type and tags under the same label, and
+ * the old settings are deleted once every copy has been written. Selections
+ * are moved along with the keys.
+ */
+export async function runRenameKeyFlow(
+  item: ManageKeyItem | undefined,
+  deps: ManageKeysDeps
+): Promise<RenameKeyResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  if (!item?.key || sources.length === 0) {
+    return { renamed: false, reason: 'not_connected' };
+  }
+  const from = item.key;
+
+  const source = await pickStore(sources, item.store, deps);
+  if (!source) {
+    return { renamed: false, reason: 'cancelled' };
+  }
+
+  const to = await deps.showInputBox({
+    prompt: item.children.length > 0 ? `New path for ${from}/` : `New name for ${from}`,
+    value: from,
+    validateInput: (value) => (value === from ? 'Enter a different name' : validateKey(value)),
+  });
+  if (!to) {
+    return { renamed: false, reason: 'cancelled' };
+  }
+
+  const existing = await listNode(source, item, deps);
+  if (existing.length === 0) {
+    return { renamed: false, reason: 'not_found' };
+  }
+
+  const targets = await listExisting(
+    source,
+    unique(existing.map((setting) => renameSelection(setting.key, from, to))),
+    deps
+  );
+  if (targets.length > 0) {
+    return {
+      renamed: false,
+      reason: 'exists',
+      keys: unique(targets.map((setting) => setting.key)),
+    };
+  }
+
+  const confirmation = await deps.showWarningMessage(
+    `Rename ${describeCount(existing.length)} in ${getStoreName(source)}?`,
+    {
+      modal: true,
+      detail: existing
+        .map((setting) => `${describeSetting(setting)} → ${renameSelection(setting.key, from, to)}`)
+        .join('\n'),
+    },
+    RENAME_CONFIRM_LABEL
+  );
+  if (confirmation !== RENAME_CONFIRM_LABEL) {
+    return { renamed: false, reason: 'cancelled' };
+  }
+
+  // Copy everything before deleting anything, so a failure never loses a value
+  for (const setting of existing) {
+    await deps.setSetting(
+      source.endpoint,
+      renameSelection(setting.key, from, to),
+      setting.value ?? '',
+      setting.label ?? '',
+      { contentType: setting.contentType, tags: setting.tags }
+    );
+  }
+  for (const setting of existing) {
+    await deps.deleteSetting(source.endpoint, setting.key, setting.label ?? '');
+  }
+
+  const renamed = unique(existing.map((setting) => setting.key)).map((key) => ({
+    from: key,
+    to: renameSelection(key, from, to),
+  }));
+  const selectedKeys = source.selectedKeys.map((selection) => renameSelection(selection, from, to));
+  for (const key of renamed) {
+    const wasSelected = source.selectedKeys.some((selection) =>
+      matchesSelection(key.from, selection)
+    );
+    if (wasSelected && !selectedKeys.some((selection) => matchesSelection(key.to, selection))) {
+      selectedKeys.push(key.to);
+    }
+  }
+  if (selectedKeys.some((selection, index) => selection !== source.selectedKeys[index])) {
+    await saveStoreSelections(settings, source, { selectedKeys }, deps);
+  }
+
+  return { renamed: true, keys: renamed, store: getStoreName(source) };
+}
+
+/**
+ * List the settings a node stands for: its own value and, for a folder, every
+ * key in the store under it, including keys the tree has not loaded.
+ */
+async function listNode(
+  source: StoreSource,
+  node: ManageKeyItem,
+  deps: ManageKeysDeps
+): Promise<ConfigurationSetting[]> {
+  const settings = node.isValue ? await listExisting(source, [node.key], deps) : [];
+  if (node.children.length > 0) {
+    settings.push(
+      ...(await deps.listSettings(source.endpoint, {
+        keyFilter: buildPrefixFilter(`${node.key}/`),
+        labelFilter: buildLabelFilter(getLabels(source)),
+      }))
+    );
+  }
+  return settings;
+}
+
+/**
+ * List the settings of the given keys under every label the store is refreshed with.
+ */
+async function listExisting(
+  source: StoreSource,
+  keys: string[],
+  deps: ManageKeysDeps
+): Promise<ConfigurationSetting[]> {
+  const settings: ConfigurationSetting[] = [];
+  for (const batch of chunk(keys, MAX_FILTER_VALUES)) {
+    settings.push(
+      ...(await deps.listSettings(source.endpoint, {
+        keyFilter: buildKeyFilter(batch),
+        labelFilter: buildLabelFilter(getLabels(source)),
+      }))
+    );
+  }
+  return settings;
+}
+
+function getLabels(source: StoreSource): string[] {
+  return unique([source.label ?? '', ...(source.overrideLabels ?? [])]);
+}
+
+function describeSetting(setting: ConfigurationSetting): string {
+  return `${setting.key} [${setting.label || '(no label)'}]`;
+}
+
+function describeCount(count: number): string {
+  return `${count} setting${count === 1 ? '' : 's'}`;
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
@@ -0,0 +1,116 @@
+import type { QuickPickItem } from 'vscode';
+import {
+  getStoreChanges,
+  getStoreName,
+  getStoreSources,
+  type AzureEnvSettings,
+  type StoreSource,
+} from '../models/settings';
+import type { MissingKey } from '../models/keyHierarchy';
+import { matchesSelection, suggestRenamedKey } from '../models/keySelection';
+
+export interface PruneKeysDeps {
+  getSettings: () => AzureEnvSettings;
+  /** Keys in the store under any of its refreshed labels */
+  listKeys: (source: StoreSource) => Promise<string[]>;
+  showQuickPickMulti: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T[] | undefined>;
+  saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+}
+
+export type PruneKeysResult =
+  | { pruned: true; removed: string[]; added: string[] }
+  | { pruned: false; reason: 'cancelled' | 'nothing_missing' };
+
+interface PruneItem extends QuickPickItem {
+  key: string;
+  source: StoreSource;
+  action: 'remove' | 'add';
+}
+
+/**
+ * Remove selected keys that the last refresh reported as missing. Each
+ * missing key is listed for removal, followed by the key it was most likely
+ * renamed to (if any), which can be selected in its place.
+ */
+export async function runPruneMissingKeysFlow(
+  missing: MissingKey[],
+  deps: PruneKeysDeps
+): Promise<PruneKeysResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  const showStore = sources.length > 1;
+
+  const items: PruneItem[] = [];
+  const storeKeys = new Map<StoreSource, string[]>();
+  for (const entry of missing) {
+    // Stores sharing a name differ by label, so take the one that selects the key.
+    // Keys pruned or re-selected since the refresh are skipped.
+    const source = sources.find(
+      (candidate) =>
+        (entry.store ? getStoreName(candidate) === entry.store : candidate === sources[0]) &&
+        candidate.selectedKeys.includes(entry.key)
+    );
+    if (!source) {
+      continue;
+    }
+
+    items.push({
+      label: `$(trash) ${entry.key}`,
+      description: showStore ? `remove from ${getStoreName(source)}` : 'remove from selected keys',
+      picked: true,
+      key: entry.key,
+      source,
+      action: 'remove',
+    });
+
+    if (!storeKeys.has(source)) {
+      storeKeys.set(source, await deps.listKeys(source));
+    }
+    const suggestion = suggestRenamedKey(entry.key, storeKeys.get(source) ?? []);
+    if (
+      suggestion &&
+      !source.selectedKeys.some((selection) => matchesSelection(suggestion, selection))
+    ) {
+      items.push({
+        label: `$(arrow-right) ${suggestion}`,
+        description: `select instead of ${entry.key}`,
+        key: suggestion,
+        source,
+        action: 'add',
+      });
+    }
+  }
+
+  if (items.length === 0) {
+    return { pruned: false, reason: 'nothing_missing' };
+  }
+
+  const picked = await deps.showQuickPickMulti(items, {
+    placeHolder: 'Select missing keys to remove and renamed keys to select',
+  });
+  if (!picked || picked.length === 0) {
+    return { pruned: false, reason: 'cancelled' };
+  }
+
+  // Apply every store's changes in one save
+  let changes: Partial<AzureEnvSettings> = {};
+  for (const source of new Set(picked.map((item) => item.source))) {
+    const removed = picked.filter((item) => item.source === source && item.action === 'remove');
+    const added = picked.filter((item) => item.source === source && item.action === 'add');
+    const selectedKeys = [
+      ...source.selectedKeys.filter((selection) => !removed.some((item) => item.key === selection)),
+      ...added.map((item) => item.key),
+    ];
+    changes = getStoreChanges(settings, source, { selectedKeys }, changes);
+  }
+  await deps.saveSettings(changes);
+
+  return {
+    pruned: true,
+    removed: picked.filter((item) => item.action === 'remove').map((item) => item.key),
+    added: picked.filter((item) => item.action === 'add').map((item) => item.key),
+  };
+}
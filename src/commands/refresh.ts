@@ -1,21 +1,51 @@
 import type { CancellationToken, EnvironmentVariableCollection } from 'vscode';
-import type { AppConfigService } from '../services/appConfigService';
+import {
+  buildKeyFilter,
+  buildLabelFilter,
+  MAX_FILTER_VALUES,
+  type AppConfigService,
+} from '../services/appConfigService';
 import type { KeyVaultService } from '../services/keyVaultService';
 import {
   transformKeyToEnvVar,
   isKeyVaultReference,
   parseKeyVaultReference,
+  isValidEnvVarName,
+  type EnvVarNamingOptions,
+  type EnvVarWarning,
 } from '../models/configValue';
-import type { ConfigValueEntry } from '../models/keyHierarchy';
-import { AzureEnvError } from '../errors';
+import type { ConfigurationSetting } from '@azure/app-configuration';
+import type { ConfigValueEntry, MissingKey } from '../models/keyHierarchy';
+import { isExcluded, isPrefixSelection } from '../models/keySelection';
+import { AuthenticationError, AzureEnvError, EnvVarCollisionError } from '../errors';
 import type { ProgressReporter } from '../ui/progress';
+import { chunk, mapWithConcurrency } from '../utils/concurrency';
 
-export interface RefreshOptions {
+/**
+ * An App Configuration store to read keys from during refresh.
+ */
+export interface RefreshSource {
+  /** Display name of the store, recorded on every entry it produces */
+  name: string;
+  appConfigService: Pick<AppConfigService, 'listSettings'>;
+  /** Exact keys or prefixes ending in `*`, expanded against the store */
   selectedKeys: string[];
+  /** Keys (or `*` prefixes) to leave out even when a prefix selects them */
+  excludedKeys?: string[];
   label: string;
-  envCollection: EnvironmentVariableCollection;
-  appConfigService: AppConfigService;
-  keyVaultService: KeyVaultService;
+  /** Labels layered on top of `label`, in order; later labels win per key */
+  overrideLabels?: string[];
+}
+
+export interface RefreshOptions {
+  /** Stores in precedence order; later stores win when a variable is defined twice */
+  sources: RefreshSource[];
+  envCollection: Pick<EnvironmentVariableCollection, 'clear' | 'replace'>;
+  keyVaultService: Pick<KeyVaultService, 'resolveSecretDetails'>;
+  /** How keys are turned into environment variable names */
+  naming?: EnvVarNamingOptions;
+  /** Entries from the last refresh; keys that fail now keep these values */
+  previousItems?: ConfigValueEntry[];
   /** Optional progress reporter for UI feedback */
   progress?: ProgressReporter;
   /** Optional cancellation token */
@@ -24,78 +54,417 @@ export interface RefreshOptions {
 
 export interface RefreshError {
   key: string;
+  /** Store the key was read from */
+  store?: string;
+  /** Label the setting was read from, when it could be read */
+  label?: string;
   error: AzureEnvError | Error;
 }
 
 export interface RefreshResult {
+  /** Whether the new variable set was swapped into the collection */
+  applied: boolean;
+  cancelled: boolean;
   succeeded: number;
   failed: number;
   errors: RefreshError[];
+  /** Naming problems detected before injection (collisions, invalid names) */
+  warnings: EnvVarWarning[];
+  /** Selected keys that no label of their store defines; not counted as failures */
+  missing: MissingKey[];
   items: ConfigValueEntry[];
+  /**
+   * Set when no token could be had without signing in again. The refresh
+   * stops, nothing is applied and no per-key errors are reported.
+   */
+  authError?: AuthenticationError;
 }
 
+interface ResolvedSource {
+  source: RefreshSource;
+  keys: string[];
+  /** Labels in precedence order, highest first */
+  labels: string[];
+}
+
+/** A selected key on its way through the fetch pipeline */
+interface PendingKey {
+  resolved: ResolvedSource;
+  key: string;
+  envVar: string;
+  setting?: ConfigurationSetting;
+  /** Secret a Key Vault reference points to */
+  secretUri?: string;
+  /** Resolved Key Vault secret, for Key Vault references */
+  value?: string;
+  /** The secret was served from the Key Vault cache */
+  cached?: boolean;
+  /** No label of the store defines the key */
+  missing?: boolean;
+  error?: Error;
+}
+
+/** Maximum number of App Configuration or Key Vault requests in flight at once */
+const MAX_CONCURRENT_REQUESTS = 4;
+
 /**
  * Refresh environment variables by fetching values from App Configuration
- * and resolving any Key Vault references.
+ * and resolving any Key Vault references. Values from every source are
+ * merged; later sources override earlier ones.
+ *
+ * Settings are fetched in batches of up to five keys per request, and
+ * requests (including Key Vault lookups) run with bounded concurrency.
+ *
+ * The complete variable set is built first and swapped into the collection
+ * only once every key has been processed. On cancellation, or when every key
+ * fails, the collection is left untouched. Keys that fail individually keep
+ * their last known good value and are marked stale. Keys that no label
+ * defines any more are reported as missing and left out. A lost sign-in stops
+ * the refresh and is reported once as `authError`.
  */
 export async function refreshEnvironment(options: RefreshOptions): Promise<RefreshResult> {
   const {
-    selectedKeys,
-    label,
+    sources,
     envCollection,
-    appConfigService,
     keyVaultService,
+    naming,
+    previousItems = [],
     progress,
     cancellationToken,
   } = options;
 
-  // Clear existing environment variables
-  envCollection.clear();
-
   const result: RefreshResult = {
+    applied: false,
+    cancelled: false,
     succeeded: 0,
     failed: 0,
     errors: [],
+    warnings: [],
+    missing: [],
     items: [],
   };
 
-  const totalKeys = selectedKeys.length;
-  const incrementPerKey = totalKeys > 0 ? 100 / totalKeys : 100;
-
-  for (const key of selectedKeys) {
-    // Check for cancellation
+  // Expand prefix selections into the keys currently in each store
+  const resolvedSources: ResolvedSource[] = [];
+  for (const source of sources) {
     if (cancellationToken?.isCancellationRequested) {
-      break;
+      result.cancelled = true;
+      return result;
     }
 
-    // Report progress
+    // Highest precedence first, so the first label that has the key wins
+    const labels = [source.label, ...(source.overrideLabels ?? [])]
+      .filter((layer, index, layers) => layers.indexOf(layer) === index)
+      .reverse();
+    const keys = await resolveSelectedKeys(source, labels, result, cancellationToken);
+    resolvedSources.push({ source, keys, labels });
+    if (stopForAuthError(result, result.errors)) {
+      return result;
+    }
+  }
+
+  // Detect naming problems before anything is injected
+  checkEnvVarNames(resolvedSources, naming, result);
+
+  const pending: PendingKey[] = resolvedSources.flatMap((resolved) =>
+    resolved.keys.map((key) => ({
+      resolved,
+      key,
+      envVar: transformKeyToEnvVar(key, naming),
+    }))
+  );
+  const incrementPerKey = pending.length > 0 ? 100 / pending.length : 100;
+  let completed = 0;
+  const reportCompleted = (count: number): void => {
+    completed += count;
     progress?.report({
-      message: `Fetching ${key}`,
-      increment: incrementPerKey,
+      message: `Fetched ${completed} of ${pending.length} keys`,
+      increment: incrementPerKey * count,
     });
+  };
+
+  // Fetch settings in batches, each covering every label layer of its keys
+  const batches = resolvedSources.flatMap((resolved) =>
+    chunk(
+      pending.filter((entry) => entry.resolved === resolved),
+      MAX_FILTER_VALUES
+    )
+  );
+  const authFailed = (): boolean =>
+    pending.some((entry) => entry.error instanceof AuthenticationError);
+  await mapWithConcurrency(batches, MAX_CONCURRENT_REQUESTS, async (batch) => {
+    if (cancellationToken?.isCancellationRequested || authFailed()) {
+      return;
+    }
+    await fetchBatch(batch, cancellationToken);
+    reportCompleted(batch.filter((entry) => !entry.setting || !isSecretSetting(entry)).length);
+  });
 
+  // Resolve Key Vault references
+  const secrets = pending.filter((entry) => entry.setting && isSecretSetting(entry));
+  await mapWithConcurrency(secrets, MAX_CONCURRENT_REQUESTS, async (entry) => {
+    if (cancellationToken?.isCancellationRequested || authFailed()) {
+      return;
+    }
     try {
-      // Fetch setting from App Configuration
-      const setting = await appConfigService.getSetting(key, label);
-      let value = setting.value ?? '';
-      const isSecret = isKeyVaultReference(setting.contentType);
-
-      // Resolve Key Vault reference if needed
-      if (isSecret) {
-        const secretUri = parseKeyVaultReference(value);
-        value = await keyVaultService.resolveSecret(secretUri);
+      entry.secretUri = parseKeyVaultReference(entry.setting?.value ?? '');
+      const secret = await keyVaultService.resolveSecretDetails(entry.secretUri, cancellationToken);
+      entry.value = secret.value;
+      if (secret.fromCache) {
+        entry.cached = true;
       }
-
-      // Transform key to environment variable name and inject
-      const envName = transformKeyToEnvVar(key);
-      envCollection.replace(envName, value);
-      result.items.push({ key, value, isSecret });
-      result.succeeded++;
     } catch (error) {
+      entry.error = error as Error;
+    }
+    reportCompleted(1);
+  });
+
+  // Nothing has been injected yet
+  if (cancellationToken?.isCancellationRequested) {
+    result.cancelled = true;
+    return result;
+  }
+  if (stopForAuthError(result, pending)) {
+    return result;
+  }
+
+  // Assemble the variable set in source and key order, so later sources win
+  const variables = new Map<string, string>();
+  const itemsByEnvVar = new Map<string, ConfigValueEntry>();
+  const addItem = (item: ConfigValueEntry & { envVar: string }): void => {
+    variables.set(item.envVar, item.value);
+    const shadowed = itemsByEnvVar.get(item.envVar);
+    if (shadowed && shadowed.store !== item.store) {
+      shadowed.overriddenBy = item.store;
+    }
+    itemsByEnvVar.set(item.envVar, item);
+    result.items.push(item);
+  };
+
+  for (const entry of pending) {
+    const { key, envVar, setting } = entry;
+    const { name } = entry.resolved.source;
+
+    if (entry.missing) {
+      result.missing.push({ key, store: name, labels: entry.resolved.labels });
+      continue;
+    }
+
+    if (entry.error || !setting) {
       result.failed++;
-      result.errors.push({ key, error: error as Error });
+      result.errors.push({
+        key,
+        store: name,
+        // '' is the null label; unset when the setting could not be read
+        label: setting ? (setting.label ?? '') : undefined,
+        error: entry.error ?? new Error('Not fetched'),
+      });
+
+      // Keep the last known good value
+      const previous = previousItems.find((item) => item.key === key && item.store === name);
+      if (previous) {
+        addItem({ ...previous, envVar, overriddenBy: undefined, cached: undefined, stale: true });
+      }
+      continue;
     }
+
+    addItem({
+      key,
+      value: entry.value ?? setting.value ?? '',
+      isSecret: isSecretSetting(entry),
+      label: setting.label ?? '',
+      store: name,
+      envVar,
+      cached: entry.cached,
+      etag: setting.etag,
+      secretUri: entry.secretUri,
+    });
+    result.succeeded++;
+  }
+
+  // Keep the previous environment when nothing could be fetched
+  if (result.succeeded === 0 && result.failed > 0) {
+    return result;
+  }
+
+  // Swap the new variable set in at once
+  envCollection.clear();
+  for (const [envName, value] of variables) {
+    envCollection.replace(envName, value);
   }
+  result.applied = true;
 
   return result;
 }
+
+/**
+ * Detect keys that map to the same environment variable, and variable names
+ * a shell cannot reference, before anything is injected. Colliding keys that
+ * lose under the collision policy are dropped from their sources; with the
+ * `error` policy every colliding key is dropped and recorded as a failure.
+ * The same key read from several stores is an override, not a collision.
+ */
+function checkEnvVarNames(
+  resolvedSources: ResolvedSource[],
+  naming: EnvVarNamingOptions | undefined,
+  result: RefreshResult
+): void {
+  const policy = naming?.collisionPolicy ?? 'last-wins';
+  const candidates = new Map<string, { key: string; resolved: ResolvedSource }[]>();
+  for (const resolved of resolvedSources) {
+    for (const key of resolved.keys) {
+      const envVar = transformKeyToEnvVar(key, naming);
+      candidates.set(envVar, [...(candidates.get(envVar) ?? []), { key, resolved }]);
+    }
+  }
+
+  for (const [envVar, entries] of candidates) {
+    const sources = entries.map(({ key, resolved }) => ({ key, store: resolved.source.name }));
+    const keys = unique(entries.map((entry) => entry.key));
+    if (!isValidEnvVarName(envVar)) {
+      result.warnings.push({
+        kind: 'invalidName',
+        envVar,
+        sources,
+        message: `${envVar} is not a valid environment variable name (from ${keys.join(', ')})`,
+      });
+    }
+
+    if (keys.length < 2) {
+      continue;
+    }
+
+    let winner: string | undefined;
+    if (policy === 'first-wins') {
+      winner = keys[0];
+    } else if (policy === 'last-wins') {
+      winner = keys[keys.length - 1];
+    }
+
+    for (const { key, resolved } of entries) {
+      if (key === winner) {
+        continue;
+      }
+      resolved.keys = resolved.keys.filter((candidate) => candidate !== key);
+      if (!winner) {
+        result.failed++;
+        result.errors.push({
+          key,
+          store: resolved.source.name,
+          error: new EnvVarCollisionError(envVar, keys),
+        });
+      }
+    }
+
+    result.warnings.push({
+      kind: 'collision',
+      envVar,
+      sources,
+      message: winner
+        ? `Keys ${keys.join(', ')} all map to ${envVar}; using ${winner}`
+        : `Keys ${keys.join(', ')} all map to ${envVar}; none were injected`,
+    });
+  }
+}
+
+/**
+ * Record the first authentication failure among the errors, dropping the
+ * per-key failures it caused. Returns whether the refresh should stop.
+ */
+function stopForAuthError(result: RefreshResult, failures: { error?: Error }[]): boolean {
+  const authError = failures.find((failure) => failure.error instanceof AuthenticationError);
+  if (!authError) {
+    return false;
+  }
+  result.authError = authError.error as AuthenticationError;
+  result.failed = 0;
+  result.errors = [];
+  return true;
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+/**
+ * Fetch the settings for one batch of keys from the same source with a single
+ * request across all of the source's labels. Each key takes the setting from
+ * its highest-precedence label. Keys no label defines are marked missing;
+ * a failed request is recorded against every key in the batch.
+ */
+async function fetchBatch(
+  batch: PendingKey[],
+  cancellationToken?: CancellationToken
+): Promise<void> {
+  const { source, labels } = batch[0].resolved;
+  try {
+    const settings = await source.appConfigService.listSettings({
+      keyFilter: buildKeyFilter(batch.map((entry) => entry.key)),
+      labelFilter: buildLabelFilter(labels),
+      cancellationToken,
+    });
+
+    for (const entry of batch) {
+      const candidates = settings.filter((setting) => setting.key === entry.key);
+      const label = labels.find((layer) =>
+        candidates.some((setting) => (setting.label ?? '') === layer)
+      );
+      entry.setting = candidates.find((setting) => (setting.label ?? '') === label);
+      entry.missing = !entry.setting;
+    }
+  } catch (error) {
+    for (const entry of batch) {
+      entry.error = error as Error;
+    }
+  }
+}
+
+function isSecretSetting(entry: PendingKey): boolean {
+  return isKeyVaultReference(entry.setting?.contentType);
+}
+
+/**
+ * Turn a source's selections into concrete keys. Exact keys are kept as-is;
+ * prefix selections are listed from the store across the given labels.
+ * Excluded keys are dropped. A prefix that cannot be listed is recorded as
+ * a failure under the prefix itself.
+ */
+async function resolveSelectedKeys(
+  source: RefreshSource,
+  labels: string[],
+  result: RefreshResult,
+  cancellationToken?: CancellationToken
+): Promise<string[]> {
+  const { name, appConfigService, selectedKeys, excludedKeys = [] } = source;
+  const keys: string[] = [];
+  const addKey = (key: string): void => {
+    if (!keys.includes(key) && !isExcluded(key, excludedKeys)) {
+      keys.push(key);
+    }
+  };
+
+  for (const selection of selectedKeys) {
+    if (!isPrefixSelection(selection)) {
+      addKey(selection);
+      continue;
+    }
+
+    try {
+      const settings = await appConfigService.listSettings({
+        keyFilter: selection,
+        labelFilter: buildLabelFilter(labels),
+        cancellationToken,
+      });
+      settings
+        .map((setting) => setting.key)
+        .filter((key): key is string => !!key)
+        .sort()
+        .forEach(addKey);
+    } catch (error) {
+      result.failed++;
+      result.errors.push({ key: selection, store: name, error: error as Error });
+    }
+  }
+
+  return keys;
+}
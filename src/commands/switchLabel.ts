@@ -0,0 +1,115 @@
+import type { QuickPickItem } from 'vscode';
+import {
+  getStoreChanges,
+  getStoreName,
+  getStoreSources,
+  type AzureEnvSettings,
+  type StoreSource,
+} from '../models/settings';
+import { isExcluded, isPrefixSelection, matchesSelection } from '../models/keySelection';
+import { pickStore } from './addConfig';
+
+export interface SwitchLabelDeps {
+  getSettings: () => AzureEnvSettings;
+  listLabels: (endpoint: string) => Promise<string[]>;
+  /** Keys defined under any of the given labels */
+  listKeys: (endpoint: string, labels: string[]) => Promise<string[]>;
+  showQuickPickSingle: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T | undefined>;
+  showWarningMessage: (
+    message: string,
+    options: { modal: true; detail?: string },
+    confirmLabel: string
+  ) => Thenable<string | undefined>;
+  saveSettings: (settings: Partial<AzureEnvSettings>) => Promise<void>;
+}
+
+export type SwitchLabelResult =
+  | { switched: true; label: string; store: string; missing: string[] }
+  | { switched: false; reason: 'cancelled' | 'unchanged' | 'not_connected' };
+
+interface LabelItem extends QuickPickItem {
+  value: string;
+}
+
+const SWITCH_CONFIRM_LABEL = 'Switch Label';
+
+/**
+ * Switch the base label of a store, asking which one when several are
+ * configured. Selected keys that neither the new label nor an override label
+ * defines are listed for confirmation before the label is saved.
+ */
+export async function runSwitchLabelFlow(deps: SwitchLabelDeps): Promise<SwitchLabelResult> {
+  const settings = deps.getSettings();
+  const sources = getStoreSources(settings);
+  if (sources.length === 0) {
+    return { switched: false, reason: 'not_connected' };
+  }
+  const source = await pickStore(sources, undefined, deps);
+  if (!source) {
+    return { switched: false, reason: 'cancelled' };
+  }
+  const current = source.label ?? '';
+
+  const labels = await deps.listLabels(source.endpoint);
+  if (!labels.includes(current)) {
+    labels.unshift(current);
+  }
+  const picked = await deps.showQuickPickSingle<LabelItem>(
+    labels.map((label) => ({
+      label: label || '(no label)',
+      description: label === current ? 'current' : undefined,
+      value: label,
+    })),
+    {
+      placeHolder:
+        sources.length > 1
+          ? `Select configuration label for ${getStoreName(source)}`
+          : 'Select configuration label',
+    }
+  );
+  if (!picked) {
+    return { switched: false, reason: 'cancelled' };
+  }
+  if (picked.value === current) {
+    return { switched: false, reason: 'unchanged' };
+  }
+
+  const available = await deps.listKeys(source.endpoint, [
+    picked.value,
+    ...(source.overrideLabels ?? []),
+  ]);
+  const missing = findMissingSelections(source, available);
+  if (missing.length > 0) {
+    const confirmation = await deps.showWarningMessage(
+      `${missing.length} selected key${missing.length === 1 ? ' is' : 's are'} missing under label "${picked.label}"`,
+      {
+        modal: true,
+        detail: `These keys will not be injected:\n${missing.join('\n')}`,
+      },
+      SWITCH_CONFIRM_LABEL
+    );
+    if (confirmation !== SWITCH_CONFIRM_LABEL) {
+      return { switched: false, reason: 'cancelled' };
+    }
+  }
+
+  await deps.saveSettings(getStoreChanges(settings, source, { label: picked.value }));
+  return { switched: true, label: picked.value, store: getStoreName(source), missing };
+}
+
+/**
+ * Get the selections of the store that no available key satisfies: exact
+ * keys that are not defined, and prefixes with no key under them.
+ */
+function findMissingSelections(source: StoreSource, available: string[]): string[] {
+  const excludedKeys = source.excludedKeys ?? [];
+  const keys = available.filter((key) => !isExcluded(key, excludedKeys));
+  return source.selectedKeys.filter((selection) =>
+    isPrefixSelection(selection)
+      ? !keys.some((key) => matchesSelection(key, selection))
+      : !keys.includes(selection) && !isExcluded(selection, excludedKeys)
+  );
+}
@@ -0,0 +1,111 @@
+import type { QuickPickItem } from 'vscode';
+import {
+  getProfileFromSettings,
+  type AzureEnvSettings,
+  type EnvironmentProfile,
+} from '../models/settings';
+
+export interface SwitchProfileDeps {
+  getSettings: () => AzureEnvSettings;
+  getProfiles: () => Record<string, EnvironmentProfile>;
+  setActiveProfile: (name: string) => Promise<void>;
+  saveProfile: (name: string, profile: EnvironmentProfile) => Promise<void>;
+  showQuickPickSingle: <T extends QuickPickItem>(
+    items: T[],
+    options?: { placeHolder?: string }
+  ) => Promise<T | undefined>;
+  showInputBox: (options: {
+    prompt: string;
+    placeHolder?: string;
+    validateInput?: (value: string) => string | undefined;
+  }) => Thenable<string | undefined>;
+}
+
+export type SwitchProfileResult =
+  { switched: true; profile: string } | { switched: false; reason: 'cancelled' | 'unchanged' };
+
+interface ProfileItem extends QuickPickItem {
+  action: 'select' | 'create';
+  profile: string;
+}
+
+const BASE_PROFILE_LABEL = '(workspace settings)';
+
+/**
+ * Let the user pick a named profile (or save the current settings as a new one)
+ * and make it the active profile.
+ */
+export async function runSwitchProfileFlow(deps: SwitchProfileDeps): Promise<SwitchProfileResult> {
+  const settings = deps.getSettings();
+  const profiles = deps.getProfiles();
+  const current = settings.activeProfile;
+
+  const items: ProfileItem[] = [
+    {
+      label: BASE_PROFILE_LABEL,
+      description: current === '' ? 'active' : undefined,
+      detail: 'Use the azureEnv.appConfiguration settings',
+      action: 'select',
+      profile: '',
+    },
+    ...Object.keys(profiles)
+      .sort()
+      .map((name) => ({
+        label: name,
+        description: name === current ? 'active' : undefined,
+        detail: describeProfile(profiles[name]),
+        action: 'select' as const,
+        profile: name,
+      })),
+    {
+      label: '$(add) Save current settings as profile...',
+      action: 'create',
+      profile: '',
+    },
+  ];
+
+  const picked = await deps.showQuickPickSingle(items, {
+    placeHolder: 'Select environment profile',
+  });
+
+  if (!picked) {
+    return { switched: false, reason: 'cancelled' };
+  }
+
+  if (picked.action === 'create') {
+    const name = await deps.showInputBox({
+      prompt: 'Profile name',
+      placeHolder: 'e.g. dev, staging, prod',
+      validateInput: (value) => (value.trim() ? undefined : 'Profile name is required'),
+    });
+    if (!name) {
+      return { switched: false, reason: 'cancelled' };
+    }
+
+    const profileName = name.trim();
+    await deps.saveProfile(profileName, getProfileFromSettings(settings));
+    await deps.setActiveProfile(profileName);
+    return { switched: true, profile: profileName };
+  }
+
+  if (picked.profile === current) {
+    return { switched: false, reason: 'unchanged' };
+  }
+
+  await deps.setActiveProfile(picked.profile);
+  return { switched: true, profile: picked.profile };
+}
+
+function describeProfile(profile: EnvironmentProfile): string | undefined {
+  const parts: string[] = [];
+  if (profile.endpoint) {
+    parts.push(profile.endpoint);
+  }
+  if (profile.label) {
+    parts.push(`label: ${profile.label}`);
+  }
+  if (profile.selectedKeys) {
+    parts.push(`${profile.selectedKeys.length} keys`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
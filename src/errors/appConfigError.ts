@@ -59,3 +59,44 @@ export class AppConfigListError extends AzureEnvError {
     return 'Failed to list App Configuration stores. Check your Azure connection.';
   }
 }
+
+/**
+ * Error thrown when a conditional write finds that the setting changed since
+ * it was read, e.g. because a teammate edited it.
+ */
+export class SettingConflictError extends AzureEnvError {
+  readonly code = 'SETTING_CONFLICT';
+  readonly isRetryable = false;
+
+  constructor(
+    public readonly key: string,
+    public readonly label: string,
+    cause?: Error
+  ) {
+    super(`Setting changed since it was read: ${key} (label="${label || '(none)'}")`, cause);
+  }
+
+  get userMessage(): string {
+    return `"${this.key}" was changed by someone else since it was loaded. Refresh to see the current value, then try again.`;
+  }
+}
+
+/**
+ * Error thrown when creating a setting that already exists at the key and label.
+ */
+export class SettingExistsError extends AzureEnvError {
+  readonly code = 'SETTING_EXISTS';
+  readonly isRetryable = false;
+
+  constructor(
+    public readonly key: string,
+    public readonly label: string,
+    cause?: Error
+  ) {
+    super(`Setting already exists: ${key} (label="${label || '(none)'}")`, cause);
+  }
+
+  get userMessage(): string {
+    return `"${this.key}" already exists with label "${this.label || '(no label)'}". Use Edit Value to change it.`;
+  }
+}
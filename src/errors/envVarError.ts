@@ -0,0 +1,21 @@
+import { AzureEnvError } from './baseError';
+
+/**
+ * Error recorded when several keys map to the same environment variable and
+ * the collision policy is `error`.
+ */
+export class EnvVarCollisionError extends AzureEnvError {
+  readonly code = 'ENV_VAR_COLLISION';
+  readonly isRetryable = false;
+
+  constructor(
+    public readonly envVar: string,
+    public readonly keys: string[]
+  ) {
+    super(`Keys ${keys.join(', ')} all map to ${envVar}`);
+  }
+
+  get userMessage(): string {
+    return `${this.envVar} is defined by more than one key (${this.keys.join(', ')}). Rename a key or add an alias.`;
+  }
+}
@@ -1,5 +1,12 @@
 export { AzureEnvError } from './baseError';
-export { AppConfigError, AppConfigListError } from './appConfigError';
+export {
+  AppConfigError,
+  AppConfigListError,
+  SettingConflictError,
+  SettingExistsError,
+} from './appConfigError';
 export { KeyVaultError, KeyVaultReferenceError } from './keyVaultError';
 export { ValidationError, AuthenticationError } from './validationError';
+export { EnvVarCollisionError } from './envVarError';
 export { RateLimitError, extractRetryAfter, isRateLimitError } from './rateLimitError';
+export { getRemediation, type Remediation, type RemediationAction } from './remediation';
@@ -0,0 +1,147 @@
+import { AppConfigError, AppConfigListError } from './appConfigError';
+import { KeyVaultError, KeyVaultReferenceError } from './keyVaultError';
+import { RateLimitError, isRateLimitError } from './rateLimitError';
+import { AuthenticationError, ValidationError } from './validationError';
+
+export type RemediationAction =
+  'signIn' | 'switchTenant' | 'requestRole' | 'fixReference' | 'retry' | 'openSettings';
+
+/**
+ * A concrete next step for an error, offered as a button.
+ */
+export interface Remediation {
+  action: RemediationAction;
+  /** Button text */
+  title: string;
+  /** The next step, in one sentence */
+  detail: string;
+  /** Azure role to request, for access errors */
+  role?: string;
+  /** Documentation for the step */
+  url?: string;
+  /** How long to wait before retrying, for throttling */
+  retryAfterMs?: number;
+  /** Current reference value, for broken Key Vault references */
+  reference?: string;
+  /** Setting to open, for invalid settings */
+  setting?: string;
+}
+
+const APP_CONFIG_READER_ROLE = 'App Configuration Data Reader';
+const KEY_VAULT_SECRETS_ROLE = 'Key Vault Secrets User';
+const READER_ROLE = 'Reader';
+
+const APP_CONFIG_RBAC_URL =
+  'https://learn.microsoft.com/azure/azure-app-configuration/concept-enable-rbac';
+const KEY_VAULT_RBAC_URL = 'https://learn.microsoft.com/azure/key-vault/general/rbac-guide';
+const AZURE_RBAC_URL =
+  'https://learn.microsoft.com/azure/role-based-access-control/role-assignments-portal';
+
+/** Errors raised when a token is used against the wrong tenant */
+const TENANT_MISMATCH_PATTERN =
+  /AADSTS(50020|700016|90072)\b|AKV10032|InvalidAuthenticationTokenTenant|from the wrong issuer/i;
+
+const SIGN_IN: Remediation = {
+  action: 'signIn',
+  title: 'Sign In Again',
+  detail: 'Sign in to Azure again, then refresh.',
+};
+
+const SWITCH_TENANT: Remediation = {
+  action: 'switchTenant',
+  title: 'Switch Tenant',
+  detail: 'Sign in to the tenant the store belongs to, then refresh.',
+};
+
+/**
+ * Map an error to the step most likely to fix it: sign in again, switch
+ * tenant, request a data-plane role, fix a broken Key Vault reference, wait
+ * out throttling, or correct a setting. Returns undefined when there is no
+ * better step than trying again.
+ */
+export function getRemediation(error: unknown): Remediation | undefined {
+  if (isRateLimitError(error)) {
+    const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+    return {
+      action: 'retry',
+      title: retryAfterMs ? `Retry in ${Math.ceil(retryAfterMs / 1000)}s` : 'Retry',
+      detail: 'Azure is throttling requests. Wait a moment, then refresh.',
+      retryAfterMs,
+    };
+  }
+
+  if (error instanceof AuthenticationError) {
+    switch (error.reason) {
+      case 'not_signed_in':
+      case 'sign_in_failed':
+      case 'session_expired':
+      case 'account_mismatch':
+        return SIGN_IN;
+      case 'no_subscriptions':
+        return SWITCH_TENANT;
+      default:
+        return undefined;
+    }
+  }
+
+  if (error instanceof KeyVaultReferenceError) {
+    return {
+      action: 'fixReference',
+      title: 'Fix Reference',
+      detail: 'The Key Vault reference is malformed. Point it at a secret URI.',
+      reference: error.value,
+    };
+  }
+
+  if (error instanceof ValidationError) {
+    return {
+      action: 'openSettings',
+      title: 'Open Settings',
+      detail: `Correct azureEnv.appConfiguration.${error.field} in the workspace settings.`,
+      setting: `azureEnv.appConfiguration.${error.field}`,
+    };
+  }
+
+  if (
+    error instanceof AppConfigError ||
+    error instanceof AppConfigListError ||
+    error instanceof KeyVaultError
+  ) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      if (TENANT_MISMATCH_PATTERN.test(error.cause?.message ?? '')) {
+        return SWITCH_TENANT;
+      }
+      if (error.statusCode === 401) {
+        return SIGN_IN;
+      }
+      return requestRole(error);
+    }
+
+    if (error instanceof KeyVaultError && error.statusCode === 404) {
+      return {
+        action: 'fixReference',
+        title: 'Fix Reference',
+        detail: 'The referenced secret does not exist. Point the reference at an existing secret.',
+        reference: JSON.stringify({ uri: error.secretUri }),
+      };
+    }
+  }
+
+  return undefined;
+}
+
+function requestRole(error: AppConfigError | AppConfigListError | KeyVaultError): Remediation {
+  const [role, url] =
+    error instanceof KeyVaultError
+      ? [KEY_VAULT_SECRETS_ROLE, KEY_VAULT_RBAC_URL]
+      : error instanceof AppConfigListError
+        ? [READER_ROLE, AZURE_RBAC_URL]
+        : [APP_CONFIG_READER_ROLE, APP_CONFIG_RBAC_URL];
+  return {
+    action: 'requestRole',
+    title: `Request ${role}`,
+    detail: `Ask an owner of the resource to assign you the "${role}" role.`,
+    role,
+    url,
+  };
+}
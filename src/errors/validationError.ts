@@ -27,15 +27,27 @@ export class AuthenticationError extends AzureEnvError {
 
   constructor(
     message: string,
-    public readonly reason: 'not_signed_in' | 'sign_in_failed' | 'no_subscriptions' | 'cancelled',
+    public readonly reason:
+      | 'not_signed_in'
+      | 'sign_in_failed'
+      | 'session_expired'
+      | 'account_mismatch'
+      | 'no_subscriptions'
+      | 'cancelled',
     cause?: Error
   ) {
     super(message, cause);
   }
 
   get isRetryable(): boolean {
-    // User can retry signing in, but cancellation is intentional
-    return this.reason !== 'cancelled';
+    // User can retry signing in, but cancellation is intentional, an expired
+    // session needs the user to sign in again first and a missing account
+    // needs the user to sign in with it or connect again
+    return (
+      this.reason !== 'cancelled' &&
+      this.reason !== 'session_expired' &&
+      this.reason !== 'account_mismatch'
+    );
   }
 
   get userMessage(): string {
@@ -44,6 +56,8 @@ export class AuthenticationError extends AzureEnvError {
         return 'Please sign in to your Microsoft account in VS Code';
       case 'sign_in_failed':
         return 'Failed to sign in. Please try again.';
+      case 'session_expired':
+        return 'Your Azure sign-in expired or was revoked. Please sign in again.';
       case 'no_subscriptions':
         return 'No Azure subscriptions found. Check your account has active subscriptions.';
       case 'cancelled':
@@ -1,21 +1,71 @@
 import * as vscode from 'vscode';
 import type { QuickPickItem, QuickPickOptions } from 'vscode';
 import { AppConfigurationManagementClient } from '@azure/arm-appconfiguration';
-import { TokenCredential } from '@azure/identity';
+import { KeyVaultManagementClient } from '@azure/arm-keyvault';
+import { TokenCredential, type DeviceCodeInfo } from '@azure/identity';
+import type { AzureAuthentication, AzureSubscription } from '@microsoft/vscode-azext-azureauth';
 
 import { AuthService } from './services/authService';
-import { AppConfigService } from './services/appConfigService';
+import { AppConfigService, buildLabelFilter } from './services/appConfigService';
 import { KeyVaultService } from './services/keyVaultService';
 import { ScopedCredential } from './services/scopedCredential';
-import { getSettings, saveSettings } from './models/settings';
-import { runConnectFlow, StoreInfo, KeyInfo } from './commands/connect';
-import { refreshEnvironment } from './commands/refresh';
+import {
+  createSourceCredential,
+  type IdentityCredential,
+  type SourceCredential,
+} from './services/sourceCredential';
+import {
+  AuthenticationError,
+  AzureEnvError,
+  RateLimitError,
+  getRemediation,
+  type Remediation,
+} from './errors';
+import {
+  getSettings,
+  saveSettings,
+  getProfiles,
+  saveProfile,
+  setActiveProfile,
+  getStoreSources,
+  getStoreName,
+  getConnectionSnapshot,
+  clearConnectionSettings,
+  restoreConnectionSettings,
+  type AzureEnvSettings,
+  type ConnectionSnapshot,
+  type CredentialSource,
+  type StoreSource,
+} from './models/settings';
+import { getCloudEnvironment, type CloudEnvironment } from './models/cloud';
+import { runConnectFlow, runConnectByEndpointFlow, StoreInfo, KeyInfo } from './commands/connect';
+import { runSwitchProfileFlow } from './commands/switchProfile';
+import { runSwitchLabelFlow } from './commands/switchLabel';
+import { runPruneMissingKeysFlow } from './commands/pruneKeys';
+import { formatDiagnosticReport, runDiagnoseFlow } from './commands/diagnose';
+import { runDisconnectFlow, runReconnectFlow } from './commands/disconnect';
+import { runAddConfigFlow } from './commands/addConfig';
+import { runAddSecretFlow, type VaultInfo } from './commands/addSecret';
+import { runEditValueFlow } from './commands/editValue';
+import { runEditKeysFlow } from './commands/editKeys';
+import { runFixReferenceFlow, type FixReferenceTarget } from './commands/fixReference';
+import { runDeleteKeyFlow, runRenameKeyFlow, type ManageKeysDeps } from './commands/manageKeys';
+import { refreshEnvironment, type RefreshSource } from './commands/refresh';
 import { copyValueCommand } from './commands/copyValue';
 import { copyKeyCommand } from './commands/copyKey';
+import { copyEnvVarCommand } from './commands/copyEnvVar';
 import { revealValueCommand } from './commands/revealValue';
 import type { EnvTreeItem } from './models/envTreeItem';
+import type {
+  ConfigValueEntry,
+  KeyError,
+  KeyHierarchyNode,
+  MissingKey,
+} from './models/keyHierarchy';
 import { EnvTreeProvider } from './providers/envTreeProvider';
 import { RefreshGuard } from './utils/refreshGuard';
+import { TtlCache } from './utils/ttlCache';
+import { RetryScheduler, type RetryWait } from './utils/retryScheduler';
 import { StatusBarManager } from './ui/statusBar';
 import { withProgress } from './ui/progress';
 
@@ -44,15 +94,38 @@ let outputChannel: vscode.OutputChannel;
 let statusBar: StatusBarManager | undefined;
 let envTreeProvider: EnvTreeProvider | undefined;
 let autoRefreshTimeout: ReturnType<typeof setTimeout> | undefined;
+/** Entries from the last applied refresh, used as last known good values */
+let lastRefreshItems: ConfigValueEntry[] = [];
+/** Selected keys the last refresh could not find in their store */
+let lastMissingKeys: MissingKey[] = [];
+/** Resolved Key Vault secrets shared across refreshes */
+let secretCache: TtlCache<string> | undefined;
+/** Credential of a source other than the VS Code account, kept so a device code sign-in is reused */
+let sourceCredential: { key: string; credential: SourceCredential } | undefined;
+/** VS Code account credential, kept so its cached tokens are reused across refreshes and commands */
+let scopedCredential: { key: string; credential: ScopedCredential } | undefined;
+/** Retry and concurrency schedulers shared by every request to each service */
+const appConfigScheduler = new RetryScheduler();
+const keyVaultScheduler = new RetryScheduler();
 const refreshGuard = new RefreshGuard();
+/** workspaceState key for the settings cleared by the last disconnect */
+const LAST_CONNECTION_KEY = 'azureEnv.lastConnection';
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
   outputChannel = vscode.window.createOutputChannel('Azure Env');
   context.subscriptions.push(outputChannel);
 
   // Initialize AuthService once to avoid race conditions
-  authService = new AuthService();
+  authService = new AuthService(context.workspaceState);
   context.subscriptions.push(authService.getProvider());
+  // Tokens cached for a session that was signed out or replaced must not be used again
+  context.subscriptions.push(
+    vscode.authentication.onDidChangeSessions((event) => {
+      if (event.provider.id.startsWith('microsoft')) {
+        scopedCredential = undefined;
+      }
+    })
+  );
 
   // Initialize status bar
   statusBar = new StatusBarManager();
@@ -69,6 +142,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('azureEnv.connect', () => connectCommand(context)),
+    vscode.commands.registerCommand('azureEnv.connectByEndpoint', () =>
+      connectCommand(context, true)
+    ),
     vscode.commands.registerCommand('azureEnv.refresh', () => {
       // Cancel any pending auto-refresh to avoid double refresh
       if (autoRefreshTimeout) {
@@ -77,6 +153,40 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       }
       return refreshCommand(context);
     }),
+    vscode.commands.registerCommand('azureEnv.editKeys', () => editKeysCommand(context)),
+    vscode.commands.registerCommand('azureEnv.pruneMissingKeys', () =>
+      pruneMissingKeysCommand(context)
+    ),
+    vscode.commands.registerCommand('azureEnv.diagnose', () => diagnoseCommand()),
+    vscode.commands.registerCommand('azureEnv.fixError', async (node?: KeyHierarchyNode) => {
+      if (node?.remediation) {
+        await runRemediation(context, node.remediation, {
+          key: node.key,
+          store: node.store,
+          label: node.sourceLabel,
+        });
+      }
+    }),
+    vscode.commands.registerCommand('azureEnv.addConfig', (node?: KeyHierarchyNode) =>
+      addConfigCommand(context, node)
+    ),
+    vscode.commands.registerCommand('azureEnv.addSecret', (node?: KeyHierarchyNode) =>
+      addSecretCommand(context, node)
+    ),
+    vscode.commands.registerCommand('azureEnv.editValue', (node?: KeyHierarchyNode) =>
+      editValueCommand(context, node)
+    ),
+    vscode.commands.registerCommand('azureEnv.deleteKey', (node?: KeyHierarchyNode) =>
+      deleteKeyCommand(context, node)
+    ),
+    vscode.commands.registerCommand('azureEnv.renameKey', (node?: KeyHierarchyNode) =>
+      renameKeyCommand(context, node)
+    ),
+    vscode.commands.registerCommand('azureEnv.disconnect', () => disconnectCommand(context)),
+    vscode.commands.registerCommand('azureEnv.reconnect', () => reconnectCommand(context)),
+    vscode.commands.registerCommand('azureEnv.switchLabel', () => switchLabelCommand(context)),
+    vscode.commands.registerCommand('azureEnv.showActions', () => showActionsCommand()),
+    vscode.commands.registerCommand('azureEnv.switchProfile', () => switchProfileCommand(context)),
     vscode.commands.registerCommand('azureEnv.copyValue', (item?: EnvTreeItem) =>
       copyValueCommand(item, {
         writeText: (value) => vscode.env.clipboard.writeText(value),
@@ -91,6 +201,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         showWarningMessage: (msg) => vscode.window.showWarningMessage(msg),
       })
     ),
+    vscode.commands.registerCommand('azureEnv.copyEnvVarName', (item?: EnvTreeItem) =>
+      copyEnvVarCommand(item, {
+        writeText: (value) => vscode.env.clipboard.writeText(value),
+        showInformationMessage: (msg) => vscode.window.showInformationMessage(msg),
+        showWarningMessage: (msg) => vscode.window.showWarningMessage(msg),
+      })
+    ),
     vscode.commands.registerCommand('azureEnv.revealValue', (item?: EnvTreeItem) =>
       revealValueCommand(item, {
         showWarningMessage: (message, options, confirmLabel) =>
@@ -102,10 +219,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   // Set initial status bar state based on settings
   const settings = getSettings();
-  if (settings.endpoint && settings.selectedKeys.length > 0) {
+  statusBar.setProfile(settings.activeProfile);
+  if (hasSelectedKeys(settings)) {
+    statusBar.setLabel(settings.label);
     // Show as connected (will verify on refresh)
-    const storeName = extractStoreName(settings.endpoint);
-    statusBar.setState('connected', storeName);
+    statusBar.setState('connected', describeStores(settings));
 
     // Delay to avoid blocking activation
     autoRefreshTimeout = setTimeout(() => {
@@ -118,19 +236,24 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 }
 
 /**
- * Extract the store name from an App Configuration endpoint URL.
+ * Check whether any configured store has keys selected.
  */
-function extractStoreName(endpoint: string): string {
-  try {
-    const url = new URL(endpoint);
-    // hostname is like "mystore.azconfig.io"
-    return url.hostname.split('.')[0];
-  } catch {
-    return endpoint;
+function hasSelectedKeys(settings: AzureEnvSettings): boolean {
+  return getStoreSources(settings).some((source) => source.selectedKeys.length > 0);
+}
+
+/**
+ * Describe the configured stores for the status bar.
+ */
+function describeStores(settings: AzureEnvSettings): string {
+  const sources = getStoreSources(settings);
+  if (sources.length === 1) {
+    return getStoreName(sources[0]);
   }
+  return `${sources.length} stores`;
 }
 
-async function connectCommand(context: vscode.ExtensionContext): Promise<void> {
+async function connectCommand(context: vscode.ExtensionContext, byEndpoint = false): Promise<void> {
   // Security: Require workspace trust
   if (!vscode.workspace.isTrusted) {
     vscode.window.showErrorMessage(
@@ -142,11 +265,14 @@ async function connectCommand(context: vscode.ExtensionContext): Promise<void> {
   statusBar?.setState('connecting');
 
   try {
-    const result = await runConnectFlow({
+    const connect = byEndpoint ? runConnectByEndpointFlow : runConnectFlow;
+    const result = await connect({
       authService: authService!,
       showQuickPickSingle,
       showQuickPickMulti,
       saveSettings,
+      getSettings,
+      showInputBox: (options) => vscode.window.showInputBox(options),
       listStores: async (subscriptionId, credential) => {
         return listAppConfigStores(subscriptionId, credential as TokenCredential);
       },
@@ -184,17 +310,772 @@ async function connectCommand(context: vscode.ExtensionContext): Promise<void> {
   }
 }
 
+async function switchProfileCommand(context: vscode.ExtensionContext): Promise<void> {
+  const result = await runSwitchProfileFlow({
+    getSettings,
+    getProfiles,
+    setActiveProfile,
+    saveProfile,
+    showQuickPickSingle,
+    showInputBox: (options) => vscode.window.showInputBox(options),
+  });
+
+  if (!result.switched) {
+    return;
+  }
+
+  statusBar?.setProfile(result.profile);
+  outputChannel.appendLine(`Switched to profile: ${result.profile || '(workspace settings)'}`);
+  await refreshCommand(context);
+}
+
+async function switchLabelCommand(context: vscode.ExtensionContext): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  const settings = getSettings();
+  if (getStoreSources(settings).length === 0) {
+    void vscode.window.showWarningMessage(
+      'No App Configuration configured. Run "Azure Env: Connect" first.'
+    );
+    return;
+  }
+
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  const getService = (endpoint: string): AppConfigService =>
+    new AppConfigService(endpoint, credential, { scheduler: appConfigScheduler });
+  try {
+    const result = await runSwitchLabelFlow({
+      getSettings: () => settings,
+      listLabels: (endpoint) => getService(endpoint).listLabels(),
+      listKeys: async (endpoint, labels) => {
+        const labelSettings = await getService(endpoint).listSettings({
+          labelFilter: buildLabelFilter(labels),
+        });
+        return labelSettings.map((setting) => setting.key);
+      },
+      showQuickPickSingle,
+      showWarningMessage: (message, options, confirmLabel) =>
+        vscode.window.showWarningMessage(message, options, confirmLabel),
+      saveSettings,
+    });
+
+    if (!result.switched) {
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Switched label of ${result.store} to ${result.label || '(no label)'}`
+    );
+    result.missing.forEach((key) =>
+      outputChannel.appendLine(`  Missing under ${result.label || '(no label)'}: ${key}`)
+    );
+    // Refresh shows the new label in the status bar
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Switch label failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to switch label: ${message}`);
+  }
+}
+
+/**
+ * Quick actions offered when the status bar item is clicked while connected.
+ */
+async function showActionsCommand(): Promise<void> {
+  const settings = getSettings();
+  const actions = [
+    {
+      label: '$(refresh) Refresh Environment',
+      command: 'azureEnv.refresh',
+    },
+    {
+      label: '$(tag) Switch Label',
+      description: `current: ${settings.label || '(no label)'}`,
+      command: 'azureEnv.switchLabel',
+    },
+    {
+      label: '$(list-selection) Edit Selected Keys',
+      command: 'azureEnv.editKeys',
+    },
+    {
+      label: '$(account) Switch Profile',
+      description: settings.activeProfile ? `current: ${settings.activeProfile}` : undefined,
+      command: 'azureEnv.switchProfile',
+    },
+  ];
+  const picked = await showQuickPickSingle(actions, { placeHolder: 'Azure Env' });
+  if (picked) {
+    await vscode.commands.executeCommand(picked.command);
+  }
+}
+
+/**
+ * List the distinct keys a store defines under any of its labels.
+ */
+async function listStoreKeys(source: StoreSource, credential: TokenCredential): Promise<string[]> {
+  const service = new AppConfigService(source.endpoint, credential, {
+    scheduler: appConfigScheduler,
+  });
+  const storeSettings = await service.listSettings({
+    labelFilter: buildLabelFilter([source.label ?? '', ...(source.overrideLabels ?? [])]),
+  });
+  return Array.from(new Set(storeSettings.map((setting) => setting.key))).sort();
+}
+
+async function pruneMissingKeysCommand(context: vscode.ExtensionContext): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  if (lastMissingKeys.length === 0) {
+    void vscode.window.showInformationMessage('No missing keys. Every selected key was found.');
+    return;
+  }
+
+  const settings = getSettings();
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  try {
+    const result = await runPruneMissingKeysFlow(lastMissingKeys, {
+      getSettings: () => settings,
+      listKeys: (source) => listStoreKeys(source, credential),
+      showQuickPickMulti,
+      saveSettings,
+    });
+
+    if (!result.pruned) {
+      if (result.reason === 'nothing_missing') {
+        void vscode.window.showInformationMessage('The missing keys are no longer selected');
+      }
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Pruned missing keys: ${result.removed.join(', ') || 'none'}; selected ${result.added.join(', ') || 'none'}`
+    );
+    void vscode.window.showInformationMessage(
+      `Selected keys updated: ${result.removed.length} removed, ${result.added.length} added`
+    );
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Prune missing keys failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to prune missing keys: ${message}`);
+  }
+}
+
+async function diagnoseCommand(): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  const steps = await withProgress({ title: 'Azure Env: Running diagnostics...' }, () =>
+    runDiagnoseFlow({
+      getSettings,
+      isSignedIn: () => authService!.isSignedIn(),
+      // Check what refresh would use: the account chosen during connect, when known
+      getSubscriptions: async () => {
+        const account = authService!.getSavedAccount();
+        const subscriptions = await authService!.getSubscriptions();
+        return account ? subscriptions.filter((s) => s.account.id === account.id) : subscriptions;
+      },
+      createCredential: (subscription) =>
+        subscription ? new ScopedCredential(subscription, getCloud()) : getAccountCredential(),
+      listSettings: (credential, endpoint, options) =>
+        new AppConfigService(endpoint, credential, { scheduler: appConfigScheduler }).listSettings(
+          options
+        ),
+      // No cache, so the vault is actually called
+      getSecret: (credential, secretUri) =>
+        new KeyVaultService(credential, {
+          scheduler: keyVaultScheduler,
+          cloud: getCloud(),
+        }).resolveSecret(secretUri),
+    })
+  );
+  if (!steps) {
+    return;
+  }
+
+  const failed = steps.filter((step) => step.status === 'fail');
+  outputChannel.appendLine(
+    `Diagnostics: ${steps.length - failed.length} of ${steps.length} checks passed or skipped${failed.length > 0 ? `; failed: ${failed.map((step) => step.name).join(', ')}` : ''}`
+  );
+  const document = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content: formatDiagnosticReport(steps, new Date()),
+  });
+  await vscode.window.showTextDocument(document);
+}
+
+async function editKeysCommand(context: vscode.ExtensionContext): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  const settings = getSettings();
+  if (getStoreSources(settings).length === 0) {
+    void vscode.window.showWarningMessage(
+      'No App Configuration configured. Run "Azure Env: Connect" first.'
+    );
+    return;
+  }
+
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  try {
+    const result = await runEditKeysFlow({
+      getSettings: () => settings,
+      listKeys: (source) => listStoreKeys(source, credential),
+      showQuickPickSingle,
+      showQuickPickMulti,
+      saveSettings,
+    });
+
+    if (!result.saved) {
+      if (result.reason === 'no_keys') {
+        void vscode.window.showWarningMessage('No keys found in the store for its labels');
+      }
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Updated selected keys of ${result.store}: added ${result.added.join(', ') || 'none'}; removed ${result.removed.join(', ') || 'none'}`
+    );
+    void vscode.window.showInformationMessage(
+      `Selected keys updated: ${result.added.length} added, ${result.removed.length} removed`
+    );
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Edit selected keys failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to edit selected keys: ${message}`);
+  }
+}
+
+async function addConfigCommand(
+  context: vscode.ExtensionContext,
+  node?: KeyHierarchyNode
+): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  const settings = getSettings();
+  if (getStoreSources(settings).length === 0) {
+    void vscode.window.showWarningMessage(
+      'No App Configuration configured. Run "Azure Env: Connect" first.'
+    );
+    return;
+  }
+
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  try {
+    const result = await runAddConfigFlow(node, {
+      getSettings: () => settings,
+      getExistingKeys: (store) =>
+        lastRefreshItems.filter((item) => item.store === store).map((item) => item.key),
+      showQuickPickSingle,
+      showInputBox: (options) => vscode.window.showInputBox(options),
+      addSetting: async (endpoint, key, value, label) => {
+        const service = new AppConfigService(endpoint, credential, {
+          scheduler: appConfigScheduler,
+        });
+        await service.setSetting(key, value, label, { onlyIfNew: true });
+      },
+      saveSettings,
+    });
+
+    if (!result.added) {
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Added ${result.key} [${result.label || '(no label)'}] to ${result.store}`
+    );
+    if (!result.injected) {
+      void vscode.window.showWarningMessage(
+        `Added ${result.key}, but label "${result.label || '(no label)'}" is not one this workspace refreshes, so it will not be injected.`
+      );
+    } else {
+      void vscode.window.showInformationMessage(`Added ${result.key} to ${result.store}`);
+    }
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Add configuration value failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to add configuration value: ${message}`);
+  }
+}
+
+async function addSecretCommand(
+  context: vscode.ExtensionContext,
+  node?: KeyHierarchyNode
+): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  const settings = getSettings();
+  if (getStoreSources(settings).length === 0) {
+    void vscode.window.showWarningMessage(
+      'No App Configuration configured. Run "Azure Env: Connect" first.'
+    );
+    return;
+  }
+
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  const keyVaultService = new KeyVaultService(credential, {
+    cache: getSecretCache(settings.keyVault.cacheTtlSeconds),
+    scheduler: keyVaultScheduler,
+    cloud: getCloudEnvironment(settings.cloud),
+  });
+
+  try {
+    const result = await runAddSecretFlow(node, {
+      getSettings: () => settings,
+      // Vaults are listed through the subscription, which a connection by endpoint lacks
+      listVaults: async () =>
+        settings.subscriptionId ? listKeyVaults(settings.subscriptionId, credential) : [],
+      showQuickPickSingle,
+      showInputBox: (options) => vscode.window.showInputBox(options),
+      showWarningMessage: (message, options, confirmLabel) =>
+        vscode.window.showWarningMessage(message, options, confirmLabel),
+      secretExists: (vaultUrl, secretName) => keyVaultService.secretExists(vaultUrl, secretName),
+      setSecret: (vaultUrl, secretName, value) =>
+        keyVaultService.setSecret(vaultUrl, secretName, value),
+      addSetting: async (endpoint, key, value, label, contentType) => {
+        const service = new AppConfigService(endpoint, credential, {
+          scheduler: appConfigScheduler,
+        });
+        await service.setSetting(key, value, label, { contentType, onlyIfNew: true });
+      },
+      saveSettings,
+    });
+
+    if (!result.added) {
+      if (result.reason === 'invalid_vault') {
+        void vscode.window.showWarningMessage(
+          `azureEnv.keyVault.defaultVault is not valid: ${result.message}`
+        );
+      }
+      if (result.reason === 'no_vaults') {
+        void vscode.window.showWarningMessage(
+          settings.subscriptionId
+            ? 'No Key Vaults found in the subscription. Set azureEnv.keyVault.defaultVault to use one elsewhere.'
+            : 'Connected without a subscription, so Key Vaults cannot be listed. Set azureEnv.keyVault.defaultVault to the vault to use.'
+        );
+      }
+      return;
+    }
+
+    outputChannel.appendLine(`Created secret ${result.secretUri}`);
+    const { reference, existingReference } = result;
+    if (existingReference) {
+      void vscode.window.showWarningMessage(
+        `Created secret ${result.secretUri}, but ${existingReference.key} already exists with label "${existingReference.label || '(no label)'}", so no reference was added. Use Edit Value to change it.`
+      );
+      return;
+    }
+    if (!reference) {
+      void vscode.window.showInformationMessage(`Created secret ${result.secretUri}`);
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Added reference ${reference.key} [${reference.label || '(no label)'}] to ${reference.store}`
+    );
+    if (!reference.injected) {
+      void vscode.window.showWarningMessage(
+        `Added ${reference.key}, but label "${reference.label || '(no label)'}" is not one this workspace refreshes, so it will not be injected.`
+      );
+    } else {
+      void vscode.window.showInformationMessage(
+        `Created secret and added ${reference.key} to ${reference.store}`
+      );
+    }
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Add secret failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to add secret: ${message}`);
+  }
+}
+
+async function editValueCommand(
+  context: vscode.ExtensionContext,
+  node?: KeyHierarchyNode
+): Promise<void> {
+  if (!node?.isValue) {
+    return;
+  }
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return;
+  }
+
+  const settings = getSettings();
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  try {
+    const result = await runEditValueFlow(node, {
+      getSettings: () => settings,
+      showInputBox: (options) => vscode.window.showInputBox(options),
+      editInEditor,
+      getSetting: (endpoint, key, label) =>
+        new AppConfigService(endpoint, credential, { scheduler: appConfigScheduler }).getSetting(
+          key,
+          label
+        ),
+      setSetting: async (endpoint, key, value, label, options) => {
+        const service = new AppConfigService(endpoint, credential, {
+          scheduler: appConfigScheduler,
+        });
+        const setting = await service.setSetting(key, value, label, options);
+        return setting.etag;
+      },
+      setSecret: (vaultUrl, secretName, value) =>
+        new KeyVaultService(credential, {
+          cache: getSecretCache(settings.keyVault.cacheTtlSeconds),
+          scheduler: keyVaultScheduler,
+          cloud: getCloudEnvironment(settings.cloud),
+        }).setSecret(vaultUrl, secretName, value),
+    });
+
+    if (!result.edited) {
+      if (result.reason === 'conflict') {
+        const action = await vscode.window.showWarningMessage(
+          `${node.key} was changed by someone else since it was loaded. Refresh to see the current value, then try again.`,
+          'Refresh'
+        );
+        if (action === 'Refresh') {
+          await refreshCommand(context);
+        }
+      } else if (result.reason === 'not_editable') {
+        void vscode.window.showWarningMessage(
+          `${node.key} cannot be edited here. Refresh and try again.`
+        );
+      }
+      return;
+    }
+
+    outputChannel.appendLine(
+      node.isSecret
+        ? `Added a new version of the secret for ${result.key}`
+        : `Updated ${result.key}`
+    );
+    if (result.pinned) {
+      void vscode.window.showWarningMessage(
+        `Added a new secret version, but ${result.key} references a specific version, so the new value will not be injected.`
+      );
+      return;
+    }
+
+    reinjectValue(context, node, result.value, result.etag);
+    void vscode.window.showInformationMessage(
+      node.overriddenBy
+        ? `Updated ${result.key}. ${node.overriddenBy} overrides it, so the injected value did not change.`
+        : `Updated ${result.key}${node.envVar ? ` and re-injected ${node.envVar}` : ''}`
+    );
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Edit value failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to edit value: ${message}`);
+  }
+}
+
+/**
+ * Edit a multi-line value in an untitled editor until the user saves or cancels.
+ */
+async function editInEditor(key: string, value: string): Promise<string | undefined> {
+  const document = await vscode.workspace.openTextDocument({ content: value });
+  await vscode.window.showTextDocument(document);
+  const action = await vscode.window.showInformationMessage(
+    `Edit the value of ${key}, then choose Save.`,
+    'Save',
+    'Cancel'
+  );
+  const text = document.getText();
+
+  // Close the editor without prompting to save the untitled document
+  await vscode.window.showTextDocument(document);
+  await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+  return action === 'Save' ? text : undefined;
+}
+
+/**
+ * Apply an edited value to the environment and the tree without a full refresh.
+ * A value another store overrides is updated in the tree only.
+ */
+function reinjectValue(
+  context: vscode.ExtensionContext,
+  node: KeyHierarchyNode,
+  value: string,
+  etag?: string
+): void {
+  const changes = { value, stale: undefined, cached: undefined, ...(etag && { etag }) };
+  const entry = lastRefreshItems.find((item) => item.key === node.key && item.store === node.store);
+  if (entry) {
+    Object.assign(entry, changes);
+  }
+  Object.assign(node, changes);
+
+  if (node.envVar && !node.overriddenBy) {
+    context.environmentVariableCollection.replace(node.envVar, value);
+  }
+  envTreeProvider?.refreshNode(node);
+}
+
+async function deleteKeyCommand(
+  context: vscode.ExtensionContext,
+  node?: KeyHierarchyNode
+): Promise<void> {
+  const deps = await getManageKeysDeps();
+  if (!deps) {
+    return;
+  }
+
+  try {
+    const result = await runDeleteKeyFlow(node, deps);
+    if (!result.deleted) {
+      if (result.reason === 'not_found') {
+        void vscode.window.showWarningMessage(
+          `${node?.key ?? 'The key'} no longer exists. Refresh to update the tree.`
+        );
+      }
+      return;
+    }
+
+    result.keys.forEach((key) => outputChannel.appendLine(`Deleted ${key} from ${result.store}`));
+    void vscode.window.showInformationMessage(
+      result.keys.length === 1
+        ? `Deleted ${result.keys[0]}`
+        : `Deleted ${result.keys.length} keys under ${node?.key}`
+    );
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Delete key failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to delete key: ${message}`);
+  }
+}
+
+async function renameKeyCommand(
+  context: vscode.ExtensionContext,
+  node?: KeyHierarchyNode
+): Promise<void> {
+  const deps = await getManageKeysDeps();
+  if (!deps) {
+    return;
+  }
+
+  try {
+    const result = await runRenameKeyFlow(node, deps);
+    if (!result.renamed) {
+      if (result.reason === 'exists') {
+        void vscode.window.showWarningMessage(
+          `Cannot rename: ${result.keys.join(', ')} already exist${result.keys.length === 1 ? 's' : ''}.`
+        );
+      } else if (result.reason === 'not_found') {
+        void vscode.window.showWarningMessage(
+          `${node?.key ?? 'The key'} no longer exists. Refresh to update the tree.`
+        );
+      }
+      return;
+    }
+
+    result.keys.forEach((key) =>
+      outputChannel.appendLine(`Renamed ${key.from} to ${key.to} in ${result.store}`)
+    );
+    void vscode.window.showInformationMessage(
+      result.keys.length === 1
+        ? `Renamed ${result.keys[0].from} to ${result.keys[0].to}`
+        : `Renamed ${result.keys.length} keys under ${node?.key}`
+    );
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Rename key failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to rename key: ${message}`);
+  }
+}
+
+/**
+ * Check trust and sign in, then build the App Configuration access shared by
+ * Delete Key and Rename Key.
+ */
+async function getManageKeysDeps(): Promise<ManageKeysDeps | undefined> {
+  if (!vscode.workspace.isTrusted) {
+    void vscode.window.showErrorMessage(
+      'Azure Env requires workspace trust to connect to Azure resources'
+    );
+    return undefined;
+  }
+
+  const settings = getSettings();
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return undefined;
+  }
+
+  const getService = (endpoint: string): AppConfigService =>
+    new AppConfigService(endpoint, credential, { scheduler: appConfigScheduler });
+  const deps: ManageKeysDeps = {
+    getSettings: () => settings,
+    showQuickPickSingle,
+    showInputBox: (options) => vscode.window.showInputBox(options),
+    showWarningMessage: (message, options, confirmLabel) =>
+      vscode.window.showWarningMessage(message, options, confirmLabel),
+    listSettings: (endpoint, options) => getService(endpoint).listSettings(options),
+    setSetting: async (endpoint, key, value, label, options) => {
+      await getService(endpoint).setSetting(key, value, label, options);
+    },
+    deleteSetting: (endpoint, key, label) => getService(endpoint).deleteSetting(key, label),
+    saveSettings,
+  };
+  return deps;
+}
+
+async function disconnectCommand(context: vscode.ExtensionContext): Promise<void> {
+  if (refreshGuard.isRefreshing) {
+    void vscode.window.showWarningMessage(
+      'Environment refresh in progress. Disconnect again once it finishes.'
+    );
+    return;
+  }
+
+  const result = await runDisconnectFlow({
+    getConnectionSnapshot,
+    clearConnectionSettings,
+    rememberConnection: (snapshot) => context.workspaceState.update(LAST_CONNECTION_KEY, snapshot),
+    teardown: () => teardownEnvironment(context),
+    showWarningMessage: (message, options, confirmLabel) =>
+      vscode.window.showWarningMessage(message, options, confirmLabel),
+  });
+
+  if (!result.disconnected) {
+    return;
+  }
+
+  outputChannel.appendLine('Disconnected; App Configuration settings removed from the workspace');
+  if (!result.canReconnect) {
+    void vscode.window.showInformationMessage('Disconnected from App Configuration');
+    return;
+  }
+
+  const action = await vscode.window.showInformationMessage(
+    'Disconnected from App Configuration',
+    'Reconnect'
+  );
+  if (action === 'Reconnect') {
+    await reconnectCommand(context);
+  }
+}
+
+async function reconnectCommand(context: vscode.ExtensionContext): Promise<void> {
+  const result = await runReconnectFlow({
+    getRememberedConnection: () =>
+      context.workspaceState.get<ConnectionSnapshot>(LAST_CONNECTION_KEY),
+    restoreConnectionSettings,
+    forgetConnection: () => context.workspaceState.update(LAST_CONNECTION_KEY, undefined),
+  });
+
+  if (!result.reconnected) {
+    void vscode.window.showInformationMessage(
+      'No previous connection to restore. Run "Azure Env: Connect" to choose a store.'
+    );
+    return;
+  }
+
+  statusBar?.setProfile(result.snapshot.activeProfile);
+  outputChannel.appendLine('Restored the previous App Configuration settings');
+  await refreshCommand(context);
+}
+
+/**
+ * Remove everything a connection produced: injected variables, tree
+ * contents, cached values and any pending auto-refresh.
+ */
+function teardownEnvironment(context: vscode.ExtensionContext): void {
+  if (autoRefreshTimeout) {
+    clearTimeout(autoRefreshTimeout);
+    autoRefreshTimeout = undefined;
+  }
+  context.environmentVariableCollection.clear();
+  envTreeProvider?.clear();
+  lastRefreshItems = [];
+  lastMissingKeys = [];
+  secretCache?.clear();
+  statusBar?.setProfile(undefined);
+  statusBar?.setLabel(undefined);
+  statusBar?.setIdentity(undefined);
+  statusBar?.setState('disconnected');
+}
+
+const CONNECT_BY_ENDPOINT_ACTION = 'Connect by Endpoint URL';
+
 function handleConnectFailure(reason: string): void {
   switch (reason) {
     case 'auth_failed':
       vscode.window.showErrorMessage('Azure sign-in required');
       break;
     case 'no_subscriptions':
-      vscode.window.showWarningMessage('No Azure subscriptions found');
-      break;
-    case 'no_stores':
-      vscode.window.showWarningMessage('No App Configuration stores found');
+    case 'no_stores': {
+      // Access granted on the store alone does not show up in subscriptions
+      const message =
+        reason === 'no_subscriptions'
+          ? 'No Azure subscriptions found'
+          : 'No App Configuration stores found';
+      void vscode.window.showWarningMessage(message, CONNECT_BY_ENDPOINT_ACTION).then((action) => {
+        if (action === CONNECT_BY_ENDPOINT_ACTION) {
+          void vscode.commands.executeCommand('azureEnv.connectByEndpoint');
+        }
+      });
       break;
+    }
     case 'no_keys':
       vscode.window.showWarningMessage('No configuration keys found');
       break;
@@ -209,6 +1090,291 @@ function handleConnectFailure(reason: string): void {
   }
 }
 
+/**
+ * Sign in and get a data plane credential for the subscription used during
+ * connect, for the signed-in account when connected by endpoint, or from the
+ * configured credential source. Shows an error and returns undefined when
+ * that is not possible.
+ */
+async function getCredential(settings: AzureEnvSettings): Promise<IdentityCredential | undefined> {
+  // Other credential sources sign in when the first token is requested
+  if (settings.auth.credential !== 'vscode') {
+    return getSourceCredential(settings);
+  }
+
+  // Ensure signed in (authService initialized in activate)
+  const isSignedIn = await authService!.ensureSignedIn();
+  if (!isSignedIn) {
+    vscode.window.showErrorMessage('Azure sign-in required');
+    return undefined;
+  }
+
+  // Connected by endpoint: no subscription is needed for data plane access
+  if (!settings.subscriptionId) {
+    return getAccountCredential(settings);
+  }
+
+  // Use the subscription as seen by the account chosen during connect, never another account's
+  let subscription;
+  try {
+    subscription = await authService!.findSubscription(settings.subscriptionId, settings.tenantId);
+  } catch (error) {
+    if (!(error instanceof AuthenticationError)) {
+      throw error;
+    }
+    const available = await authService!.getSubscriptions();
+    outputChannel.appendLine(
+      `[ERROR] ${error.message} Available: ${available.map((s) => `${s.name} (${s.subscriptionId}, ${s.account.label})`).join(', ')}`
+    );
+    void vscode.window
+      .showErrorMessage(error.userMessage, 'Sign In', 'Connect')
+      .then(async (action) => {
+        if (action === 'Sign In') {
+          await authService!.signIn(settings.tenantId, authService!.getSavedAccount());
+        } else if (action === 'Connect') {
+          await vscode.commands.executeCommand('azureEnv.connect');
+        }
+      });
+    return undefined;
+  }
+
+  return getScopedCredential(
+    { ...subscription, accountId: subscription.account.id },
+    () => subscription.authentication,
+    getCloudEnvironment(settings.cloud)
+  );
+}
+
+/**
+ * Get the VS Code account credential for a subscription, or for the account
+ * when the subscription ID is empty, reusing the previous one while the
+ * subscription, account and cloud are unchanged.
+ */
+function getScopedCredential(
+  identity: { subscriptionId: string; tenantId: string; accountId?: string },
+  getAuthentication: () => AzureAuthentication,
+  cloud: CloudEnvironment
+): ScopedCredential {
+  const key = JSON.stringify([
+    identity.subscriptionId,
+    identity.tenantId,
+    identity.accountId,
+    cloud,
+  ]);
+  if (scopedCredential?.key !== key) {
+    scopedCredential = {
+      key,
+      credential: new ScopedCredential({ authentication: getAuthentication() }, cloud),
+    };
+  }
+  return scopedCredential.credential;
+}
+
+/**
+ * Get the credential of the configured source other than the VS Code account,
+ * reusing the previous one while the source, tenant and cloud are unchanged.
+ */
+function getSourceCredential(settings: AzureEnvSettings): SourceCredential {
+  const source = settings.auth.credential as Exclude<CredentialSource, 'vscode'>;
+  const cloud = getCloudEnvironment(settings.cloud);
+  const key = JSON.stringify([source, settings.tenantId, cloud]);
+  if (sourceCredential?.key !== key) {
+    sourceCredential = {
+      key,
+      credential: createSourceCredential(source, {
+        cloud,
+        tenantId: settings.tenantId || undefined,
+        onDeviceCode: showDeviceCode,
+      }),
+    };
+  }
+  return sourceCredential.credential;
+}
+
+/**
+ * Show the code of a device code sign-in, with a button that copies it and
+ * opens the sign-in page.
+ */
+function showDeviceCode(info: DeviceCodeInfo): void {
+  outputChannel.appendLine(`[INFO] ${info.message}`);
+  void vscode.window
+    .showInformationMessage(info.message, 'Copy Code and Open')
+    .then(async (action) => {
+      if (action) {
+        await vscode.env.clipboard.writeText(info.userCode);
+        await vscode.env.openExternal(vscode.Uri.parse(info.verificationUri));
+      }
+    });
+}
+
+/**
+ * Get a data plane credential that needs no subscription: the account saved
+ * during connect, or the configured credential source's.
+ */
+function getAccountCredential(settings = getSettings()): IdentityCredential {
+  if (settings.auth.credential !== 'vscode') {
+    return getSourceCredential(settings);
+  }
+  const account = authService!.getSavedAccount();
+  return getScopedCredential(
+    { subscriptionId: '', tenantId: settings.tenantId, accountId: account?.id },
+    () => authService!.getAccountAuthentication(settings.tenantId || undefined, account),
+    getCloudEnvironment(settings.cloud)
+  );
+}
+
+/**
+ * Get the data plane credential for a store picked during connect, from the
+ * subscription or account passed by the connect flow when there is one.
+ */
+function getConnectCredential(subscription: unknown): IdentityCredential {
+  if (!subscription) {
+    return getAccountCredential();
+  }
+  const {
+    subscriptionId = '',
+    tenantId = '',
+    account,
+    authentication,
+  } = subscription as Partial<AzureSubscription> & Pick<AzureSubscription, 'authentication'>;
+  return getScopedCredential(
+    { subscriptionId, tenantId, accountId: account?.id },
+    () => authentication,
+    getCloud()
+  );
+}
+
+/**
+ * Get the Azure cloud selected in the workspace settings.
+ */
+function getCloud(): CloudEnvironment {
+  return getCloudEnvironment(getSettings().cloud);
+}
+
+/** Most next steps offered on one refresh notification */
+const MAX_REMEDIATION_BUTTONS = 3;
+
+/**
+ * Show a refresh warning with a button for each distinct next step of the
+ * keys that failed.
+ */
+function showRefreshWarning(
+  context: vscode.ExtensionContext,
+  message: string,
+  errors: KeyError[]
+): void {
+  const fixable = errors.filter(
+    (error, index) =>
+      error.remediation &&
+      errors.findIndex((other) => other.remediation?.title === error.remediation?.title) === index
+  );
+  void vscode.window
+    .showWarningMessage(
+      message,
+      ...fixable.slice(0, MAX_REMEDIATION_BUTTONS).map((error) => error.remediation!.title)
+    )
+    .then((title) => {
+      const error = fixable.find((candidate) => candidate.remediation?.title === title);
+      if (error?.remediation) {
+        void runRemediation(context, error.remediation, error);
+      }
+    });
+}
+
+/**
+ * Carry out the next step offered for an error. The target is the key the
+ * error was reported for, when there is one.
+ */
+async function runRemediation(
+  context: vscode.ExtensionContext,
+  remediation: Remediation,
+  target?: FixReferenceTarget
+): Promise<void> {
+  switch (remediation.action) {
+    case 'signIn':
+    case 'switchTenant': {
+      const tenantId =
+        remediation.action === 'switchTenant' ? getSettings().tenantId || undefined : undefined;
+      if (await authService?.signIn(tenantId, authService.getSavedAccount())) {
+        await refreshCommand(context);
+      }
+      return;
+    }
+    case 'requestRole':
+      outputChannel.appendLine(remediation.detail);
+      if (remediation.url) {
+        await vscode.env.openExternal(vscode.Uri.parse(remediation.url));
+      }
+      return;
+    case 'retry':
+      if (autoRefreshTimeout) {
+        clearTimeout(autoRefreshTimeout);
+      }
+      autoRefreshTimeout = setTimeout(() => {
+        autoRefreshTimeout = undefined;
+        void refreshCommand(context);
+      }, remediation.retryAfterMs ?? 0);
+      return;
+    case 'openSettings':
+      await vscode.commands.executeCommand('workbench.action.openSettings', remediation.setting);
+      return;
+    case 'fixReference':
+      if (target) {
+        await fixReferenceCommand(context, { ...target, reference: remediation.reference });
+      }
+      return;
+  }
+}
+
+async function fixReferenceCommand(
+  context: vscode.ExtensionContext,
+  target: FixReferenceTarget
+): Promise<void> {
+  const settings = getSettings();
+  const credential = await getCredential(settings);
+  if (!credential) {
+    return;
+  }
+
+  try {
+    const result = await runFixReferenceFlow(target, {
+      getSettings: () => settings,
+      showInputBox: (options) => vscode.window.showInputBox(options),
+      getSetting: (endpoint, key, label) =>
+        new AppConfigService(endpoint, credential, { scheduler: appConfigScheduler }).getSetting(
+          key,
+          label
+        ),
+      setSetting: async (endpoint, key, value, label, options) => {
+        const service = new AppConfigService(endpoint, credential, {
+          scheduler: appConfigScheduler,
+        });
+        await service.setSetting(key, value, label, options);
+      },
+    });
+
+    if (!result.fixed) {
+      if (result.reason === 'conflict') {
+        const action = await vscode.window.showWarningMessage(
+          `${target.key} was changed by someone else since it was loaded. Refresh to see the current value, then try again.`,
+          'Refresh'
+        );
+        if (action === 'Refresh') {
+          await refreshCommand(context);
+        }
+      }
+      return;
+    }
+
+    outputChannel.appendLine(`Pointed ${result.key} at ${result.secretUri}`);
+    await refreshCommand(context);
+  } catch (error) {
+    const message = error instanceof AzureEnvError ? error.userMessage : String(error);
+    outputChannel.appendLine(`[ERROR] Fix reference failed: ${String(error)}`);
+    void vscode.window.showErrorMessage(`Failed to fix the reference: ${message}`);
+  }
+}
+
 async function refreshCommand(context: vscode.ExtensionContext): Promise<void> {
   // Security: Require workspace trust
   if (!vscode.workspace.isTrusted) {
@@ -229,7 +1395,7 @@ async function refreshCommand(context: vscode.ExtensionContext): Promise<void> {
   try {
     const settings = getSettings();
 
-    if (!settings.endpoint || settings.selectedKeys.length === 0) {
+    if (!hasSelectedKeys(settings)) {
       vscode.window.showWarningMessage(
         'No App Configuration configured. Run "Azure Env: Connect" first.'
       );
@@ -238,82 +1404,179 @@ async function refreshCommand(context: vscode.ExtensionContext): Promise<void> {
       return;
     }
 
-    const storeName = extractStoreName(settings.endpoint);
+    const storeName = describeStores(settings);
+    statusBar?.setLabel(settings.label);
 
-    // Ensure signed in (authService initialized in activate)
-    const isSignedIn = await authService!.ensureSignedIn();
-    if (!isSignedIn) {
-      vscode.window.showErrorMessage('Azure sign-in required');
+    const credential = await getCredential(settings);
+    if (!credential) {
       statusBar?.setState('error');
       return;
     }
 
-    // Get credential from subscription
-    const subscriptions = await authService!.getSubscriptions();
-    if (subscriptions.length === 0) {
-      vscode.window.showErrorMessage('No Azure subscriptions available');
-      statusBar?.setState('error');
-      return;
-    }
+    // Create services with scoped credential for data plane access
+    const sources: RefreshSource[] = getStoreSources(settings).map((source) => ({
+      name: getStoreName(source),
+      appConfigService: new AppConfigService(source.endpoint, credential, {
+        scheduler: appConfigScheduler,
+      }),
+      selectedKeys: source.selectedKeys,
+      excludedKeys: source.excludedKeys,
+      label: source.label ?? '',
+      overrideLabels: source.overrideLabels,
+    }));
+    const keyVaultService = new KeyVaultService(credential, {
+      cache: getSecretCache(settings.keyVault.cacheTtlSeconds),
+      scheduler: keyVaultScheduler,
+      cloud: getCloudEnvironment(settings.cloud),
+    });
+    const keyCount = sources.reduce((total, source) => total + source.selectedKeys.length, 0);
 
-    // Find the subscription that was used during connect
-    let subscription = subscriptions.find(
-      (s) => s.subscriptionId === settings.subscriptionId && s.tenantId === settings.tenantId
+    // Refresh environment with progress indicator
+    const result = await withProgress(
+      {
+        title: `Azure Env: Refreshing ${keyCount} keys...`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        // Tell the user when a throttled service makes us wait
+        const onWait = (wait: RetryWait): void => {
+          const message = describeWait(wait);
+          outputChannel.appendLine(`[WARN] ${wait.error.message} (retry ${wait.attempt})`);
+          statusBar?.setState('refreshing', message);
+          progress.report({ message });
+        };
+        const listeners = [appConfigScheduler.onWait(onWait), keyVaultScheduler.onWait(onWait)];
+        try {
+          return await refreshEnvironment({
+            sources,
+            envCollection: context.environmentVariableCollection,
+            keyVaultService,
+            naming: settings.naming,
+            previousItems: lastRefreshItems,
+            progress,
+            cancellationToken: token,
+          });
+        } finally {
+          listeners.forEach((listener) => listener.dispose());
+        }
+      }
     );
 
-    if (!subscription) {
-      // Fallback: try matching just subscription ID (tenant might have changed)
-      subscription = subscriptions.find((s) => s.subscriptionId === settings.subscriptionId);
-    }
+    statusBar?.setIdentity(credential.getIdentity());
 
-    if (!subscription) {
-      outputChannel.appendLine(
-        `[ERROR] Could not find subscription ${settings.subscriptionId} (tenant: ${settings.tenantId}). Available: ${subscriptions.map((s) => `${s.name} (${s.subscriptionId})`).join(', ')}`
-      );
-      vscode.window.showErrorMessage(
-        'The Azure subscription used during setup is no longer available. Please run "Azure Env: Connect" again.'
+    if (result.cancelled) {
+      outputChannel.appendLine('Refresh cancelled; previous environment kept');
+      void vscode.window.showInformationMessage(
+        'Refresh cancelled. The previous environment was kept.'
       );
-      statusBar?.setState('error');
+      statusBar?.setState('connected', storeName);
       return;
     }
 
-    const credential = new ScopedCredential(subscription);
+    // One prompt to sign in again rather than a failure per key
+    if (result.authError) {
+      const { authError } = result;
+      outputChannel.appendLine(`[ERROR] ${authError.message}; previous environment kept`);
+      const remediation = getRemediation(authError);
+      void vscode.window
+        .showWarningMessage(
+          `${authError.userMessage} The previous environment was kept.`,
+          ...(remediation ? [remediation.title] : [])
+        )
+        .then((title) => {
+          if (remediation && title === remediation.title) {
+            void runRemediation(context, remediation);
+          }
+        });
+      statusBar?.setState('error');
+      return;
+    }
 
-    // Create services with scoped credential for data plane access
-    const appConfigService = new AppConfigService(settings.endpoint, credential);
-    const keyVaultService = new KeyVaultService(credential);
+    const keyErrors: KeyError[] = result.errors.map((e) => ({
+      key: e.key,
+      store: e.store,
+      label: e.label,
+      message: e.error instanceof AzureEnvError ? e.error.userMessage : e.error.message,
+      remediation: getRemediation(e.error),
+    }));
 
-    // Refresh environment with progress indicator
-    const result = await withProgress(
-      {
-        title: `Azure Env: Refreshing ${settings.selectedKeys.length} keys...`,
-        cancellable: true,
-      },
-      async (progress, token) => {
-        return refreshEnvironment({
-          selectedKeys: settings.selectedKeys,
-          label: settings.label,
-          envCollection: context.environmentVariableCollection,
-          appConfigService,
-          keyVaultService,
-          progress,
-          cancellationToken: token,
-        });
-      }
+    if (result.applied) {
+      lastRefreshItems = result.items;
+    }
+    // Show the errors and missing keys even when every key failed; the items
+    // are then the kept values, marked stale
+    lastMissingKeys = result.missing;
+    envTreeProvider?.setData(
+      result.items,
+      sources.map((source) => source.name),
+      result.warnings,
+      result.missing,
+      keyErrors
     );
 
-    envTreeProvider?.setData(result.items);
+    result.warnings.forEach((warning) => {
+      outputChannel.appendLine(`[WARN] ${warning.message}`);
+      warning.sources.forEach((source) =>
+        outputChannel.appendLine(
+          `  ${sources.length > 1 ? `${source.store}: ` : ''}${source.key} -> ${warning.envVar}`
+        )
+      );
+    });
 
     // Show result and update status bar
     if (result.failed > 0) {
       const errorKeys = result.errors.map((e) => e.key).join(', ');
       outputChannel.appendLine(`Failed to resolve: ${errorKeys}`);
-      result.errors.forEach((e) => outputChannel.appendLine(`  ${e.key}: ${e.error.message}`));
-      vscode.window.showWarningMessage(
-        `Environment refreshed: ${result.succeeded} succeeded, ${result.failed} failed`
+      result.errors.forEach((e, index) => {
+        outputChannel.appendLine(
+          `  ${sources.length > 1 ? `${e.store}: ` : ''}${e.key}: ${e.error.message}`
+        );
+        const remediation = keyErrors[index].remediation;
+        if (remediation) {
+          outputChannel.appendLine(`    Next step: ${remediation.detail}`);
+        }
+      });
+    }
+
+    if (result.missing.length > 0) {
+      outputChannel.appendLine('Selected keys not found in their store:');
+      result.missing.forEach((missing) =>
+        outputChannel.appendLine(
+          `  ${sources.length > 1 ? `${missing.store}: ` : ''}${missing.key} (labels: ${missing.labels.map((label) => label || '(none)').join(', ')})`
+        )
+      );
+    }
+
+    if (!result.applied) {
+      showRefreshWarning(
+        context,
+        `Environment refresh failed for all ${result.failed} keys. The previous environment was kept.`,
+        keyErrors
+      );
+      statusBar?.setState('error');
+    } else if (result.failed > 0) {
+      const staleCount = result.items.filter((item) => item.stale).length;
+      showRefreshWarning(
+        context,
+        `Environment refreshed: ${result.succeeded} succeeded, ${result.failed} failed` +
+          (staleCount > 0 ? ` (${staleCount} kept their last known value)` : ''),
+        keyErrors
       );
       // Partial success - show as connected with warning
       statusBar?.setState('connected', `${storeName} (${result.failed} errors)`);
+    } else if (result.missing.length > 0) {
+      const count = result.missing.length;
+      void vscode.window
+        .showWarningMessage(
+          `Environment refreshed: ${result.succeeded} variables injected. ${count} selected key${count === 1 ? ' was' : 's were'} not found in the store.`,
+          'Prune Missing Keys'
+        )
+        .then((action) => {
+          if (action === 'Prune Missing Keys') {
+            void vscode.commands.executeCommand('azureEnv.pruneMissingKeys');
+          }
+        });
+      statusBar?.setState('connected', `${storeName} (${count} missing)`);
     } else {
       vscode.window.showInformationMessage(
         `Environment refreshed: ${result.succeeded} variables injected`
@@ -337,11 +1600,26 @@ async function refreshCommand(context: vscode.ExtensionContext): Promise<void> {
   }
 }
 
+/**
+ * Get the shared secret cache, recreating it when the TTL setting changes.
+ * Returns undefined when caching is disabled.
+ */
+function getSecretCache(ttlSeconds: number): TtlCache<string> | undefined {
+  if (ttlSeconds <= 0) {
+    secretCache = undefined;
+  } else if (secretCache?.ttlMs !== ttlSeconds * 1000) {
+    secretCache = new TtlCache<string>(ttlSeconds * 1000);
+  }
+  return secretCache;
+}
+
 async function listAppConfigStores(
   subscriptionId: string,
   credential: TokenCredential
 ): Promise<StoreInfo[]> {
-  const armClient = new AppConfigurationManagementClient(credential, subscriptionId);
+  const armClient = new AppConfigurationManagementClient(credential, subscriptionId, {
+    endpoint: getCloud().resourceManagerEndpoint || undefined,
+  });
   const stores: StoreInfo[] = [];
 
   for await (const store of armClient.configurationStores.list()) {
@@ -353,10 +1631,39 @@ async function listAppConfigStores(
   return stores;
 }
 
+async function listKeyVaults(
+  subscriptionId: string,
+  credential: TokenCredential
+): Promise<VaultInfo[]> {
+  const armClient = new KeyVaultManagementClient(credential, subscriptionId, {
+    endpoint: getCloud().resourceManagerEndpoint || undefined,
+  });
+  const vaults: VaultInfo[] = [];
+
+  for await (const vault of armClient.vaults.listBySubscription()) {
+    if (vault.name && vault.properties.vaultUri) {
+      vaults.push({ name: vault.name, vaultUrl: vault.properties.vaultUri });
+    }
+  }
+
+  return vaults.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Describe a retry wait for the status bar and progress notification.
+ */
+function describeWait(wait: RetryWait): string {
+  const seconds = Math.ceil(wait.delayMs / 1000);
+  return wait.error instanceof RateLimitError
+    ? `waiting ${seconds} s for rate limit`
+    : `retrying in ${seconds} s`;
+}
+
 async function listConfigLabels(endpoint: string, subscription: unknown): Promise<string[]> {
-  const sub = subscription as import('@microsoft/vscode-azext-azureauth').AzureSubscription;
-  const credential = new ScopedCredential(sub);
-  const appConfigService = new AppConfigService(endpoint, credential);
+  const credential = getConnectCredential(subscription);
+  const appConfigService = new AppConfigService(endpoint, credential, {
+    scheduler: appConfigScheduler,
+  });
   return appConfigService.listLabels();
 }
 
@@ -365,9 +1672,10 @@ async function listConfigKeys(
   subscription: unknown,
   label: string
 ): Promise<KeyInfo[]> {
-  const sub = subscription as import('@microsoft/vscode-azext-azureauth').AzureSubscription;
-  const credential = new ScopedCredential(sub);
-  const appConfigService = new AppConfigService(endpoint, credential);
+  const credential = getConnectCredential(subscription);
+  const appConfigService = new AppConfigService(endpoint, credential, {
+    scheduler: appConfigScheduler,
+  });
   const settings = await appConfigService.listSettings({
     labelFilter: label || undefined,
   });
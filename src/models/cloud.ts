@@ -0,0 +1,138 @@
+/**
+ * Azure clouds the extension can connect to.
+ */
+export type CloudName = 'AzureCloud' | 'AzureUSGovernment' | 'AzureChinaCloud' | 'Custom';
+
+/**
+ * The `azureEnv.cloud.*` settings. The domain and endpoint fields are only
+ * read for the `Custom` cloud.
+ */
+export interface CloudSettings {
+  environment: CloudName;
+  /** Azure Resource Manager URL, e.g. `https://management.example.com` */
+  resourceManagerEndpoint: string;
+  /** Domain App Configuration endpoints end with, e.g. `azconfig.example.com` */
+  appConfigurationSuffix: string;
+  /** Domain Key Vault URLs end with, e.g. `vault.example.com` */
+  keyVaultSuffix: string;
+  /** Token audience for App Configuration; defaults to `https://<appConfigurationSuffix>` */
+  appConfigurationAudience: string;
+  /** Microsoft Entra ID sign-in URL, e.g. `https://login.example.com` */
+  activeDirectoryEndpoint: string;
+}
+
+/**
+ * Endpoints, domains and token audiences of one Azure cloud.
+ */
+export interface CloudEnvironment {
+  name: CloudName;
+  resourceManagerEndpoint: string;
+  appConfigurationSuffix: string;
+  keyVaultSuffix: string;
+  appConfigurationAudience: string;
+  keyVaultAudience: string;
+  /** Authority host for credentials that sign in outside VS Code; '' for the default */
+  activeDirectoryEndpoint: string;
+}
+
+export const AZURE_PUBLIC_CLOUD: CloudEnvironment = {
+  name: 'AzureCloud',
+  resourceManagerEndpoint: 'https://management.azure.com',
+  appConfigurationSuffix: 'azconfig.io',
+  keyVaultSuffix: 'vault.azure.net',
+  appConfigurationAudience: 'https://appconfig.azure.com',
+  keyVaultAudience: 'https://vault.azure.net',
+  activeDirectoryEndpoint: 'https://login.microsoftonline.com',
+};
+
+const KNOWN_CLOUDS: Record<Exclude<CloudName, 'Custom'>, CloudEnvironment> = {
+  AzureCloud: AZURE_PUBLIC_CLOUD,
+  AzureUSGovernment: {
+    name: 'AzureUSGovernment',
+    resourceManagerEndpoint: 'https://management.usgovcloudapi.net',
+    appConfigurationSuffix: 'azconfig.azure.us',
+    keyVaultSuffix: 'vault.usgovcloudapi.net',
+    appConfigurationAudience: 'https://appconfig.azure.us',
+    keyVaultAudience: 'https://vault.usgovcloudapi.net',
+    activeDirectoryEndpoint: 'https://login.microsoftonline.us',
+  },
+  AzureChinaCloud: {
+    name: 'AzureChinaCloud',
+    resourceManagerEndpoint: 'https://management.chinacloudapi.cn',
+    appConfigurationSuffix: 'azconfig.azure.cn',
+    keyVaultSuffix: 'vault.azure.cn',
+    appConfigurationAudience: 'https://appconfig.azure.cn',
+    keyVaultAudience: 'https://vault.azure.cn',
+    activeDirectoryEndpoint: 'https://login.chinacloudapi.cn',
+  },
+};
+
+/** Public cloud audiences the Azure SDKs may request tokens for */
+const PUBLIC_AUDIENCES: [string, keyof CloudEnvironment][] = [
+  ['https://management.azure.com', 'resourceManagerEndpoint'],
+  ['https://appconfig.azure.com', 'appConfigurationAudience'],
+  ['https://azconfig.io', 'appConfigurationAudience'],
+  ['https://vault.azure.net', 'keyVaultAudience'],
+];
+
+/**
+ * Get the cloud selected by the settings. Without settings, or with an
+ * unknown name, this is the Azure public cloud.
+ */
+export function getCloudEnvironment(settings?: CloudSettings): CloudEnvironment {
+  if (settings?.environment !== 'Custom') {
+    return KNOWN_CLOUDS[settings?.environment as keyof typeof KNOWN_CLOUDS] ?? AZURE_PUBLIC_CLOUD;
+  }
+
+  const appConfigurationSuffix = trimDomain(settings.appConfigurationSuffix);
+  const keyVaultSuffix = trimDomain(settings.keyVaultSuffix);
+  return {
+    name: 'Custom',
+    resourceManagerEndpoint: trimUrl(settings.resourceManagerEndpoint),
+    appConfigurationSuffix,
+    keyVaultSuffix,
+    appConfigurationAudience: settings.appConfigurationAudience
+      ? trimUrl(settings.appConfigurationAudience)
+      : appConfigurationSuffix && `https://${appConfigurationSuffix}`,
+    keyVaultAudience: keyVaultSuffix && `https://${keyVaultSuffix}`,
+    activeDirectoryEndpoint: trimUrl(settings.activeDirectoryEndpoint),
+  };
+}
+
+/**
+ * Check that a host name is a subdomain of a cloud domain. An unset domain
+ * (an incomplete custom cloud) matches nothing.
+ */
+export function isCloudHost(hostname: string, suffix: string): boolean {
+  return !!suffix && hostname.toLowerCase().endsWith(`.${suffix.toLowerCase()}`);
+}
+
+/**
+ * Translate a token scope for a public cloud service to the same service in
+ * the given cloud, e.g. `https://vault.azure.net/.default` becomes
+ * `https://vault.azure.cn/.default` in Azure China. Other scopes are returned
+ * unchanged.
+ */
+export function toCloudScope(scope: string, cloud: CloudEnvironment): string {
+  if (cloud === AZURE_PUBLIC_CLOUD) {
+    return scope;
+  }
+  for (const [audience, field] of PUBLIC_AUDIENCES) {
+    if (scope === audience || scope.startsWith(`${audience}/`)) {
+      const target = cloud[field];
+      return target ? `${target}${scope.slice(audience.length)}` : scope;
+    }
+  }
+  return scope;
+}
+
+function trimDomain(domain: string | undefined): string {
+  return (domain ?? '')
+    .trim()
+    .replace(/^\*?\./, '')
+    .toLowerCase();
+}
+
+function trimUrl(url: string | undefined): string {
+  return (url ?? '').trim().replace(/\/+$/, '');
+}
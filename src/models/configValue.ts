@@ -1,14 +1,94 @@
+import { KeyVaultReferenceError } from '../errors';
+import { AZURE_PUBLIC_CLOUD, isCloudHost, type CloudEnvironment } from './cloud';
+
+/**
+ * How App Configuration keys are turned into environment variable names.
+ * - `uppercase-underscore`: `/` becomes `_` and the name is uppercased (default)
+ * - `preserve-case`: `/` becomes `_` and the original casing is kept
+ * - `dotnet`: `/` and `:` become `__` for .NET configuration binding
+ * - `custom`: `/` becomes the configured separator and the casing is kept
+ */
+export type EnvVarNamingStrategy = 'uppercase-underscore' | 'preserve-case' | 'dotnet' | 'custom';
+
+/**
+ * Options controlling environment variable naming.
+ */
+export interface EnvVarNamingOptions {
+  strategy?: EnvVarNamingStrategy;
+  /** Separator used by the `custom` strategy */
+  separator?: string;
+  /** Key prefixes removed before transforming, e.g. `MyService/` */
+  stripPrefixes?: string[];
+  /** Explicit variable names per key; these bypass every other rule */
+  aliases?: Record<string, string>;
+  /** What to do when several keys map to the same variable (default `last-wins`) */
+  collisionPolicy?: EnvVarCollisionPolicy;
+}
+
+/**
+ * A problem with the environment variable name produced for one or more keys.
+ * - `collision`: several keys map to the same variable
+ * - `invalidName`: the variable name cannot be referenced from a shell
+ */
+export interface EnvVarWarning {
+  kind: 'collision' | 'invalidName';
+  envVar: string;
+  /** Every source key involved, with the store it came from */
+  sources: { key: string; store: string }[];
+  message: string;
+}
+
+/**
+ * How collisions between keys that map to the same variable are resolved.
+ */
+export type EnvVarCollisionPolicy = 'first-wins' | 'last-wins' | 'error';
+
+/**
+ * Check if a name can be used as a POSIX environment variable
+ * (letters, digits and underscores, not starting with a digit).
+ */
+export function isValidEnvVarName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
 /**
  * Transform an App Configuration key to an environment variable name.
- * Converts slashes to underscores and uppercases the entire key.
+ * By default converts slashes to underscores and uppercases the entire key.
  *
  * @example
  * transformKeyToEnvVar('MyService/Database/Host') // 'MYSERVICE_DATABASE_HOST'
+ * transformKeyToEnvVar('Db:Host', { strategy: 'dotnet' }) // 'Db__Host'
+ * transformKeyToEnvVar('MyService/Host', { stripPrefixes: ['MyService/'] }) // 'HOST'
  */
-export function transformKeyToEnvVar(key: string): string {
-  return key.replace(/\//g, '_').toUpperCase();
+export function transformKeyToEnvVar(key: string, options: EnvVarNamingOptions = {}): string {
+  const alias = options.aliases?.[key];
+  if (alias) {
+    return alias;
+  }
+
+  // Longest matching prefix wins so nested prefixes can be stripped precisely
+  const prefix = [...(options.stripPrefixes ?? [])]
+    .sort((a, b) => b.length - a.length)
+    .find((candidate) => candidate && key.startsWith(candidate) && key.length > candidate.length);
+  const name = prefix ? key.slice(prefix.length) : key;
+
+  switch (options.strategy ?? 'uppercase-underscore') {
+    case 'preserve-case':
+      return name.replace(/\//g, '_');
+    case 'dotnet':
+      return name.replace(/[/:]/g, '__');
+    case 'custom':
+      return name.replace(/\//g, options.separator ?? '_');
+    case 'uppercase-underscore':
+    default:
+      return name.replace(/\//g, '_').toUpperCase();
+  }
 }
 
+/** Content type App Configuration gives Key Vault references */
+export const KEY_VAULT_REFERENCE_CONTENT_TYPE =
+  'application/vnd.microsoft.appconfig.keyvaultref+json;charset=utf-8';
+
 /**
  * Check if a content type indicates a Key Vault reference.
  * Key Vault references have content type: application/vnd.microsoft.appconfig.keyvaultref+json
@@ -20,16 +100,32 @@ export function isKeyVaultReference(contentType: string | undefined): boolean {
 /**
  * Parse a Key Vault reference JSON value and extract the secret URI.
  *
- * @throws Error if JSON is invalid or missing uri field
+ * @throws KeyVaultReferenceError if JSON is invalid or missing uri field
  */
 export function parseKeyVaultReference(value: string): string {
-  const parsed = JSON.parse(value);
-  if (!parsed.uri) {
-    throw new Error('Missing uri in Key Vault reference');
+  let parsed: { uri?: string };
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new KeyVaultReferenceError(
+      'Key Vault reference is not valid JSON',
+      value,
+      'invalid_json'
+    );
+  }
+  if (!parsed?.uri) {
+    throw new KeyVaultReferenceError('Missing uri in Key Vault reference', value, 'missing_uri');
   }
   return parsed.uri;
 }
 
+/**
+ * Build the value of a Key Vault reference setting for a secret URI.
+ */
+export function createKeyVaultReference(secretUri: string): string {
+  return JSON.stringify({ uri: secretUri });
+}
+
 /**
  * Information extracted from a Key Vault secret URI.
  */
@@ -40,7 +136,8 @@ export interface KeyVaultSecretInfo {
 }
 
 /**
- * Parse a Key Vault secret URI into its components.
+ * Parse a Key Vault secret URI into its components. The vault must be in the
+ * given cloud (the Azure public cloud by default).
  *
  * @example
  * parseKeyVaultSecretUri('https://myvault.vault.azure.net/secrets/MySecret')
@@ -48,7 +145,10 @@ export interface KeyVaultSecretInfo {
  *
  * @throws Error if URI is invalid or not a secret URI
  */
-export function parseKeyVaultSecretUri(uri: string): KeyVaultSecretInfo {
+export function parseKeyVaultSecretUri(
+  uri: string,
+  cloud: CloudEnvironment = AZURE_PUBLIC_CLOUD
+): KeyVaultSecretInfo {
   const url = new URL(uri);
 
   // Security: Validate HTTPS protocol
@@ -56,9 +156,13 @@ export function parseKeyVaultSecretUri(uri: string): KeyVaultSecretInfo {
     throw new Error('Invalid Key Vault URI: must use HTTPS');
   }
 
-  // Security: Validate Azure Key Vault domain
-  if (!url.hostname.endsWith('.vault.azure.net')) {
-    throw new Error('Invalid Key Vault URI: must be *.vault.azure.net');
+  // Security: Validate the Key Vault domain of the cloud
+  if (!isCloudHost(url.hostname, cloud.keyVaultSuffix)) {
+    throw new Error(
+      cloud.keyVaultSuffix
+        ? `Invalid Key Vault URI: must be *.${cloud.keyVaultSuffix}`
+        : 'Invalid Key Vault URI: azureEnv.cloud.keyVaultSuffix is not set'
+    );
   }
 
   const parts = url.pathname.split('/');
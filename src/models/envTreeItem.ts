@@ -3,6 +3,22 @@ import * as vscode from 'vscode';
 const MASKED_VALUE = '••••••••';
 const MAX_DESCRIPTION_LENGTH = 47; // Leave room for "..."
 
+/**
+ * Optional provenance shown alongside a value in the tree.
+ */
+export interface EnvTreeItemDetails {
+  /** Environment variable the value is injected as */
+  envVar?: string;
+  /** App Configuration label the value was resolved from ('' for the null label) */
+  sourceLabel?: string;
+  /** Name of a later store whose value is injected instead of this one */
+  overriddenBy?: string;
+  /** The last refresh failed for this key and the value is the last known good one */
+  stale?: boolean;
+  /** The secret was served from the Key Vault cache */
+  cached?: boolean;
+}
+
 /**
  * Tree item representing an environment variable in the tree view.
  * Handles display formatting, secret masking, and icon selection.
@@ -11,21 +27,36 @@ export class EnvTreeItem extends vscode.TreeItem {
   public readonly fullKey: string;
   public readonly value: string;
   public readonly isSecret: boolean;
+  public readonly envVar?: string;
+  public readonly sourceLabel?: string;
 
   constructor(
     key: string,
     value: string,
     isSecret: boolean,
-    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None
+    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+    details: EnvTreeItemDetails = {}
   ) {
     super(key, collapsibleState);
 
     this.fullKey = key;
     this.value = value;
     this.isSecret = isSecret;
+    this.envVar = details.envVar;
+    this.sourceLabel = details.sourceLabel;
 
-    // Set description (displayed value)
-    this.description = isSecret ? MASKED_VALUE : this.truncateValue(value);
+    // Set description (displayed value), with the variable name and a non-null source label
+    const displayValue = isSecret ? MASKED_VALUE : this.truncateValue(value);
+    this.description = details.envVar ? `${details.envVar} = ${displayValue}` : displayValue;
+    if (details.sourceLabel) {
+      this.description = `${this.description} [${details.sourceLabel}]`;
+    }
+    if (details.overriddenBy) {
+      this.description = `${this.description} (overridden)`;
+    }
+    if (details.stale) {
+      this.description = `${this.description} (stale)`;
+    }
 
     // Set context for menu visibility
     this.contextValue = isSecret ? 'secret' : 'configValue';
@@ -34,7 +65,7 @@ export class EnvTreeItem extends vscode.TreeItem {
     this.iconPath = new vscode.ThemeIcon(isSecret ? 'key' : 'symbol-constant');
 
     // Set tooltip
-    this.tooltip = this.buildTooltip(key, isSecret);
+    this.tooltip = this.buildTooltip(key, isSecret, details);
   }
 
   private truncateValue(value: string): string {
@@ -44,11 +75,26 @@ export class EnvTreeItem extends vscode.TreeItem {
     return value.substring(0, MAX_DESCRIPTION_LENGTH) + '...';
   }
 
-  private buildTooltip(key: string, isSecret: boolean): string {
+  private buildTooltip(key: string, isSecret: boolean, details: EnvTreeItemDetails): string {
     const lines = [key];
+    if (details.envVar) {
+      lines.push(`Environment variable: ${details.envVar}`);
+    }
     if (isSecret) {
       lines.push('(Secret from Key Vault)');
     }
+    if (details.sourceLabel !== undefined) {
+      lines.push(`Label: ${details.sourceLabel || '(no label)'}`);
+    }
+    if (details.overriddenBy) {
+      lines.push(`Overridden by ${details.overriddenBy}`);
+    }
+    if (details.stale) {
+      lines.push('Stale: the last refresh failed, showing the last known good value');
+    }
+    if (details.cached) {
+      lines.push('Served from cache');
+    }
     return lines.join('\n');
   }
 }
@@ -1,9 +1,51 @@
 import * as vscode from 'vscode';
+import type { EnvVarWarning } from './configValue';
+import type { Remediation } from '../errors';
 
 export interface ConfigValueEntry {
   key: string;
   value: string;
   isSecret: boolean;
+  /** Environment variable the value is injected as */
+  envVar?: string;
+  /** App Configuration label the value was resolved from ('' for the null label) */
+  label?: string;
+  /** Name of the store the value was read from */
+  store?: string;
+  /** Name of a later store that defines the same variable and wins */
+  overriddenBy?: string;
+  /** The last refresh failed for this key; the value is the last known good one */
+  stale?: boolean;
+  /** The Key Vault secret was served from the cache */
+  cached?: boolean;
+  /** Etag of the setting when it was read, for conditional writes */
+  etag?: string;
+  /** URI of the Key Vault secret a reference points to */
+  secretUri?: string;
+}
+
+/**
+ * A selected key that none of its store's labels defines any more.
+ */
+export interface MissingKey {
+  key: string;
+  /** Store the key is selected in */
+  store?: string;
+  /** Labels that were searched, highest precedence first */
+  labels: string[];
+}
+
+/**
+ * A selected key that failed to resolve in the last refresh.
+ */
+export interface KeyError {
+  key: string;
+  store?: string;
+  /** Label the setting was read from, when it could be read */
+  label?: string;
+  message: string;
+  /** The next step offered for the error */
+  remediation?: Remediation;
 }
 
 export interface KeyHierarchyNode {
@@ -12,9 +54,23 @@ export interface KeyHierarchyNode {
   children: KeyHierarchyNode[];
   value?: string;
   isSecret?: boolean;
+  envVar?: string;
+  sourceLabel?: string;
+  overriddenBy?: string;
+  stale?: boolean;
+  cached?: boolean;
+  etag?: string;
+  secretUri?: string;
+  /** Store the node's keys were read from */
+  store?: string;
+  /** Next step for a failed key */
+  remediation?: Remediation;
+  /** Set for top-level nodes that group the keys of one store, or report a problem */
+  kind?: 'store' | 'warning' | 'missing' | 'error';
   isValue: boolean;
   collapsibleState: vscode.TreeItemCollapsibleState;
   description?: string;
+  tooltip?: string;
 }
 
 export function splitKeyPath(key: string): string[] {
@@ -44,6 +100,7 @@ export function buildKeyHierarchy(entries: ConfigValueEntry[]): KeyHierarchyNode
           key: currentPath,
           children: [],
           isValue: false,
+          store: entry.store,
           collapsibleState: vscode.TreeItemCollapsibleState.None,
         };
         currentNodes.push(node);
@@ -53,6 +110,13 @@ export function buildKeyHierarchy(entries: ConfigValueEntry[]): KeyHierarchyNode
         node.isValue = true;
         node.value = entry.value;
         node.isSecret = entry.isSecret;
+        node.envVar = entry.envVar;
+        node.sourceLabel = entry.label;
+        node.overriddenBy = entry.overriddenBy;
+        node.stale = entry.stale;
+        node.cached = entry.cached;
+        node.etag = entry.etag;
+        node.secretUri = entry.secretUri;
       }
 
       currentNodes = node.children;
@@ -64,6 +128,93 @@ export function buildKeyHierarchy(entries: ConfigValueEntry[]): KeyHierarchyNode
   return roots;
 }
 
+/**
+ * Build one top-level node per store, each holding the key hierarchy of the
+ * entries read from that store. Stores are kept in the given (precedence) order.
+ */
+export function buildStoreHierarchy(
+  entries: ConfigValueEntry[],
+  storeNames: string[]
+): KeyHierarchyNode[] {
+  return storeNames.map((name) => {
+    const children = buildKeyHierarchy(entries.filter((entry) => entry.store === name));
+    return {
+      label: name,
+      key: '',
+      children,
+      isValue: false,
+      kind: 'store' as const,
+      collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+      description: `${children.length} item${children.length === 1 ? '' : 's'}`,
+    };
+  });
+}
+
+/**
+ * Build one top-level node per naming warning. The tooltip lists every
+ * source key involved.
+ */
+export function buildWarningNodes(warnings: EnvVarWarning[]): KeyHierarchyNode[] {
+  return warnings.map((warning) => ({
+    label: warning.envVar,
+    key: '',
+    children: [],
+    isValue: false,
+    kind: 'warning' as const,
+    collapsibleState: vscode.TreeItemCollapsibleState.None,
+    description:
+      warning.kind === 'collision'
+        ? `${new Set(warning.sources.map((source) => source.key)).size} keys collide`
+        : 'invalid name',
+    tooltip: [
+      warning.message,
+      ...warning.sources.map((source) => `${source.store}: ${source.key}`),
+    ].join('\n'),
+  }));
+}
+
+/**
+ * Build one top-level node per selected key that is missing from its store.
+ */
+export function buildMissingKeyNodes(missing: MissingKey[]): KeyHierarchyNode[] {
+  return missing.map((entry) => ({
+    label: entry.key,
+    key: entry.key,
+    store: entry.store,
+    children: [],
+    isValue: false,
+    kind: 'missing' as const,
+    collapsibleState: vscode.TreeItemCollapsibleState.None,
+    description: entry.store ? `missing from ${entry.store}` : 'missing',
+    tooltip: [
+      `${entry.key} is selected but not found under ${entry.labels.map((label) => label || '(no label)').join(', ')}`,
+      'Prune it from the selected keys, or select the key it was renamed to',
+    ].join('\n'),
+  }));
+}
+
+/**
+ * Build one top-level node per key that failed to resolve, carrying the
+ * next step for its error.
+ */
+export function buildErrorNodes(errors: KeyError[]): KeyHierarchyNode[] {
+  return errors.map((error) => ({
+    label: error.key,
+    key: error.key,
+    store: error.store,
+    sourceLabel: error.label,
+    remediation: error.remediation,
+    children: [],
+    isValue: false,
+    kind: 'error' as const,
+    collapsibleState: vscode.TreeItemCollapsibleState.None,
+    description: error.remediation
+      ? `${error.message} (${error.remediation.title})`
+      : error.message,
+    tooltip: [error.message, error.remediation?.detail].filter(Boolean).join('\n'),
+  }));
+}
+
 function updateNodeState(nodes: KeyHierarchyNode[]): void {
   for (const node of nodes) {
     updateNodeState(node.children);
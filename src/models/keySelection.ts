@@ -0,0 +1,124 @@
+/**
+ * Check if a selection is a prefix selection such as `MyService/*`.
+ * Prefix selections are resolved against the store at refresh time, so keys
+ * added later are picked up without re-running connect.
+ */
+export function isPrefixSelection(selection: string): boolean {
+  return selection.endsWith('*');
+}
+
+/**
+ * Check if a key matches a selection, either exactly or by prefix.
+ *
+ * @example
+ * matchesSelection('MyService/Host', 'MyService/*') // true
+ * matchesSelection('MyService/Host', 'MyService/Host') // true
+ */
+export function matchesSelection(key: string, selection: string): boolean {
+  if (isPrefixSelection(selection)) {
+    return key.startsWith(selection.slice(0, -1));
+  }
+  return key === selection;
+}
+
+/**
+ * Check if a key is covered by any of the exclusions (exact keys or prefixes).
+ */
+export function isExcluded(key: string, excludedKeys: string[]): boolean {
+  return excludedKeys.some((exclusion) => matchesSelection(key, exclusion));
+}
+
+/**
+ * Build prefix selections for the top-level folders of the given keys.
+ *
+ * @example
+ * getFolderSelections(['App/Host', 'App/Port', 'Db']) // ['App/*']
+ */
+export function getFolderSelections(keys: string[]): string[] {
+  const folders = new Set<string>();
+  for (const key of keys) {
+    const separator = key.indexOf('/');
+    if (separator > 0) {
+      folders.add(`${key.slice(0, separator)}/*`);
+    }
+  }
+  return Array.from(folders).sort();
+}
+
+/**
+ * Move a selection that lies at or under `from` to the same place under `to`.
+ * Other selections are returned unchanged.
+ *
+ * @example
+ * renameSelection('App/Db/*', 'App/Db', 'App/Database') // 'App/Database/*'
+ * renameSelection('App/*', 'App/Db', 'App/Database') // 'App/*'
+ */
+export function renameSelection(selection: string, from: string, to: string): string {
+  if (selection === from || selection.startsWith(`${from}/`)) {
+    return `${to}${selection.slice(from.length)}`;
+  }
+  return selection;
+}
+
+/** Largest edit distance, relative to the key length, still treated as a rename */
+const MAX_RENAME_DISTANCE = 0.3;
+
+/**
+ * Suggest the key a missing key was most likely renamed to: a key that
+ * differs only in case, then a key with the same name in another folder,
+ * then the closest key by edit distance, if it is close enough.
+ *
+ * @example
+ * suggestRenamedKey('App/DbHost', ['App/Db/Host', 'App/DBHost']) // 'App/DBHost'
+ * suggestRenamedKey('App/Host', ['Web/Host', 'Web/Port']) // 'Web/Host'
+ */
+export function suggestRenamedKey(key: string, keys: string[]): string | undefined {
+  const candidates = keys.filter((candidate) => candidate !== key);
+  const lower = key.toLowerCase();
+  const sameCase = candidates.find((candidate) => candidate.toLowerCase() === lower);
+  if (sameCase) {
+    return sameCase;
+  }
+
+  const name = getKeyName(lower);
+  const byDistance = (a: string, b: string): number =>
+    editDistance(lower, a.toLowerCase()) - editDistance(lower, b.toLowerCase());
+  const moved = candidates
+    .filter((candidate) => getKeyName(candidate.toLowerCase()) === name)
+    .sort(byDistance);
+  if (moved.length > 0) {
+    return moved[0];
+  }
+
+  const closest = [...candidates].sort(byDistance)[0];
+  if (
+    closest &&
+    editDistance(lower, closest.toLowerCase()) <= Math.floor(key.length * MAX_RENAME_DISTANCE)
+  ) {
+    return closest;
+  }
+  return undefined;
+}
+
+function getKeyName(key: string): string {
+  return key.slice(key.lastIndexOf('/') + 1);
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -1,39 +1,219 @@
 import * as vscode from 'vscode';
+import type {
+  EnvVarCollisionPolicy,
+  EnvVarNamingOptions,
+  EnvVarNamingStrategy,
+} from './configValue';
+import type { CloudName, CloudSettings } from './cloud';
 
 /**
  * Azure Env workspace settings stored in .vscode/settings.json
  */
 export interface AzureEnvSettings {
   endpoint: string;
+  /** Exact keys or prefixes ending in `*` (e.g. `MyService/*`) */
   selectedKeys: string[];
+  /** Keys (or `*` prefixes) never injected, even when a prefix selects them */
+  excludedKeys: string[];
   label: string;
+  /** Labels layered on top of `label`, in order; later labels win per key */
+  overrideLabels: string[];
   keyFilter: string;
+  /** Additional stores merged after the primary store; later stores win */
+  stores: StoreSource[];
   subscriptionId: string;
   tenantId: string;
+  /** How keys are turned into environment variable names (`azureEnv.naming.*`) */
+  naming: EnvVarNamingOptions;
+  /** Key Vault options (`azureEnv.keyVault.*`) */
+  keyVault: KeyVaultSettings;
+  /** Azure cloud the stores and vaults are in (`azureEnv.cloud.*`) */
+  cloud: CloudSettings;
+  /** Where tokens come from (`azureEnv.auth.*`) */
+  auth: AuthSettings;
+  /** Name of the active entry in `azureEnv.profiles`, or '' for the base settings */
+  activeProfile: string;
 }
 
+export interface KeyVaultSettings {
+  /** How long resolved secrets are reused across refreshes; 0 disables the cache */
+  cacheTtlSeconds: number;
+  /** Vault URL new secrets are created in; '' to pick a vault from the subscription */
+  defaultVault: string;
+}
+
+/**
+ * Where data-plane tokens come from: the VS Code Microsoft account, the Azure
+ * CLI login, a service principal or workload identity in environment
+ * variables, or a device code sign-in.
+ */
+export type CredentialSource = 'vscode' | 'azureCli' | 'environment' | 'deviceCode';
+
+export interface AuthSettings {
+  credential: CredentialSource;
+}
+
+/**
+ * An App Configuration store that contributes keys to the environment.
+ */
+export interface StoreSource {
+  /** Display name; defaults to the store name taken from the endpoint */
+  name?: string;
+  endpoint: string;
+  label?: string;
+  overrideLabels?: string[];
+  selectedKeys: string[];
+  excludedKeys?: string[];
+}
+
+/**
+ * A named environment profile (e.g. dev, staging, prod).
+ * Any field that is set overrides the base `azureEnv.appConfiguration.*` value.
+ */
+export type EnvironmentProfile = Partial<Omit<AzureEnvSettings, 'activeProfile'>>;
+
+/**
+ * The workspace connection settings as stored, before any profile is applied.
+ * Disconnect clears these and keeps a copy so the user can reconnect.
+ */
+export type ConnectionSnapshot = Partial<Pick<AzureEnvSettings, ConnectionField | 'activeProfile'>>;
+
+type ConnectionField = (typeof CONNECTION_FIELDS)[number];
+
+/** Every `azureEnv.appConfiguration.*` setting */
+const CONNECTION_FIELDS = [
+  'endpoint',
+  'selectedKeys',
+  'excludedKeys',
+  'label',
+  'overrideLabels',
+  'keyFilter',
+  'stores',
+  'subscriptionId',
+  'tenantId',
+] as const;
+
+const ROOT_SECTION = 'azureEnv';
 const CONFIG_SECTION = 'azureEnv.appConfiguration';
+const NAMING_SECTION = 'azureEnv.naming';
+const KEY_VAULT_SECTION = 'azureEnv.keyVault';
+const CLOUD_SECTION = 'azureEnv.cloud';
+const AUTH_SECTION = 'azureEnv.auth';
 
 /**
  * Get current Azure Env settings from workspace configuration.
+ * When a profile is active, its values take precedence over the base settings.
  */
 export function getSettings(): AzureEnvSettings {
   const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
-  return {
+  const naming = vscode.workspace.getConfiguration(NAMING_SECTION);
+  const keyVault = vscode.workspace.getConfiguration(KEY_VAULT_SECTION);
+  const cloud = vscode.workspace.getConfiguration(CLOUD_SECTION);
+  const auth = vscode.workspace.getConfiguration(AUTH_SECTION);
+  const base: AzureEnvSettings = {
     endpoint: config.get<string>('endpoint') ?? '',
     selectedKeys: config.get<string[]>('selectedKeys') ?? [],
+    excludedKeys: config.get<string[]>('excludedKeys') ?? [],
     label: config.get<string>('label') ?? '',
+    overrideLabels: config.get<string[]>('overrideLabels') ?? [],
     keyFilter: config.get<string>('keyFilter') ?? '*',
+    stores: config.get<StoreSource[]>('stores') ?? [],
     subscriptionId: config.get<string>('subscriptionId') ?? '',
     tenantId: config.get<string>('tenantId') ?? '',
+    naming: {
+      strategy: naming.get<EnvVarNamingStrategy>('strategy') ?? 'uppercase-underscore',
+      separator: naming.get<string>('separator') ?? '_',
+      stripPrefixes: naming.get<string[]>('stripPrefixes') ?? [],
+      aliases: naming.get<Record<string, string>>('aliases') ?? {},
+      collisionPolicy: naming.get<EnvVarCollisionPolicy>('collisionPolicy') ?? 'last-wins',
+    },
+    keyVault: {
+      cacheTtlSeconds: keyVault.get<number>('cacheTtlSeconds') ?? 300,
+      defaultVault: keyVault.get<string>('defaultVault') ?? '',
+    },
+    cloud: {
+      environment: cloud.get<CloudName>('environment') ?? 'AzureCloud',
+      resourceManagerEndpoint: cloud.get<string>('resourceManagerEndpoint') ?? '',
+      appConfigurationSuffix: cloud.get<string>('appConfigurationSuffix') ?? '',
+      keyVaultSuffix: cloud.get<string>('keyVaultSuffix') ?? '',
+      appConfigurationAudience: cloud.get<string>('appConfigurationAudience') ?? '',
+      activeDirectoryEndpoint: cloud.get<string>('activeDirectoryEndpoint') ?? '',
+    },
+    auth: {
+      credential: auth.get<CredentialSource>('credential') ?? 'vscode',
+    },
+    activeProfile: '',
   };
+
+  const activeProfile = getActiveProfileName();
+  const profile = activeProfile ? getProfiles()[activeProfile] : undefined;
+  if (!profile) {
+    return base;
+  }
+
+  return { ...base, ...definedFields(profile), activeProfile };
+}
+
+/**
+ * Get all named profiles from workspace configuration.
+ */
+export function getProfiles(): Record<string, EnvironmentProfile> {
+  const config = vscode.workspace.getConfiguration(ROOT_SECTION);
+  return config.get<Record<string, EnvironmentProfile>>('profiles') ?? {};
+}
+
+/**
+ * Get the name of the active profile, or '' when the base settings are in use.
+ */
+export function getActiveProfileName(): string {
+  const config = vscode.workspace.getConfiguration(ROOT_SECTION);
+  return config.get<string>('activeProfile') ?? '';
+}
+
+/**
+ * Set the active profile. Pass '' to go back to the base settings.
+ */
+export async function setActiveProfile(name: string): Promise<void> {
+  const config = vscode.workspace.getConfiguration(ROOT_SECTION);
+  await config.update('activeProfile', name, vscode.ConfigurationTarget.Workspace);
+}
+
+/**
+ * Create or replace a named profile.
+ */
+export async function saveProfile(name: string, profile: EnvironmentProfile): Promise<void> {
+  const config = vscode.workspace.getConfiguration(ROOT_SECTION);
+  const profiles = { ...getProfiles(), [name]: profile };
+  await config.update('profiles', profiles, vscode.ConfigurationTarget.Workspace);
+}
+
+/**
+ * Build a profile holding every `azureEnv.appConfiguration.*` value of the
+ * given settings.
+ */
+export function getProfileFromSettings(settings: AzureEnvSettings): EnvironmentProfile {
+  const profile: Record<string, unknown> = {};
+  for (const field of CONNECTION_FIELDS) {
+    profile[field] = settings[field];
+  }
+  return definedFields(profile) as EnvironmentProfile;
 }
 
 /**
  * Save Azure Env settings to workspace configuration.
- * Only saves fields that are provided.
+ * Only saves fields that are provided. When a profile is active the fields
+ * are written to that profile so they are not shadowed by it.
  */
 export async function saveSettings(settings: Partial<AzureEnvSettings>): Promise<void> {
+  const activeProfile = getActiveProfileName();
+  const profile = activeProfile ? getProfiles()[activeProfile] : undefined;
+  if (profile) {
+    const fields: Partial<AzureEnvSettings> = definedFields(settings);
+    delete fields.activeProfile;
+    await saveProfile(activeProfile, { ...profile, ...fields });
+    return;
+  }
+
   const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
 
   if (settings.endpoint !== undefined) {
@@ -46,12 +226,29 @@ export async function saveSettings(settings: Partial<AzureEnvSettings>): Promise
       vscode.ConfigurationTarget.Workspace
     );
   }
+  if (settings.excludedKeys !== undefined) {
+    await config.update(
+      'excludedKeys',
+      settings.excludedKeys,
+      vscode.ConfigurationTarget.Workspace
+    );
+  }
   if (settings.label !== undefined) {
     await config.update('label', settings.label, vscode.ConfigurationTarget.Workspace);
   }
+  if (settings.overrideLabels !== undefined) {
+    await config.update(
+      'overrideLabels',
+      settings.overrideLabels,
+      vscode.ConfigurationTarget.Workspace
+    );
+  }
   if (settings.keyFilter !== undefined) {
     await config.update('keyFilter', settings.keyFilter, vscode.ConfigurationTarget.Workspace);
   }
+  if (settings.stores !== undefined) {
+    await config.update('stores', settings.stores, vscode.ConfigurationTarget.Workspace);
+  }
   if (settings.subscriptionId !== undefined) {
     await config.update('subscriptionId', settings.subscriptionId, vscode.ConfigurationTarget.Workspace);
   }
@@ -59,3 +256,143 @@ export async function saveSettings(settings: Partial<AzureEnvSettings>): Promise
     await config.update('tenantId', settings.tenantId, vscode.ConfigurationTarget.Workspace);
   }
 }
+
+/**
+ * Read the workspace connection settings and the active profile as stored,
+ * without defaults or profile values.
+ */
+export function getConnectionSnapshot(): ConnectionSnapshot {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const snapshot: Record<string, unknown> = {};
+  for (const field of CONNECTION_FIELDS) {
+    const value = config.inspect(field)?.workspaceValue;
+    if (value !== undefined) {
+      snapshot[field] = value;
+    }
+  }
+  const activeProfile = getActiveProfileName();
+  if (activeProfile) {
+    snapshot.activeProfile = activeProfile;
+  }
+  return snapshot as ConnectionSnapshot;
+}
+
+/**
+ * Remove every `azureEnv.appConfiguration.*` setting and the active profile
+ * from the workspace. Named profiles are kept.
+ */
+export async function clearConnectionSettings(): Promise<void> {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  for (const field of CONNECTION_FIELDS) {
+    await config.update(field, undefined, vscode.ConfigurationTarget.Workspace);
+  }
+  await setActiveProfile('');
+}
+
+/**
+ * Write back connection settings saved by {@link getConnectionSnapshot}.
+ */
+export async function restoreConnectionSettings(snapshot: ConnectionSnapshot): Promise<void> {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  for (const field of CONNECTION_FIELDS) {
+    if (snapshot[field] !== undefined) {
+      await config.update(field, snapshot[field], vscode.ConfigurationTarget.Workspace);
+    }
+  }
+  if (snapshot.activeProfile) {
+    await setActiveProfile(snapshot.activeProfile);
+  }
+}
+
+/**
+ * Get the ordered list of labels to resolve keys against: the base label
+ * followed by any override labels. Later labels take precedence.
+ */
+export function getLabelLayers(settings: Pick<AzureEnvSettings, 'label' | 'overrideLabels'>): string[] {
+  const layers = [settings.label, ...settings.overrideLabels];
+  return layers.filter((label, index) => layers.indexOf(label) === index);
+}
+
+/**
+ * Get every configured store in precedence order: the primary store (if an
+ * endpoint is set) followed by `stores`. Later stores win when the same
+ * variable is defined more than once. Stores without their own labels use
+ * the primary labels.
+ */
+export function getStoreSources(settings: AzureEnvSettings): StoreSource[] {
+  const sources: StoreSource[] = [];
+  if (settings.endpoint) {
+    sources.push({
+      endpoint: settings.endpoint,
+      label: settings.label,
+      overrideLabels: settings.overrideLabels,
+      selectedKeys: settings.selectedKeys,
+      excludedKeys: settings.excludedKeys,
+    });
+  }
+  for (const store of settings.stores ?? []) {
+    if (store.endpoint) {
+      sources.push({
+        ...store,
+        label: store.label ?? settings.label,
+        overrideLabels: store.overrideLabels ?? settings.overrideLabels,
+      });
+    }
+  }
+  return sources;
+}
+
+/**
+ * Display name of a store: its configured name, or the store name taken from
+ * the endpoint (`https://mystore.azconfig.io` becomes `mystore`).
+ */
+export function getStoreName(source: Pick<StoreSource, 'name' | 'endpoint'>): string {
+  if (source.name) {
+    return source.name;
+  }
+  try {
+    return new URL(source.endpoint).hostname.split('.')[0];
+  } catch {
+    return source.endpoint;
+  }
+}
+
+/**
+ * Get the settings changes that apply `update` to one store: the primary
+ * store's own settings or its entry in `stores`. Stores are matched by name,
+ * endpoint and label since several stores can share an endpoint. Pass earlier
+ * changes to update more than one store in one save.
+ */
+export function getStoreChanges(
+  settings: AzureEnvSettings,
+  source: StoreSource,
+  update: Partial<Pick<StoreSource, 'selectedKeys' | 'excludedKeys' | 'label'>>,
+  changes: Partial<AzureEnvSettings> = {}
+): Partial<AzureEnvSettings> {
+  const index = getStoreSources(settings).findIndex(
+    (candidate) =>
+      candidate.endpoint === source.endpoint &&
+      candidate.label === source.label &&
+      candidate.name === source.name
+  );
+  if (settings.endpoint && index === 0) {
+    return { ...changes, ...update };
+  }
+
+  // Sources skip stores without an endpoint, so map the position back to `stores`
+  const stores = settings.stores ?? [];
+  const storeIndexes = stores.flatMap((store, storeIndex) => (store.endpoint ? [storeIndex] : []));
+  const target = storeIndexes[settings.endpoint ? index - 1 : index];
+  return {
+    ...changes,
+    stores: (changes.stores ?? stores).map((store, storeIndex) =>
+      storeIndex === target ? { ...store, ...update } : store
+    ),
+  };
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+  ) as Partial<T>;
+}
@@ -1,5 +1,6 @@
 import { ValidationError } from '../errors';
 import type { AzureEnvSettings } from './settings';
+import { getCloudEnvironment, isCloudHost, type CloudEnvironment } from './cloud';
 
 /**
  * Result of validating settings.
@@ -9,6 +10,12 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+/**
+ * Most override labels per store. The base and override labels are sent in
+ * one label filter, which App Configuration limits to 5 values.
+ */
+export const MAX_OVERRIDE_LABELS = 4;
+
 /**
  * Validate Azure Env settings.
  * Returns validation result with any errors found.
@@ -16,7 +23,8 @@ export interface ValidationResult {
 export function validateSettings(settings: AzureEnvSettings): ValidationResult {
   const errors: ValidationError[] = [];
 
-  // Validate endpoint URL
+  // Validate endpoint URL against the App Configuration domain of the cloud
+  const cloud = getCloudEnvironment(settings.cloud);
   if (settings.endpoint) {
     try {
       const url = new URL(settings.endpoint);
@@ -25,9 +33,14 @@ export function validateSettings(settings: AzureEnvSettings): ValidationResult {
         errors.push(new ValidationError('endpoint', 'Endpoint must use HTTPS'));
       }
 
-      if (!url.hostname.endsWith('.azconfig.io')) {
+      if (!isCloudHost(url.hostname, cloud.appConfigurationSuffix)) {
         errors.push(
-          new ValidationError('endpoint', 'Endpoint must be an Azure App Configuration URL (*.azconfig.io)')
+          new ValidationError(
+            'endpoint',
+            cloud.appConfigurationSuffix
+              ? `Endpoint must be an Azure App Configuration URL (*.${cloud.appConfigurationSuffix})`
+              : 'Endpoint cannot be checked: azureEnv.cloud.appConfigurationSuffix is not set'
+          )
         );
       }
     } catch {
@@ -35,6 +48,14 @@ export function validateSettings(settings: AzureEnvSettings): ValidationResult {
     }
   }
 
+  // Validate the default vault against the Key Vault domain of the cloud
+  if (settings.keyVault?.defaultVault) {
+    const message = validateVaultUrl(settings.keyVault.defaultVault, cloud);
+    if (message) {
+      errors.push(new ValidationError('keyVault.defaultVault', message));
+    }
+  }
+
   // Validate selectedKeys
   if (settings.selectedKeys.length > 0) {
     for (let i = 0; i < settings.selectedKeys.length; i++) {
@@ -52,8 +73,14 @@ export function validateSettings(settings: AzureEnvSettings): ValidationResult {
         );
       }
 
-      // Keys cannot contain certain characters
-      if (key.includes('%') || key.includes('*') || key.includes(',') || key.includes('\\')) {
+      // Keys cannot contain certain characters; a trailing * selects a prefix
+      const keyWithoutPrefixWildcard = key.endsWith('*') ? key.slice(0, -1) : key;
+      if (
+        key.includes('%') ||
+        keyWithoutPrefixWildcard.includes('*') ||
+        key.includes(',') ||
+        key.includes('\\')
+      ) {
         errors.push(
           new ValidationError(
             'selectedKeys',
@@ -66,15 +93,32 @@ export function validateSettings(settings: AzureEnvSettings): ValidationResult {
 
   // Validate label format (optional, but if provided must be valid)
   if (settings.label) {
-    // Labels cannot contain certain characters
-    if (settings.label.includes('%') || settings.label.includes('*') || settings.label.includes(',')) {
+    errors.push(...validateLabel('label', settings.label));
+  }
+
+  // Validate override labels (empty string is the null label and is allowed)
+  for (const label of settings.overrideLabels ?? []) {
+    if (label) {
+      errors.push(...validateLabel('overrideLabels', label));
+    }
+  }
+  if ((settings.overrideLabels ?? []).length > MAX_OVERRIDE_LABELS) {
+    errors.push(
+      new ValidationError(
+        'overrideLabels',
+        `At most ${MAX_OVERRIDE_LABELS} override labels are supported`
+      )
+    );
+  }
+  for (const store of settings.stores ?? []) {
+    if ((store.overrideLabels ?? []).length > MAX_OVERRIDE_LABELS) {
       errors.push(
-        new ValidationError('label', 'Label contains invalid characters (%, *, or ,)')
+        new ValidationError(
+          'stores',
+          `Store ${store.name ?? store.endpoint} has more than ${MAX_OVERRIDE_LABELS} override labels`
+        )
       );
     }
-    if (settings.label.length > 256) {
-      errors.push(new ValidationError('label', 'Label exceeds maximum length of 256 characters'));
-    }
   }
 
   return {
@@ -83,6 +127,41 @@ export function validateSettings(settings: AzureEnvSettings): ValidationResult {
   };
 }
 
+/**
+ * Check a Key Vault URL against the Key Vault domain of the cloud.
+ *
+ * @returns The problem with the URL, or undefined when it is valid
+ */
+export function validateVaultUrl(vaultUrl: string, cloud: CloudEnvironment): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(vaultUrl);
+  } catch {
+    return 'Invalid Key Vault URL format';
+  }
+  if (url.protocol !== 'https:') {
+    return 'Key Vault URL must use HTTPS';
+  }
+  if (!isCloudHost(url.hostname, cloud.keyVaultSuffix)) {
+    return cloud.keyVaultSuffix
+      ? `Key Vault URL must be an Azure Key Vault URL (*.${cloud.keyVaultSuffix})`
+      : 'Key Vault URL cannot be checked: azureEnv.cloud.keyVaultSuffix is not set';
+  }
+  return undefined;
+}
+
+function validateLabel(field: string, label: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  // Labels cannot contain certain characters
+  if (label.includes('%') || label.includes('*') || label.includes(',')) {
+    errors.push(new ValidationError(field, 'Label contains invalid characters (%, *, or ,)'));
+  }
+  if (label.length > 256) {
+    errors.push(new ValidationError(field, 'Label exceeds maximum length of 256 characters'));
+  }
+  return errors;
+}
+
 /**
  * Check if settings are configured (have required fields).
  */
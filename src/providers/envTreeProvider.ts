@@ -1,10 +1,17 @@
 import * as vscode from 'vscode';
 import { EnvTreeItem } from '../models/envTreeItem';
 import {
+  buildErrorNodes,
   buildKeyHierarchy,
+  buildMissingKeyNodes,
+  buildStoreHierarchy,
+  buildWarningNodes,
   type ConfigValueEntry,
+  type KeyError,
   type KeyHierarchyNode,
+  type MissingKey,
 } from '../models/keyHierarchy';
+import type { EnvVarWarning } from '../models/configValue';
 
 export class EnvTreeProvider
   implements vscode.TreeDataProvider<KeyHierarchyNode>, vscode.Disposable
@@ -15,9 +22,60 @@ export class EnvTreeProvider
   readonly onDidChangeTreeData = this.emitter.event;
 
   getTreeItem(element: KeyHierarchyNode): vscode.TreeItem {
+    // Top-level store grouping
+    if (element.kind === 'store') {
+      const storeItem = new vscode.TreeItem(element.label, element.collapsibleState);
+      storeItem.description = element.description;
+      storeItem.iconPath = new vscode.ThemeIcon('database');
+      storeItem.contextValue = 'store';
+      return storeItem;
+    }
+
+    // Top-level naming warning
+    if (element.kind === 'warning') {
+      const warningItem = new vscode.TreeItem(element.label, element.collapsibleState);
+      warningItem.description = element.description;
+      warningItem.tooltip = element.tooltip;
+      warningItem.iconPath = new vscode.ThemeIcon('warning');
+      warningItem.contextValue = 'warning';
+      return warningItem;
+    }
+
+    // Top-level key that failed to resolve, with a fix when one is known
+    if (element.kind === 'error') {
+      const errorItem = new vscode.TreeItem(element.label, element.collapsibleState);
+      errorItem.description = element.description;
+      errorItem.tooltip = element.tooltip;
+      errorItem.iconPath = new vscode.ThemeIcon('error');
+      errorItem.contextValue = element.remediation ? 'fixableError' : 'error';
+      return errorItem;
+    }
+
+    // Top-level selected key that the store no longer has
+    if (element.kind === 'missing') {
+      const missingItem = new vscode.TreeItem(element.label, element.collapsibleState);
+      missingItem.description = element.description;
+      missingItem.tooltip = element.tooltip;
+      missingItem.iconPath = new vscode.ThemeIcon('warning');
+      missingItem.contextValue = 'missingKey';
+      return missingItem;
+    }
+
     // Leaf node with value (no children)
     if (element.isValue && element.children.length === 0) {
-      const item = new EnvTreeItem(element.key, element.value ?? '', element.isSecret ?? false);
+      const item = new EnvTreeItem(
+        element.key,
+        element.value ?? '',
+        element.isSecret ?? false,
+        vscode.TreeItemCollapsibleState.None,
+        {
+          envVar: element.envVar,
+          sourceLabel: element.sourceLabel,
+          overriddenBy: element.overriddenBy,
+          stale: element.stale,
+          cached: element.cached,
+        }
+      );
       item.label = element.label;
       return item;
     }
@@ -25,6 +83,7 @@ export class EnvTreeProvider
     // Folder node (may also have its own value)
     const item = new vscode.TreeItem(element.label, element.collapsibleState);
     item.description = element.description;
+    item.contextValue = 'folder';
 
     // Folder that also has a value - use EnvTreeItem with collapsible state
     if (element.isValue && element.children.length > 0) {
@@ -32,7 +91,14 @@ export class EnvTreeProvider
         element.key,
         element.value ?? '',
         element.isSecret ?? false,
-        element.collapsibleState
+        element.collapsibleState,
+        {
+          envVar: element.envVar,
+          sourceLabel: element.sourceLabel,
+          overriddenBy: element.overriddenBy,
+          stale: element.stale,
+          cached: element.cached,
+        }
       );
       folderItem.label = element.label;
       return folderItem;
@@ -48,12 +114,37 @@ export class EnvTreeProvider
     return element.children;
   }
 
-  setData(entries: ConfigValueEntry[]): void {
-    this.rootNodes = buildKeyHierarchy(entries);
+  /**
+   * Replace the tree contents. When more than one store is given, entries are
+   * grouped under a top-level node per store. Keys that failed are listed
+   * first, then warnings, then selected keys missing from their store.
+   */
+  setData(
+    entries: ConfigValueEntry[],
+    storeNames: string[] = [],
+    warnings: EnvVarWarning[] = [],
+    missing: MissingKey[] = [],
+    errors: KeyError[] = []
+  ): void {
+    this.rootNodes = [
+      ...buildErrorNodes(errors),
+      ...buildWarningNodes(warnings),
+      ...buildMissingKeyNodes(missing),
+      ...(storeNames.length > 1
+        ? buildStoreHierarchy(entries, storeNames)
+        : buildKeyHierarchy(entries)),
+    ];
     void vscode.commands.executeCommand('setContext', 'azureEnv.configured', true);
     this.emitter.fire(undefined);
   }
 
+  /**
+   * Redraw a node whose value was changed in place.
+   */
+  refreshNode(node: KeyHierarchyNode): void {
+    this.emitter.fire(node);
+  }
+
   clear(): void {
     this.rootNodes = [];
     void vscode.commands.executeCommand('setContext', 'azureEnv.configured', false);
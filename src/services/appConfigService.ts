@@ -2,14 +2,20 @@ import { AppConfigurationClient, ConfigurationSetting } from '@azure/app-configu
 import type { TokenCredential } from '@azure/identity';
 import {
   AppConfigError,
+  SettingConflictError,
+  SettingExistsError,
   RateLimitError,
+  AuthenticationError,
   isRateLimitError,
   extractRetryAfter,
 } from '../errors';
+import { RetryScheduler, type RetryCancellation } from '../utils/retryScheduler';
 
 export interface ListSettingsOptions {
   keyFilter?: string;
   labelFilter?: string;
+  /** Stops waiting to retry the request once cancelled */
+  cancellationToken?: RetryCancellation;
 }
 
 export interface SettingResult {
@@ -20,19 +26,76 @@ export interface SettingResult {
   error?: Error;
 }
 
+export interface SetSettingOptions {
+  contentType?: string;
+  tags?: Record<string, string>;
+  /** Only write when the setting still has this etag */
+  etag?: string;
+  /** Only write when no setting exists at the key and label yet */
+  onlyIfNew?: boolean;
+}
+
+export interface AppConfigServiceOptions {
+  /** Scheduler shared by every request to App Configuration */
+  scheduler?: RetryScheduler;
+}
+
+/** Maximum number of comma-separated values App Configuration accepts in one filter */
+export const MAX_FILTER_VALUES = 5;
+
+/**
+ * Escape the characters App Configuration treats specially in filters.
+ */
+function escapeFilterValue(value: string): string {
+  return value.replace(/[\\,*]/g, (match) => `\\${match}`);
+}
+
+/**
+ * Build a key filter that matches the given keys exactly.
+ *
+ * @example
+ * buildKeyFilter(['App/Host', 'App/Port']) // 'App/Host,App/Port'
+ */
+export function buildKeyFilter(keys: string[]): string {
+  return keys.map(escapeFilterValue).join(',');
+}
+
+/**
+ * Build a key filter that matches every key starting with the given prefix.
+ *
+ * @example
+ * buildPrefixFilter('App/Db/') // 'App/Db/*'
+ */
+export function buildPrefixFilter(prefix: string): string {
+  return `${escapeFilterValue(prefix)}*`;
+}
+
+/**
+ * Build a label filter for the given labels, where '' selects the null label.
+ *
+ * @example
+ * buildLabelFilter(['dev', '']) // 'dev,\0'
+ */
+export function buildLabelFilter(labels: string[]): string {
+  return labels.map((label) => (label ? escapeFilterValue(label) : '\0')).join(',');
+}
+
 /**
  * Service for interacting with Azure App Configuration.
  */
 export class AppConfigService {
   private client: AppConfigurationClient;
+  private scheduler: RetryScheduler;
 
-  constructor(endpoint: string, credential: TokenCredential) {
+  constructor(
+    endpoint: string,
+    credential: TokenCredential,
+    options: AppConfigServiceOptions = {}
+  ) {
+    this.scheduler = options.scheduler ?? new RetryScheduler();
+    // The scheduler owns retries, so a throttled request is not retried by both
     this.client = new AppConfigurationClient(endpoint, credential, {
-      retryOptions: {
-        maxRetries: 3,
-        retryDelayInMs: 1000,
-        maxRetryDelayInMs: 10000,
-      },
+      retryOptions: { maxRetries: 0 },
     });
   }
 
@@ -40,6 +103,10 @@ export class AppConfigService {
    * List configuration settings with optional key and label filters.
    */
   async listSettings(options: ListSettingsOptions): Promise<ConfigurationSetting[]> {
+    return this.scheduler.run(() => this.fetchSettings(options), options.cancellationToken);
+  }
+
+  private async fetchSettings(options: ListSettingsOptions): Promise<ConfigurationSetting[]> {
     try {
       const settings: ConfigurationSetting[] = [];
       for await (const setting of this.client.listConfigurationSettings({
@@ -50,6 +117,10 @@ export class AppConfigService {
       }
       return settings;
     } catch (error) {
+      // The credential could not get a token; report it as is
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
       if (isRateLimitError(error)) {
         throw new RateLimitError('AppConfig', extractRetryAfter(error), error as Error);
       }
@@ -87,12 +158,19 @@ export class AppConfigService {
    * Get a single configuration setting by key.
    */
   async getSetting(key: string, label: string): Promise<ConfigurationSetting> {
+    return this.scheduler.run(() => this.fetchSetting(key, label));
+  }
+
+  private async fetchSetting(key: string, label: string): Promise<ConfigurationSetting> {
     try {
       return await this.client.getConfigurationSetting({
         key,
         label: label || undefined,
       });
     } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
       if (isRateLimitError(error)) {
         throw new RateLimitError('AppConfig', extractRetryAfter(error), error as Error);
       }
@@ -114,6 +192,108 @@ export class AppConfigService {
     }
   }
 
+  /**
+   * Create or replace a configuration setting. Pass '' as the label for the null label.
+   * With an etag, the write fails with SettingConflictError if the setting changed since.
+   * With onlyIfNew, it fails with SettingExistsError if the setting already exists.
+   */
+  async setSetting(
+    key: string,
+    value: string,
+    label: string,
+    options: SetSettingOptions = {}
+  ): Promise<ConfigurationSetting> {
+    return this.scheduler.run(() => this.storeSetting(key, value, label, options));
+  }
+
+  private async storeSetting(
+    key: string,
+    value: string,
+    label: string,
+    options: SetSettingOptions
+  ): Promise<ConfigurationSetting> {
+    const setting = {
+      key,
+      value,
+      label: label || undefined,
+      contentType: options.contentType,
+      ...(options.tags && { tags: options.tags }),
+    };
+    try {
+      if (options.onlyIfNew) {
+        return await this.client.addConfigurationSetting(setting);
+      }
+      return await (options.etag
+        ? this.client.setConfigurationSetting(
+            { ...setting, etag: options.etag },
+            { onlyIfUnchanged: true }
+          )
+        : this.client.setConfigurationSetting(setting));
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      if (isRateLimitError(error)) {
+        throw new RateLimitError('AppConfig', extractRetryAfter(error), error as Error);
+      }
+      const err = error as Error & { code?: string; statusCode?: number };
+      if (err.statusCode === 412) {
+        throw options.onlyIfNew
+          ? new SettingExistsError(key, label, err)
+          : new SettingConflictError(key, label, err);
+      }
+      const details = [
+        err.message,
+        err.code ? `code=${err.code}` : '',
+        err.statusCode ? `status=${err.statusCode}` : '',
+        `label="${label || '(none)'}"`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      throw new AppConfigError(
+        `Failed to set setting: ${key} (${details})`,
+        key,
+        label,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Delete a configuration setting. Pass '' as the label for the null label.
+   */
+  async deleteSetting(key: string, label: string): Promise<void> {
+    return this.scheduler.run(() => this.removeSetting(key, label));
+  }
+
+  private async removeSetting(key: string, label: string): Promise<void> {
+    try {
+      await this.client.deleteConfigurationSetting({ key, label: label || undefined });
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      if (isRateLimitError(error)) {
+        throw new RateLimitError('AppConfig', extractRetryAfter(error), error as Error);
+      }
+      const err = error as Error & { code?: string; statusCode?: number };
+      const details = [
+        err.message,
+        err.code ? `code=${err.code}` : '',
+        err.statusCode ? `status=${err.statusCode}` : '',
+        `label="${label || '(none)'}"`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      throw new AppConfigError(
+        `Failed to delete setting: ${key} (${details})`,
+        key,
+        label,
+        error as Error
+      );
+    }
+  }
+
   /**
    * Get multiple configuration settings by keys.
    * Returns PromiseSettledResult array to handle partial failures.
@@ -1,15 +1,32 @@
+import type { AuthenticationSessionAccountInformation, Memento } from 'vscode';
 import {
   VSCodeAzureSubscriptionProvider,
+  AzureAuthentication,
   AzureSubscription,
+  AzureTenant,
+  getSessionFromVSCode,
+  getUnauthenticatedTenants,
 } from '@microsoft/vscode-azext-azureauth';
+import { AuthenticationError } from '../errors';
+
+/**
+ * A Microsoft account signed in to VS Code.
+ */
+export type AzureAccount = AuthenticationSessionAccountInformation;
+
+/** workspaceState key for the account chosen during connect */
+const ACCOUNT_KEY = 'azureEnv.account';
 
 /**
  * Service for handling Azure authentication via VS Code's built-in Microsoft auth.
+ * Several accounts may be signed in at once; the one chosen during connect is
+ * kept in workspace state, so it stays on this machine and out of the
+ * shared settings.
  */
 export class AuthService {
   private provider: VSCodeAzureSubscriptionProvider;
 
-  constructor() {
+  constructor(private readonly state?: Pick<Memento, 'get' | 'update'>) {
     this.provider = new VSCodeAzureSubscriptionProvider();
   }
 
@@ -28,12 +45,132 @@ export class AuthService {
   }
 
   /**
-   * Get list of Azure subscriptions the user has access to.
+   * Check whether the user is signed in, without prompting.
+   */
+  async isSignedIn(): Promise<boolean> {
+    return this.provider.isSignedIn();
+  }
+
+  /**
+   * Sign in again even when a session exists, e.g. after a token was
+   * revoked. Pass a tenant to sign in to that tenant specifically, e.g. one
+   * that requires its own MFA, and an account to sign in with. Without an
+   * account VS Code shows its account picker, which can add another account.
+   *
+   * @returns true if signed in, false if sign-in was cancelled
+   */
+  async signIn(tenantId?: string, account?: AzureAccount): Promise<boolean> {
+    return this.provider.signIn(tenantId, account);
+  }
+
+  /**
+   * Get list of Azure subscriptions the user has access to, across every
+   * signed-in account.
    */
   async getSubscriptions(): Promise<AzureSubscription[]> {
     return this.provider.getSubscriptions(false);
   }
 
+  /**
+   * Get the tenants of every signed-in account.
+   */
+  async getTenants(): Promise<AzureTenant[]> {
+    return this.provider.getTenants();
+  }
+
+  /**
+   * Get the tenants that need their own sign-in (e.g. for MFA) before their
+   * subscriptions are listed.
+   */
+  async getUnauthenticatedTenants(): Promise<AzureTenant[]> {
+    return getUnauthenticatedTenants(this.provider);
+  }
+
+  /**
+   * Get the account chosen during connect, if any.
+   */
+  getSavedAccount(): AzureAccount | undefined {
+    return this.state?.get<AzureAccount>(ACCOUNT_KEY);
+  }
+
+  /**
+   * Remember the account chosen during connect. Pass undefined when
+   * connecting without one.
+   */
+  async saveAccount(account?: AzureAccount): Promise<void> {
+    await this.state?.update(
+      ACCOUNT_KEY,
+      account ? { id: account.id, label: account.label } : undefined
+    );
+  }
+
+  /**
+   * Find the subscription saved during connect, as seen by the saved account.
+   * Never falls back to another account or tenant. Settings saved before the
+   * account was remembered are matched when exactly one account can use them,
+   * and that account is saved.
+   *
+   * @throws AuthenticationError with reason `account_mismatch` when the saved
+   * account or subscription is not available
+   */
+  async findSubscription(subscriptionId: string, tenantId: string): Promise<AzureSubscription> {
+    const account = this.getSavedAccount();
+    const matches = (await this.getSubscriptions()).filter(
+      (s) => s.subscriptionId === subscriptionId && s.tenantId === tenantId
+    );
+
+    if (account) {
+      const match = matches.find((s) => s.account.id === account.id);
+      if (match) {
+        return match;
+      }
+      const message = (await this.provider.isSignedIn(undefined, account))
+        ? `The account ${account.label} used during connect cannot access subscription ${subscriptionId} in tenant ${tenantId}. Sign in to the tenant or run "Azure Env: Connect" again.`
+        : `The account ${account.label} used during connect is no longer signed in to VS Code. Sign in with it again or run "Azure Env: Connect" again.`;
+      throw new AuthenticationError(message, 'account_mismatch');
+    }
+
+    if (matches.length === 1) {
+      await this.saveAccount(matches[0].account);
+      return matches[0];
+    }
+    throw new AuthenticationError(
+      matches.length === 0
+        ? `No signed-in account can access subscription ${subscriptionId} in tenant ${tenantId}. Sign in or run "Azure Env: Connect" again.`
+        : `Several signed-in accounts can access subscription ${subscriptionId}. Run "Azure Env: Connect" again to choose one.`,
+      'account_mismatch'
+    );
+  }
+
+  /**
+   * Get the account VS Code picks for Azure sessions when none is named,
+   * without prompting.
+   */
+  async getDefaultAccount(): Promise<AzureAccount | undefined> {
+    return (await getSessionFromVSCode([], undefined, { silent: true }))?.account;
+  }
+
+  /**
+   * Get sessions for a signed-in account without going through a
+   * subscription, for users whose only access is a data-plane role on a
+   * store. Pass a tenant to get tokens issued by that tenant. Without an
+   * account VS Code picks one of the signed-in accounts.
+   */
+  getAccountAuthentication(tenantId?: string, account?: AzureAccount): AzureAuthentication {
+    return {
+      getSession: () => getSessionFromVSCode([], tenantId, { silent: true, account }),
+      // A challenge may need the user to step up (e.g. MFA), so it may prompt
+      getSessionWithScopes: (scopeListOrRequest) =>
+        getSessionFromVSCode(
+          scopeListOrRequest,
+          tenantId,
+          Array.isArray(scopeListOrRequest)
+            ? { silent: true, account }
+            : { createIfNone: true, account }
+        ),
+    };
+  }
+
   /**
    * Get the underlying subscription provider for disposal.
    */
@@ -1,21 +1,48 @@
 import { SecretClient } from '@azure/keyvault-secrets';
 import type { TokenCredential } from '@azure/identity';
-import { parseKeyVaultSecretUri } from '../models/configValue';
+import { parseKeyVaultSecretUri, type KeyVaultSecretInfo } from '../models/configValue';
+import type { CloudEnvironment } from '../models/cloud';
 import {
   KeyVaultError,
   RateLimitError,
+  AuthenticationError,
   isRateLimitError,
   extractRetryAfter,
 } from '../errors';
+import type { TtlCache } from '../utils/ttlCache';
+import { RetryScheduler, type RetryCancellation } from '../utils/retryScheduler';
+
+export interface KeyVaultServiceOptions {
+  /** Cache of secret values shared across service instances (and refreshes) */
+  cache?: TtlCache<string>;
+  /** Scheduler shared by every request to Key Vault */
+  scheduler?: RetryScheduler;
+  /** Cloud whose Key Vault domain secret URIs must be in; the public cloud by default */
+  cloud?: CloudEnvironment;
+}
+
+export interface ResolvedSecret {
+  value: string;
+  /** Whether the value came from the shared cache instead of Key Vault */
+  fromCache: boolean;
+}
 
 /**
  * Service for resolving secrets from Azure Key Vault.
- * Caches SecretClient instances per vault URL for efficiency.
+ * Caches SecretClient instances per vault URL for efficiency, and resolves
+ * each distinct secret (vault, name and version) at most once per instance.
  */
 export class KeyVaultService {
   private clients = new Map<string, SecretClient>();
+  private pending = new Map<string, Promise<ResolvedSecret>>();
+  private scheduler: RetryScheduler;
 
-  constructor(private credential: TokenCredential) {}
+  constructor(
+    private credential: TokenCredential,
+    private options: KeyVaultServiceOptions = {}
+  ) {
+    this.scheduler = options.scheduler ?? new RetryScheduler();
+  }
 
   /**
    * Get or create a SecretClient for the given vault URL.
@@ -23,12 +50,9 @@ export class KeyVaultService {
   private getClient(vaultUrl: string): SecretClient {
     let client = this.clients.get(vaultUrl);
     if (!client) {
+      // The scheduler owns retries, so a throttled request is not retried by both
       client = new SecretClient(vaultUrl, this.credential, {
-        retryOptions: {
-          maxRetries: 3,
-          retryDelayInMs: 1000,
-          maxRetryDelayInMs: 10000,
-        },
+        retryOptions: { maxRetries: 0 },
       });
       this.clients.set(vaultUrl, client);
     }
@@ -42,21 +66,112 @@ export class KeyVaultService {
    * @returns The secret value
    */
   async resolveSecret(uri: string): Promise<string> {
+    return (await this.resolveSecretDetails(uri)).value;
+  }
+
+  /**
+   * Resolve a secret and report whether it was served from the cache.
+   * References to the same secret share a single request. Cancelling stops
+   * waiting to retry that request.
+   */
+  async resolveSecretDetails(
+    uri: string,
+    cancellationToken?: RetryCancellation
+  ): Promise<ResolvedSecret> {
+    let secret: KeyVaultSecretInfo;
     try {
-      const { vaultUrl, secretName, version } = parseKeyVaultSecretUri(uri);
-      const client = this.getClient(vaultUrl);
-      const secret = await client.getSecret(secretName, { version });
-      return secret.value ?? '';
+      secret = parseKeyVaultSecretUri(uri, this.options.cloud);
     } catch (error) {
-      // Re-throw if already a typed error (e.g., from parseKeyVaultSecretUri)
-      if (error instanceof KeyVaultError) {
-        throw error;
-      }
-      if (isRateLimitError(error)) {
-        throw new RateLimitError('KeyVault', extractRetryAfter(error), error as Error);
-      }
       throw new KeyVaultError(`Failed to resolve secret: ${uri}`, uri, error as Error);
     }
+
+    const secretId = getSecretId(secret.vaultUrl, secret.secretName, secret.version);
+    let pending = this.pending.get(secretId);
+    if (!pending) {
+      pending = this.fetchSecret(uri, secretId, secret, cancellationToken);
+      this.pending.set(secretId, pending);
+    }
+    return pending;
+  }
+
+  private async fetchSecret(
+    uri: string,
+    secretId: string,
+    { vaultUrl, secretName, version }: KeyVaultSecretInfo,
+    cancellationToken?: RetryCancellation
+  ): Promise<ResolvedSecret> {
+    const cached = this.options.cache?.get(secretId);
+    if (cached !== undefined) {
+      return { value: cached, fromCache: true };
+    }
+
+    const value = await this.scheduler.run(async () => {
+      try {
+        const secret = await this.getClient(vaultUrl).getSecret(secretName, { version });
+        return secret.value ?? '';
+      } catch (error) {
+        // The credential could not get a token; report it as is
+        if (error instanceof AuthenticationError) {
+          throw error;
+        }
+        if (isRateLimitError(error)) {
+          throw new RateLimitError('KeyVault', extractRetryAfter(error), error as Error);
+        }
+        throw new KeyVaultError(`Failed to resolve secret: ${uri}`, uri, error as Error);
+      }
+    }, cancellationToken);
+    this.options.cache?.set(secretId, value);
+    return { value, fromCache: false };
+  }
+
+  /**
+   * Check whether a secret with this name exists in the vault.
+   */
+  async secretExists(vaultUrl: string, secretName: string): Promise<boolean> {
+    const secretUri = `${vaultUrl.replace(/\/+$/, '')}/secrets/${secretName}`;
+    return this.scheduler.run(async () => {
+      try {
+        await this.getClient(vaultUrl).getSecret(secretName);
+        return true;
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          throw error;
+        }
+        if (isRateLimitError(error)) {
+          throw new RateLimitError('KeyVault', extractRetryAfter(error), error as Error);
+        }
+        if ((error as { statusCode?: number }).statusCode === 404) {
+          return false;
+        }
+        throw new KeyVaultError(`Failed to get secret: ${secretUri}`, secretUri, error as Error);
+      }
+    });
+  }
+
+  /**
+   * Create a secret, or add a new version of an existing one.
+   *
+   * @returns The versionless secret URI, so references always use the latest version
+   */
+  async setSecret(vaultUrl: string, secretName: string, value: string): Promise<string> {
+    const secretUri = `${vaultUrl.replace(/\/+$/, '')}/secrets/${secretName}`;
+    await this.scheduler.run(async () => {
+      try {
+        await this.getClient(vaultUrl).setSecret(secretName, value);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          throw error;
+        }
+        if (isRateLimitError(error)) {
+          throw new RateLimitError('KeyVault', extractRetryAfter(error), error as Error);
+        }
+        throw new KeyVaultError(`Failed to set secret: ${secretUri}`, secretUri, error as Error);
+      }
+    });
+
+    // The cached latest value is out of date now
+    this.options.cache?.delete(getSecretId(new URL(vaultUrl).origin, secretName));
+    return secretUri;
   }
 
   /**
@@ -67,3 +182,11 @@ export class KeyVaultService {
     return Promise.allSettled(uris.map((uri) => this.resolveSecret(uri)));
   }
 }
+
+/**
+ * Identify a secret version for deduplication and caching. Vault and secret
+ * names are case-insensitive; '' stands for the latest version.
+ */
+function getSecretId(vaultUrl: string, secretName: string, version?: string): string {
+  return `${vaultUrl}/${secretName}/${version ?? ''}`.toLowerCase();
+}
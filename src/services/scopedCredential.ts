@@ -1,32 +1,104 @@
-import type { AccessToken, GetTokenOptions, TokenCredential } from '@azure/identity';
+import type { AccessToken, GetTokenOptions } from '@azure/identity';
 import type { AzureSubscription } from '@microsoft/vscode-azext-azureauth';
+import { AZURE_PUBLIC_CLOUD, toCloudScope, type CloudEnvironment } from '../models/cloud';
+import { AuthenticationError } from '../errors';
+import { decodeAccessToken } from '../utils/jwt';
+import { CREDENTIAL_SOURCE_LABELS, type IdentityCredential } from './sourceCredential';
+
+/** Tokens are renewed this long before they expire */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+/** Lifetime assumed for a token whose expiry cannot be read */
+const DEFAULT_LIFETIME_MS = 60 * 60 * 1000;
 
 /**
  * A TokenCredential that uses VS Code's authentication with specific scopes.
  * This is needed because the default credential uses management.azure.com scope,
  * but data plane access (App Configuration, Key Vault) requires service-specific scopes.
+ * Public cloud scopes requested by the Azure SDKs are translated to the configured cloud.
+ * Sessions come from a subscription, or from the signed-in account when connected by endpoint.
+ *
+ * Tokens are cached per scope set until shortly before the expiry in the
+ * token, so the clients of one refresh share a single session request.
  */
-export class ScopedCredential implements TokenCredential {
-  constructor(private subscription: AzureSubscription) {}
+export class ScopedCredential implements IdentityCredential {
+  private account?: string;
+  private tokens = new Map<string, AccessToken>();
+  private pending = new Map<string, Promise<AccessToken>>();
+
+  constructor(
+    private subscription: Pick<AzureSubscription, 'authentication'>,
+    private cloud: CloudEnvironment = AZURE_PUBLIC_CLOUD
+  ) {}
+
+  /**
+   * Get a token for the scopes, silently.
+   *
+   * @throws AuthenticationError with reason `session_expired` when no session
+   * can be had without signing in again
+   */
+  async getToken(scopes: string | string[], _options?: GetTokenOptions): Promise<AccessToken> {
+    const scopeArray = (Array.isArray(scopes) ? scopes : [scopes]).map((scope) =>
+      toCloudScope(scope, this.cloud)
+    );
+    const key = [...scopeArray].sort().join(' ');
 
-  async getToken(
-    scopes: string | string[],
-    _options?: GetTokenOptions
-  ): Promise<AccessToken | null> {
-    const scopeArray = Array.isArray(scopes) ? scopes : [scopes];
+    const cached = this.tokens.get(key);
+    if (cached && (cached.refreshAfterTimestamp ?? 0) > Date.now()) {
+      return cached;
+    }
 
-    const session = await this.subscription.authentication.getSessionWithScopes(scopeArray);
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.acquireToken(scopeArray).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
 
+    try {
+      const token = await pending;
+      this.tokens.set(key, token);
+      return token;
+    } catch (error) {
+      // A token due for renewal is still usable until it expires
+      if (cached && cached.expiresOnTimestamp > Date.now()) {
+        return cached;
+      }
+      this.tokens.delete(key);
+      throw error;
+    }
+  }
+
+  getIdentity(): string {
+    const label = CREDENTIAL_SOURCE_LABELS.vscode;
+    return this.account ? `${this.account} (${label})` : label;
+  }
+
+  private async acquireToken(scopes: string[]): Promise<AccessToken> {
+    let session;
+    try {
+      session = await this.subscription.authentication.getSessionWithScopes(scopes);
+    } catch (error) {
+      throw new AuthenticationError(
+        `Failed to get a token for ${scopes.join(', ')}: ${(error as Error).message}`,
+        'session_expired',
+        error as Error
+      );
+    }
     if (!session) {
-      return null;
+      throw new AuthenticationError(
+        `No session for ${scopes.join(', ')}; sign-in is required`,
+        'session_expired'
+      );
     }
+    this.account = session.account.label;
 
-    // VS Code sessions don't provide expiration, use a reasonable default
-    const expiresOnTimestamp = Date.now() + 3600 * 1000; // 1 hour from now
+    // VS Code sessions don't provide expiration; read it from the token when it is a JWT
+    const exp = decodeAccessToken(session.accessToken)?.exp;
+    const expiresOnTimestamp = exp ? exp * 1000 : Date.now() + DEFAULT_LIFETIME_MS;
 
     return {
       token: session.accessToken,
       expiresOnTimestamp,
+      refreshAfterTimestamp: expiresOnTimestamp - REFRESH_MARGIN_MS,
     };
   }
 }
@@ -0,0 +1,140 @@
+import {
+  AzureCliCredential,
+  DeviceCodeCredential,
+  EnvironmentCredential,
+  WorkloadIdentityCredential,
+  type AccessToken,
+  type DeviceCodeInfo,
+  type GetTokenOptions,
+  type TokenCredential,
+} from '@azure/identity';
+import { toCloudScope, type CloudEnvironment } from '../models/cloud';
+import type { CredentialSource } from '../models/settings';
+import { AuthenticationError } from '../errors';
+import { decodeAccessToken, describeTokenIdentity } from '../utils/jwt';
+
+/**
+ * A credential that can tell who its tokens are issued to, for display.
+ */
+export interface IdentityCredential extends TokenCredential {
+  /** The signed-in identity and where it comes from, e.g. `me@contoso.com (Azure CLI)` */
+  getIdentity(): string;
+}
+
+export const CREDENTIAL_SOURCE_LABELS: Record<CredentialSource, string> = {
+  vscode: 'VS Code account',
+  azureCli: 'Azure CLI',
+  environment: 'environment variables',
+  deviceCode: 'device code',
+};
+
+export interface SourceCredentialOptions {
+  cloud: CloudEnvironment;
+  /** Tenant to request tokens from; the source's default tenant when unset */
+  tenantId?: string;
+  /** Show the code and URL of a device code sign-in */
+  onDeviceCode: (info: DeviceCodeInfo) => void;
+}
+
+/**
+ * A credential from a source other than the VS Code account. Public cloud
+ * scopes are translated to the configured cloud, and the identity is read
+ * from the issued tokens.
+ */
+export class SourceCredential implements IdentityCredential {
+  private identity?: string;
+
+  constructor(
+    private readonly inner: TokenCredential,
+    private readonly source: CredentialSource,
+    private readonly cloud: CloudEnvironment
+  ) {}
+
+  /**
+   * Get a token for the scopes from the source.
+   *
+   * @throws AuthenticationError with reason `not_signed_in` when the source
+   * has no identity (e.g. the Azure CLI is signed out), or `session_expired`
+   * when its sign-in must be renewed
+   */
+  async getToken(
+    scopes: string | string[],
+    options?: GetTokenOptions
+  ): Promise<AccessToken | null> {
+    const scopeArray = (Array.isArray(scopes) ? scopes : [scopes]).map((scope) =>
+      toCloudScope(scope, this.cloud)
+    );
+    let token: AccessToken | null;
+    try {
+      token = await this.inner.getToken(scopeArray, options);
+    } catch (error) {
+      throw this.toAuthenticationError(error);
+    }
+    const claims = token ? decodeAccessToken(token.token) : undefined;
+    this.identity = (claims && describeTokenIdentity(claims)) ?? this.identity;
+    return token;
+  }
+
+  getIdentity(): string {
+    const label = CREDENTIAL_SOURCE_LABELS[this.source];
+    return this.identity ? `${this.identity} (${label})` : label;
+  }
+
+  /**
+   * Report a missing or expired sign-in as AuthenticationError, so a refresh
+   * stops with one sign-in prompt instead of failing every key. Other errors
+   * are passed on as they are.
+   */
+  private toAuthenticationError(error: unknown): unknown {
+    const { name, message } = error as Error;
+    const label = CREDENTIAL_SOURCE_LABELS[this.source];
+    if (name === 'CredentialUnavailableError') {
+      return new AuthenticationError(
+        `No ${label} identity is available: ${message}`,
+        'not_signed_in',
+        error as Error
+      );
+    }
+    if (name === 'AuthenticationRequiredError') {
+      return new AuthenticationError(
+        `The ${label} sign-in must be renewed: ${message}`,
+        'session_expired',
+        error as Error
+      );
+    }
+    return error;
+  }
+}
+
+/**
+ * Create the credential for a source other than the VS Code account.
+ * Environment variables hold a service principal (`AZURE_CLIENT_SECRET` or
+ * `AZURE_CLIENT_CERTIFICATE_PATH`) or, when `AZURE_FEDERATED_TOKEN_FILE` is
+ * set, a workload identity.
+ */
+export function createSourceCredential(
+  source: Exclude<CredentialSource, 'vscode'>,
+  options: SourceCredentialOptions
+): SourceCredential {
+  const authorityHost = options.cloud.activeDirectoryEndpoint || undefined;
+  let inner: TokenCredential;
+  switch (source) {
+    case 'azureCli':
+      // The CLI signs in to the cloud selected with `az cloud set`
+      inner = new AzureCliCredential({ tenantId: options.tenantId });
+      break;
+    case 'environment':
+      inner = process.env.AZURE_FEDERATED_TOKEN_FILE
+        ? new WorkloadIdentityCredential({ authorityHost })
+        : new EnvironmentCredential({ authorityHost });
+      break;
+    case 'deviceCode':
+      inner = new DeviceCodeCredential({
+        tenantId: options.tenantId || 'organizations',
+        authorityHost,
+        userPromptCallback: options.onDeviceCode,
+      });
+      break;
+  }
+  return new SourceCredential(inner, source, options.cloud);
+}
@@ -3,12 +3,7 @@ import * as vscode from 'vscode';
 /**
  * Connection state for the status bar display.
  */
-export type ConnectionState =
-  | 'disconnected'
-  | 'connecting'
-  | 'connected'
-  | 'error'
-  | 'refreshing';
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error' | 'refreshing';
 
 /**
  * Manages the status bar item for Azure Env extension.
@@ -18,12 +13,12 @@ export class StatusBarManager implements vscode.Disposable {
   private readonly statusBarItem: vscode.StatusBarItem;
   private state: ConnectionState = 'disconnected';
   private detail?: string;
+  private profile?: string;
+  private label?: string;
+  private identity?: string;
 
   constructor() {
-    this.statusBarItem = vscode.window.createStatusBarItem(
-      vscode.StatusBarAlignment.Left,
-      100
-    );
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
     this.statusBarItem.command = 'azureEnv.connect';
     this.updateDisplay();
     this.statusBarItem.show();
@@ -38,6 +33,33 @@ export class StatusBarManager implements vscode.Disposable {
     this.updateDisplay();
   }
 
+  /**
+   * Set the active environment profile shown next to the extension name.
+   * Pass undefined or '' when no profile is active.
+   */
+  setProfile(profile?: string): void {
+    this.profile = profile || undefined;
+    this.updateDisplay();
+  }
+
+  /**
+   * Set the App Configuration label shown after the state ('' for the null
+   * label). Pass undefined when not connected.
+   */
+  setLabel(label?: string): void {
+    this.label = label;
+    this.updateDisplay();
+  }
+
+  /**
+   * Set the identity tokens are requested as, shown in the tooltip. Pass
+   * undefined when not connected.
+   */
+  setIdentity(identity?: string): void {
+    this.identity = identity;
+    this.updateDisplay();
+  }
+
   /**
    * Get the current connection state.
    */
@@ -49,13 +71,16 @@ export class StatusBarManager implements vscode.Disposable {
     const icon = this.getIcon();
     const label = this.getLabel();
 
-    this.statusBarItem.text = `${icon} ${label}`;
+    this.statusBarItem.text =
+      this.label === undefined
+        ? `${icon} ${label}`
+        : `${icon} ${label} $(tag) ${this.label || '(no label)'}`;
     this.statusBarItem.tooltip = this.getTooltip();
     this.statusBarItem.backgroundColor = this.getBackgroundColor();
 
     // Update command based on state
     this.statusBarItem.command =
-      this.state === 'connected' ? 'azureEnv.refresh' : 'azureEnv.connect';
+      this.state === 'connected' ? 'azureEnv.showActions' : 'azureEnv.connect';
   }
 
   private getIcon(): string {
@@ -74,21 +99,36 @@ export class StatusBarManager implements vscode.Disposable {
   }
 
   private getLabel(): string {
+    const name = this.profile ? `Azure Env (${this.profile})` : 'Azure Env';
     switch (this.state) {
       case 'disconnected':
-        return 'Azure Env';
+        return name;
       case 'connecting':
-        return 'Azure Env: Connecting...';
+        return `${name}: Connecting...`;
       case 'connected':
-        return this.detail ? `Azure Env: ${this.detail}` : 'Azure Env: Connected';
+        return this.detail ? `${name}: ${this.detail}` : `${name}: Connected`;
       case 'error':
-        return 'Azure Env: Error';
+        return `${name}: Error`;
       case 'refreshing':
-        return 'Azure Env: Refreshing...';
+        return this.detail ? `${name}: ${this.detail}` : `${name}: Refreshing...`;
     }
   }
 
   private getTooltip(): string {
+    const lines = [this.getStateTooltip()];
+    if (this.identity) {
+      lines.unshift(`Identity: ${this.identity}`);
+    }
+    if (this.label !== undefined) {
+      lines.unshift(`Label: ${this.label || '(no label)'}`);
+    }
+    if (this.profile) {
+      lines.unshift(`Profile: ${this.profile}`);
+    }
+    return lines.join('\n');
+  }
+
+  private getStateTooltip(): string {
     switch (this.state) {
       case 'disconnected':
         return 'Click to connect to Azure App Configuration';
@@ -96,8 +136,8 @@ export class StatusBarManager implements vscode.Disposable {
         return 'Authenticating with Azure...';
       case 'connected':
         return this.detail
-          ? `Connected to ${this.detail}\nClick to refresh environment`
-          : 'Click to refresh environment';
+          ? `Connected to ${this.detail}\nClick to refresh environment or switch label`
+          : 'Click to refresh environment or switch label';
       case 'error':
         return 'Connection error - click to reconnect';
       case 'refreshing':
@@ -0,0 +1,43 @@
+/**
+ * Claims of a Microsoft Entra access token that the extension reads.
+ */
+export interface AccessTokenClaims {
+  /** Sign-in name of a user */
+  upn?: string;
+  unique_name?: string;
+  preferred_username?: string;
+  /** Application (client) ID of a service principal or managed identity */
+  appid?: string;
+  tid?: string;
+  /** Expiry, in seconds since the epoch */
+  exp?: number;
+}
+
+/**
+ * Read the claims of a JWT access token without verifying its signature.
+ * Returns undefined when the token is not a JWT.
+ */
+export function decodeAccessToken(token: string): AccessTokenClaims | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const claims: unknown = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims && typeof claims === 'object' ? (claims as AccessTokenClaims) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describe who a token was issued to: the user's sign-in name, or the
+ * application ID of a service principal.
+ */
+export function describeTokenIdentity(claims: AccessTokenClaims): string | undefined {
+  const user = claims.upn ?? claims.unique_name ?? claims.preferred_username;
+  if (user) {
+    return user;
+  }
+  return claims.appid ? `app ${claims.appid}` : undefined;
+}
@@ -0,0 +1,168 @@
+import type { CancellationToken } from 'vscode';
+import { AzureEnvError, RateLimitError } from '../errors';
+
+/** The part of a cancellation token the scheduler listens to */
+export type RetryCancellation = Pick<
+  CancellationToken,
+  'isCancellationRequested' | 'onCancellationRequested'
+>;
+
+/**
+ * A wait the scheduler is about to make before retrying a request.
+ */
+export interface RetryWait {
+  delayMs: number;
+  /** Retry number about to be made, starting at 1 */
+  attempt: number;
+  error: AzureEnvError;
+}
+
+export interface RetrySchedulerOptions {
+  /** Maximum number of requests in flight at once (default 4) */
+  maxConcurrent?: number;
+  /** Retries per request after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Backoff for the first retry when the service gives no retry-after (default 1 s) */
+  baseDelayMs?: number;
+  /** Upper bound for exponential backoff (default 30 s) */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * Runs requests against one Azure service with bounded concurrency and
+ * retries. Retryable errors are retried with capped exponential backoff. A
+ * rate limit pauses every request on the scheduler until its retry-after has
+ * passed, so throttled requests do not keep hammering the service.
+ * Cancelling a request's operation ends its waits; the request then fails
+ * with the error it was waiting out.
+ */
+export class RetryScheduler {
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private resumeAt = 0;
+  /** The rate limit that set `resumeAt` */
+  private pauseError?: RateLimitError;
+  private listeners = new Set<(wait: RetryWait) => void>();
+  private readonly maxConcurrent: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+
+  constructor(options: RetrySchedulerOptions = {}) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 4);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30_000;
+    this.sleep =
+      options.sleep ?? ((ms): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Listen for waits before retries, e.g. to tell the user about a rate limit.
+   */
+  onWait(listener: (wait: RetryWait) => void): { dispose(): void } {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+
+  /**
+   * Run a request, retrying it while it fails with a retryable error.
+   * The last error is rethrown once the retries are used up, or as soon as
+   * the operation is cancelled while waiting.
+   */
+  async run<T>(task: () => Promise<T>, cancellation?: RetryCancellation): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire(cancellation);
+      let delayMs: number;
+      let lastError: AzureEnvError;
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt > this.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        lastError = error;
+        delayMs = this.getDelay(error, attempt);
+        if (error instanceof RateLimitError && this.now() + delayMs > this.resumeAt) {
+          this.resumeAt = this.now() + delayMs;
+          this.pauseError = error;
+        }
+        this.listeners.forEach((listener) => listener({ delayMs, attempt, error }));
+      } finally {
+        this.release();
+      }
+
+      if (this.resumeAt <= this.now() && !(await this.wait(delayMs, cancellation))) {
+        throw lastError;
+      }
+    }
+  }
+
+  private getDelay(error: AzureEnvError, attempt: number): number {
+    if (error instanceof RateLimitError && error.retryAfterMs) {
+      return error.retryAfterMs;
+    }
+    return Math.min(this.baseDelayMs * 2 ** (attempt - 1), this.maxDelayMs);
+  }
+
+  /**
+   * Sleep, ending early when the operation is cancelled.
+   *
+   * @returns false when the operation was cancelled
+   */
+  private async wait(ms: number, cancellation?: RetryCancellation): Promise<boolean> {
+    if (!cancellation) {
+      await this.sleep(ms);
+      return true;
+    }
+    if (cancellation.isCancellationRequested) {
+      return false;
+    }
+    let listener: { dispose(): void } | undefined;
+    const cancelled = new Promise<void>((resolve) => {
+      listener = cancellation.onCancellationRequested(() => resolve());
+    });
+    try {
+      await Promise.race([this.sleep(ms), cancelled]);
+    } finally {
+      listener?.dispose();
+    }
+    return !cancellation.isCancellationRequested;
+  }
+
+  private async waitForResume(cancellation?: RetryCancellation): Promise<void> {
+    while (this.resumeAt > this.now()) {
+      if (!(await this.wait(this.resumeAt - this.now(), cancellation))) {
+        throw this.pauseError;
+      }
+    }
+  }
+
+  /**
+   * Wait for a free slot, re-checking for a rate limit pause after every wake-up.
+   */
+  private async acquire(cancellation?: RetryCancellation): Promise<void> {
+    for (;;) {
+      await this.waitForResume(cancellation);
+      if (this.active < this.maxConcurrent) {
+        this.active++;
+        return;
+      }
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.queue.shift()?.();
+  }
+}
+
+function isRetryable(error: unknown): error is AzureEnvError {
+  return error instanceof AzureEnvError && error.isRetryable;
+}
@@ -71,11 +71,16 @@ export function safeStringify(obj: unknown, indent = 2): string {
  */
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 
+/**
+ * Where SafeLogger writes: an output channel, or any collector of lines.
+ */
+export type LogSink = Pick<OutputChannel, 'appendLine' | 'show'>;
+
 /**
  * A logger that automatically redacts sensitive information.
  */
 export class SafeLogger {
-  constructor(private readonly channel: OutputChannel) {}
+  constructor(private readonly channel: LogSink) {}
 
   /**
    * Log a debug message.
@@ -0,0 +1,42 @@
+/**
+ * In-memory cache whose entries expire a fixed time after they are stored.
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  /**
+   * @param ttlMs How long entries stay valid, in milliseconds
+   * @param now Clock used for expiry (injectable for tests)
+   */
+  constructor(
+    readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get a value if it is present and has not expired.
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -67,6 +67,10 @@ export class CancellationTokenSource {
   dispose = vi.fn();
 }
 
+export const authentication = {
+  onDidChangeSessions: vi.fn(() => ({ dispose: vi.fn() })),
+};
+
 export const commands = {
   registerCommand: vi.fn(),
   executeCommand: vi.fn(),
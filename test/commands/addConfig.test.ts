@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  runAddConfigFlow,
+  validateKey,
+  getKeyPrefixes,
+  type AddConfigDeps,
+} from '../../src/commands/addConfig';
+import type { AzureEnvSettings } from '../../src/models/settings';
+import { SettingExistsError } from '../../src/errors';
+
+describe('runAddConfigFlow', () => {
+  let settings: AzureEnvSettings;
+  let existingKeys: string[];
+  let inputs: (string | undefined)[];
+  let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
+  let mockAddSetting: ReturnType<typeof vi.fn>;
+  let mockSaveSettings: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    existingKeys = ['App/Host', 'App/Db/Port'];
+    inputs = ['App/Db/Name', 'orders', 'dev'];
+    mockShowQuickPickSingle = vi.fn(async (items) => items[0]);
+    mockShowInputBox = vi.fn(async () => inputs.shift());
+    mockAddSetting = vi.fn().mockResolvedValue(undefined);
+    mockSaveSettings = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): AddConfigDeps {
+    return {
+      getSettings: () => settings,
+      getExistingKeys: () => existingKeys,
+      showQuickPickSingle: mockShowQuickPickSingle,
+      showInputBox: mockShowInputBox,
+      addSetting: mockAddSetting,
+      saveSettings: mockSaveSettings,
+    };
+  }
+
+  it('writes the value and selects the new key', async () => {
+    const result = await runAddConfigFlow(undefined, createDeps());
+
+    expect(mockAddSetting).toHaveBeenCalledWith(
+      'https://dev.azconfig.io',
+      'App/Db/Name',
+      'orders',
+      'dev'
+    );
+    expect(mockSaveSettings).toHaveBeenCalledWith({ selectedKeys: ['App/Host', 'App/Db/Name'] });
+    expect(result).toEqual({
+      added: true,
+      key: 'App/Db/Name',
+      label: 'dev',
+      store: 'dev',
+      injected: true,
+    });
+  });
+
+  it('offers existing prefixes and prefills the picked one', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) =>
+      items.find((item: { label: string }) => item.label === 'App/Db/')
+    );
+
+    await runAddConfigFlow(undefined, createDeps());
+
+    const labels = mockShowQuickPickSingle.mock.calls[0][0].map(
+      (item: { label: string }) => item.label
+    );
+    expect(labels).toEqual(['$(add) New top-level key', 'App/', 'App/Db/']);
+    expect(mockShowInputBox.mock.calls[0][0]).toMatchObject({
+      value: 'App/Db/',
+      valueSelection: [7, 7],
+    });
+  });
+
+  it('prefills the folder path when started from a folder node', async () => {
+    await runAddConfigFlow({ key: 'App/Db' }, createDeps());
+
+    expect(mockShowQuickPickSingle).not.toHaveBeenCalled();
+    expect(mockShowInputBox.mock.calls[0][0].value).toBe('App/Db/');
+  });
+
+  it('defaults the label to the configured one', async () => {
+    await runAddConfigFlow(undefined, createDeps());
+
+    expect(mockShowInputBox.mock.calls[2][0].value).toBe('dev');
+  });
+
+  it('does not add a key a prefix selection already covers', async () => {
+    settings.selectedKeys = ['App/*'];
+
+    await runAddConfigFlow(undefined, createDeps());
+
+    expect(mockSaveSettings).not.toHaveBeenCalled();
+  });
+
+  it('reports a label the workspace does not refresh as not injected', async () => {
+    inputs = ['App/Db/Name', 'orders', 'prod'];
+
+    const result = await runAddConfigFlow(undefined, createDeps());
+
+    expect(result).toMatchObject({ added: true, injected: false });
+  });
+
+  it('adds keys for an additional store to that store', async () => {
+    settings.stores = [
+      { name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: ['Shared/Key'] },
+    ];
+
+    await runAddConfigFlow({ key: 'Shared', store: 'shared' }, createDeps());
+
+    expect(mockAddSetting.mock.calls[0][0]).toBe('https://shared.azconfig.io');
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      stores: [
+        {
+          name: 'shared',
+          endpoint: 'https://shared.azconfig.io',
+          selectedKeys: ['Shared/Key', 'App/Db/Name'],
+        },
+      ],
+    });
+  });
+
+  it('updates only the additional store that shares the primary endpoint', async () => {
+    settings.stores = [
+      { endpoint: 'https://dev.azconfig.io', label: 'prod', selectedKeys: ['Shared/Key'] },
+    ];
+    mockShowQuickPickSingle.mockImplementation(async (items) => items[1]);
+    inputs = ['App/Db/Name', 'orders', 'prod'];
+
+    await runAddConfigFlow({ key: 'App/Db' }, createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      stores: [
+        {
+          endpoint: 'https://dev.azconfig.io',
+          label: 'prod',
+          selectedKeys: ['Shared/Key', 'App/Db/Name'],
+        },
+      ],
+    });
+  });
+
+  it('does not select the key when it already exists at the label', async () => {
+    mockAddSetting.mockRejectedValue(new SettingExistsError('App/Db/Name', 'dev'));
+
+    await expect(runAddConfigFlow(undefined, createDeps())).rejects.toBeInstanceOf(
+      SettingExistsError
+    );
+    expect(mockSaveSettings).not.toHaveBeenCalled();
+  });
+
+  it('returns cancelled without writing when an input is dismissed', async () => {
+    inputs = ['App/Db/Name', undefined];
+
+    const result = await runAddConfigFlow(undefined, createDeps());
+
+    expect(result).toEqual({ added: false, reason: 'cancelled' });
+    expect(mockAddSetting).not.toHaveBeenCalled();
+  });
+
+  it('returns not_connected when no store is configured', async () => {
+    settings.endpoint = '';
+
+    const result = await runAddConfigFlow(undefined, createDeps());
+
+    expect(result).toEqual({ added: false, reason: 'not_connected' });
+  });
+});
+
+describe('validateKey', () => {
+  it('accepts ordinary keys', () => {
+    expect(validateKey('App/Db/Host')).toBeUndefined();
+  });
+
+  it.each([
+    ['', 'Key is required'],
+    ['App/', 'Key cannot end with /'],
+    ['App/*', 'Key cannot end with *'],
+    [' App', 'Key cannot start or end with spaces'],
+  ])('rejects %j', (key, message) => {
+    expect(validateKey(key)).toBe(message);
+  });
+});
+
+describe('getKeyPrefixes', () => {
+  it('lists every folder prefix once, sorted', () => {
+    expect(getKeyPrefixes(['App/Db/Host', 'App/Port', 'Root'])).toEqual(['App/', 'App/Db/']);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  runAddSecretFlow,
+  validateSecretName,
+  type AddSecretDeps,
+} from '../../src/commands/addSecret';
+import { KEY_VAULT_REFERENCE_CONTENT_TYPE } from '../../src/models/configValue';
+import type { AzureEnvSettings } from '../../src/models/settings';
+import { SettingExistsError } from '../../src/errors';
+
+const SECRET_URI = 'https://team-vault.vault.azure.net/secrets/Db-Password';
+
+describe('runAddSecretFlow', () => {
+  let settings: AzureEnvSettings;
+  let inputs: (string | undefined)[];
+  let mockListVaults: ReturnType<typeof vi.fn>;
+  let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
+  let mockShowWarningMessage: ReturnType<typeof vi.fn>;
+  let mockSecretExists: ReturnType<typeof vi.fn>;
+  let mockSetSecret: ReturnType<typeof vi.fn>;
+  let mockAddSetting: ReturnType<typeof vi.fn>;
+  let mockSaveSettings: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    inputs = ['Db-Password', 'pw', 'App/Db/Password', 'dev'];
+    mockListVaults = vi
+      .fn()
+      .mockResolvedValue([{ name: 'team-vault', vaultUrl: 'https://team-vault.vault.azure.net/' }]);
+    mockShowQuickPickSingle = vi.fn(async (items) => items[0]);
+    mockShowInputBox = vi.fn(async () => inputs.shift());
+    mockShowWarningMessage = vi.fn().mockResolvedValue('Add Version');
+    mockSecretExists = vi.fn().mockResolvedValue(false);
+    mockSetSecret = vi.fn().mockResolvedValue(SECRET_URI);
+    mockAddSetting = vi.fn().mockResolvedValue(undefined);
+    mockSaveSettings = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): AddSecretDeps {
+    return {
+      getSettings: () => settings,
+      listVaults: mockListVaults,
+      showQuickPickSingle: mockShowQuickPickSingle,
+      showInputBox: mockShowInputBox,
+      showWarningMessage: mockShowWarningMessage,
+      secretExists: mockSecretExists,
+      setSecret: mockSetSecret,
+      addSetting: mockAddSetting,
+      saveSettings: mockSaveSettings,
+    };
+  }
+
+  it('creates the secret and a Key Vault reference to it', async () => {
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(mockSetSecret).toHaveBeenCalledWith(
+      'https://team-vault.vault.azure.net/',
+      'Db-Password',
+      'pw'
+    );
+    expect(mockAddSetting).toHaveBeenCalledWith(
+      'https://dev.azconfig.io',
+      'App/Db/Password',
+      JSON.stringify({ uri: SECRET_URI }),
+      'dev',
+      KEY_VAULT_REFERENCE_CONTENT_TYPE
+    );
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      selectedKeys: ['App/Host', 'App/Db/Password'],
+    });
+    expect(result).toEqual({
+      added: true,
+      secretUri: SECRET_URI,
+      reference: { key: 'App/Db/Password', label: 'dev', store: 'dev', injected: true },
+    });
+  });
+
+  it('uses the default vault without listing vaults', async () => {
+    settings.keyVault.defaultVault = 'https://default.vault.azure.net';
+
+    await runAddSecretFlow(undefined, createDeps());
+
+    expect(mockListVaults).not.toHaveBeenCalled();
+    expect(mockSetSecret.mock.calls[0][0]).toBe('https://default.vault.azure.net');
+  });
+
+  it('rejects a default vault outside the cloud Key Vault domain', async () => {
+    settings.keyVault.defaultVault = 'https://default.vault.example.com';
+
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(result).toEqual({
+      added: false,
+      reason: 'invalid_vault',
+      message: 'Key Vault URL must be an Azure Key Vault URL (*.vault.azure.net)',
+    });
+    expect(mockSetSecret).not.toHaveBeenCalled();
+  });
+
+  it('asks before adding a version to an existing secret', async () => {
+    mockSecretExists.mockResolvedValue(true);
+
+    await runAddSecretFlow(undefined, createDeps());
+
+    expect(mockSecretExists).toHaveBeenCalledWith(
+      'https://team-vault.vault.azure.net/',
+      'Db-Password'
+    );
+    expect(mockShowWarningMessage).toHaveBeenCalledWith(
+      'Secret Db-Password already exists. Add a new version of it?',
+      expect.objectContaining({ modal: true }),
+      'Add Version'
+    );
+    expect(mockSetSecret).toHaveBeenCalled();
+  });
+
+  it('leaves an existing secret alone when adding a version is declined', async () => {
+    mockSecretExists.mockResolvedValue(true);
+    mockShowWarningMessage.mockResolvedValue(undefined);
+
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(result).toEqual({ added: false, reason: 'cancelled' });
+    expect(mockShowInputBox).toHaveBeenCalledTimes(1);
+    expect(mockSetSecret).not.toHaveBeenCalled();
+  });
+
+  it('keeps an existing setting instead of replacing it with the reference', async () => {
+    mockAddSetting.mockRejectedValue(new SettingExistsError('App/Db/Password', 'dev'));
+
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(result).toEqual({
+      added: true,
+      secretUri: SECRET_URI,
+      existingReference: { key: 'App/Db/Password', label: 'dev' },
+    });
+    expect(mockSaveSettings).not.toHaveBeenCalled();
+  });
+
+  it('masks the secret value input', async () => {
+    await runAddSecretFlow(undefined, createDeps());
+
+    expect(mockShowInputBox.mock.calls[1][0].password).toBe(true);
+  });
+
+  it('defaults the reference key to the folder and secret name', async () => {
+    await runAddSecretFlow({ key: 'App/Db' }, createDeps());
+
+    expect(mockShowInputBox.mock.calls[2][0].value).toBe('App/Db/Db-Password');
+  });
+
+  it('only creates the secret when no reference is wanted', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) =>
+      items.find((item: { createReference?: boolean }) => item.createReference === false)
+    );
+    settings.keyVault.defaultVault = 'https://default.vault.azure.net';
+
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(result).toEqual({ added: true, secretUri: SECRET_URI });
+    expect(mockAddSetting).not.toHaveBeenCalled();
+  });
+
+  it('reports when the subscription has no vaults', async () => {
+    mockListVaults.mockResolvedValue([]);
+
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(result).toEqual({ added: false, reason: 'no_vaults' });
+  });
+
+  it('returns cancelled before creating anything', async () => {
+    inputs = ['Db-Password', undefined];
+
+    const result = await runAddSecretFlow(undefined, createDeps());
+
+    expect(result).toEqual({ added: false, reason: 'cancelled' });
+    expect(mockSetSecret).not.toHaveBeenCalled();
+  });
+});
+
+describe('validateSecretName', () => {
+  it('accepts letters, digits and dashes', () => {
+    expect(validateSecretName('Db-Password-2')).toBeUndefined();
+  });
+
+  it('rejects other characters', () => {
+    expect(validateSecretName('Db/Password')).toBe('Use 1-127 letters, digits and dashes');
+    expect(validateSecretName('')).toBe('Secret name is required');
+  });
+});
@@ -1,10 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { runConnectFlow, ConnectFlowDeps } from '../../src/commands/connect';
+import {
+  runConnectFlow,
+  runConnectByEndpointFlow,
+  ConnectFlowDeps,
+} from '../../src/commands/connect';
+
+const ACCOUNT = { id: 'work', label: 'work@contoso.com' };
 
 describe('runConnectFlow', () => {
   let mockAuthService: {
     ensureSignedIn: ReturnType<typeof vi.fn>;
+    signIn: ReturnType<typeof vi.fn>;
     getSubscriptions: ReturnType<typeof vi.fn>;
+    getTenants: ReturnType<typeof vi.fn>;
+    getUnauthenticatedTenants: ReturnType<typeof vi.fn>;
+    getAccountAuthentication: ReturnType<typeof vi.fn>;
+    getDefaultAccount: ReturnType<typeof vi.fn>;
+    saveAccount: ReturnType<typeof vi.fn>;
   };
   let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
   let mockShowQuickPickMulti: ReturnType<typeof vi.fn>;
@@ -12,11 +24,18 @@ describe('runConnectFlow', () => {
   let mockListStores: ReturnType<typeof vi.fn>;
   let mockListKeys: ReturnType<typeof vi.fn>;
   let mockListLabels: ReturnType<typeof vi.fn>;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     mockAuthService = {
       ensureSignedIn: vi.fn(),
+      signIn: vi.fn(),
       getSubscriptions: vi.fn(),
+      getTenants: vi.fn().mockResolvedValue([]),
+      getUnauthenticatedTenants: vi.fn().mockResolvedValue([]),
+      getAccountAuthentication: vi.fn(() => ({ account: true })),
+      getDefaultAccount: vi.fn().mockResolvedValue(ACCOUNT),
+      saveAccount: vi.fn(),
     };
     mockShowQuickPickSingle = vi.fn();
     mockShowQuickPickMulti = vi.fn();
@@ -24,17 +43,42 @@ describe('runConnectFlow', () => {
     mockListStores = vi.fn();
     mockListKeys = vi.fn();
     mockListLabels = vi.fn();
+    mockShowInputBox = vi.fn();
   });
 
   function createDeps(overrides: Partial<ConnectFlowDeps> = {}): ConnectFlowDeps {
     return {
-      authService: mockAuthService as any,
+      authService: mockAuthService,
       showQuickPickSingle: mockShowQuickPickSingle,
       showQuickPickMulti: mockShowQuickPickMulti,
       saveSettings: mockSaveSettings,
       listStores: mockListStores,
       listKeys: mockListKeys,
       listLabels: mockListLabels,
+      getSettings: () => ({
+        endpoint: '',
+        selectedKeys: [],
+        excludedKeys: [],
+        label: '',
+        overrideLabels: [],
+        keyFilter: '*',
+        stores: [],
+        subscriptionId: '',
+        tenantId: '',
+        naming: {},
+        keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+        cloud: {
+          environment: 'AzureCloud',
+          resourceManagerEndpoint: '',
+          appConfigurationSuffix: '',
+          keyVaultSuffix: '',
+          appConfigurationAudience: '',
+          activeDirectoryEndpoint: '',
+        },
+        auth: { credential: 'vscode' },
+        activeProfile: '',
+      }),
+      showInputBox: mockShowInputBox,
       ...overrides,
     };
   }
@@ -42,7 +86,7 @@ describe('runConnectFlow', () => {
   it('saves settings after successful flow', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
     mockAuthService.getSubscriptions.mockResolvedValue([
-      { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
     ]);
     mockShowQuickPickSingle
       .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } }) // subscription
@@ -61,12 +105,13 @@ describe('runConnectFlow', () => {
       subscriptionId: 'sub-1',
       tenantId: 'tenant-1',
       label: '',
+      overrideLabels: [],
     });
   });
 
   it('aborts if user cancels subscription picker', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
-    mockAuthService.getSubscriptions.mockResolvedValue([{ name: 'Sub1' }]);
+    mockAuthService.getSubscriptions.mockResolvedValue([{ name: 'Sub1', account: ACCOUNT }]);
     mockShowQuickPickSingle.mockResolvedValue(undefined);
 
     const result = await runConnectFlow(createDeps());
@@ -99,7 +144,7 @@ describe('runConnectFlow', () => {
   it('aborts if user cancels store picker', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
     mockAuthService.getSubscriptions.mockResolvedValue([
-      { name: 'Sub1', subscriptionId: 'sub-1', credential: {} },
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', credential: {} },
     ]);
     mockShowQuickPickSingle
       .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', credential: {} } })
@@ -115,7 +160,7 @@ describe('runConnectFlow', () => {
   it('aborts if no stores available', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
     mockAuthService.getSubscriptions.mockResolvedValue([
-      { name: 'Sub1', subscriptionId: 'sub-1', credential: {} },
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', credential: {} },
     ]);
     mockShowQuickPickSingle.mockResolvedValueOnce({
       subscription: { subscriptionId: 'sub-1', credential: {} },
@@ -131,7 +176,7 @@ describe('runConnectFlow', () => {
   it('aborts if user cancels key picker', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
     mockAuthService.getSubscriptions.mockResolvedValue([
-      { name: 'Sub1', subscriptionId: 'sub-1', credential: {} },
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', credential: {} },
     ]);
     mockShowQuickPickSingle
       .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', credential: {} } })
@@ -150,7 +195,7 @@ describe('runConnectFlow', () => {
   it('aborts if no keys selected', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
     mockAuthService.getSubscriptions.mockResolvedValue([
-      { name: 'Sub1', subscriptionId: 'sub-1', credential: {} },
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', credential: {} },
     ]);
     mockShowQuickPickSingle
       .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', credential: {} } })
@@ -169,7 +214,7 @@ describe('runConnectFlow', () => {
   it('returns selected endpoint on success', async () => {
     mockAuthService.ensureSignedIn.mockResolvedValue(true);
     mockAuthService.getSubscriptions.mockResolvedValue([
-      { name: 'Sub1', subscriptionId: 'sub-1', credential: {} },
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', credential: {} },
     ]);
     mockShowQuickPickSingle
       .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', credential: {} } })
@@ -188,11 +233,210 @@ describe('runConnectFlow', () => {
     expect(result.storeName).toBe('mystore');
   });
 
+  it('offers folder prefixes alongside individual keys', async () => {
+    mockAuthService.ensureSignedIn.mockResolvedValue(true);
+    mockAuthService.getSubscriptions.mockResolvedValue([
+      { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+    ]);
+    mockShowQuickPickSingle
+      .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
+      .mockResolvedValueOnce({ endpoint: 'https://test.azconfig.io', name: 'store' });
+    mockShowQuickPickMulti.mockImplementationOnce(async (items) => [items[0]]);
+    mockListStores.mockResolvedValue([{ name: 'store', endpoint: 'https://test.azconfig.io' }]);
+    mockListLabels.mockResolvedValue(['']);
+    mockListKeys.mockResolvedValue([{ key: 'MyService/Host' }, { key: 'MyService/Port' }]);
+
+    const result = await runConnectFlow(createDeps());
+
+    expect(result.success).toBe(true);
+    expect(mockSaveSettings).toHaveBeenCalledWith(
+      expect.objectContaining({ selectedKeys: ['MyService/*'] })
+    );
+  });
+
+  describe('accounts and tenants', () => {
+    const GUEST = { id: 'guest', label: 'guest@fabrikam.com' };
+
+    beforeEach(() => {
+      mockAuthService.ensureSignedIn.mockResolvedValue(true);
+      mockListStores.mockResolvedValue([{ name: 'store', endpoint: 'https://test.azconfig.io' }]);
+      mockListLabels.mockResolvedValue(['']);
+      mockListKeys.mockResolvedValue([{ key: 'App/Key1' }]);
+      mockShowQuickPickMulti.mockResolvedValue([{ key: 'App/Key1' }]);
+    });
+
+    it('groups subscriptions by tenant and account', async () => {
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Dev', subscriptionId: 'sub-1', tenantId: 'tenant-1', account: ACCOUNT },
+        { name: 'Prod', subscriptionId: 'sub-2', tenantId: 'tenant-1', account: ACCOUNT },
+        { name: 'Dev', subscriptionId: 'sub-1', tenantId: 'tenant-1', account: GUEST },
+      ]);
+      mockAuthService.getTenants.mockResolvedValue([
+        { tenantId: 'tenant-1', displayName: 'Contoso', account: ACCOUNT },
+      ]);
+      mockShowQuickPickSingle.mockResolvedValue(undefined);
+
+      await runConnectFlow(createDeps());
+
+      const items = mockShowQuickPickSingle.mock.calls[0][0];
+      expect(items.slice(0, 5).map((item: { label: string; kind?: number }) => [item.label, item.kind])).toEqual([
+        ['Contoso (work@contoso.com)', -1],
+        ['Dev', undefined],
+        ['Prod', undefined],
+        ['Contoso (guest@fabrikam.com)', -1],
+        ['Dev', undefined],
+      ]);
+    });
+
+    it('saves the account of the selected subscription', async () => {
+      const subscription = { name: 'Dev', subscriptionId: 'sub-1', tenantId: 'tenant-1', account: GUEST };
+      mockAuthService.getSubscriptions.mockResolvedValue([subscription]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ subscription })
+        .mockResolvedValueOnce({ endpoint: 'https://test.azconfig.io', name: 'store' });
+
+      const result = await runConnectFlow(createDeps());
+
+      expect(result.success).toBe(true);
+      expect(mockAuthService.saveAccount).toHaveBeenCalledWith(GUEST);
+    });
+
+    it('lists the subscriptions again after adding an account', async () => {
+      mockAuthService.getSubscriptions
+        .mockResolvedValueOnce([{ name: 'Dev', subscriptionId: 'sub-1', tenantId: 'tenant-1', account: ACCOUNT }])
+        .mockResolvedValueOnce([{ name: 'Prod', subscriptionId: 'sub-2', tenantId: 'tenant-2', account: GUEST }]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ action: 'addAccount' })
+        .mockResolvedValueOnce(undefined);
+
+      await runConnectFlow(createDeps());
+
+      expect(mockAuthService.signIn).toHaveBeenCalledWith();
+      expect(mockShowQuickPickSingle).toHaveBeenCalledTimes(2);
+      expect(mockShowQuickPickSingle.mock.calls[1][0][1].label).toBe('Prod');
+    });
+
+    it('signs in to a tenant that requires its own sign-in', async () => {
+      const tenant = { tenantId: 'tenant-2', displayName: 'Fabrikam', account: ACCOUNT };
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Dev', subscriptionId: 'sub-1', tenantId: 'tenant-1', account: ACCOUNT },
+      ]);
+      mockAuthService.getUnauthenticatedTenants.mockResolvedValue([tenant]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ action: 'signInTenant' })
+        .mockImplementationOnce(async (items) => items[0])
+        .mockResolvedValueOnce(undefined);
+
+      await runConnectFlow(createDeps());
+
+      expect(mockAuthService.signIn).toHaveBeenCalledWith('tenant-2', ACCOUNT);
+      expect(mockShowQuickPickSingle).toHaveBeenCalledTimes(3);
+    });
+
+    it('signs in to a tenant entered by ID', async () => {
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Dev', subscriptionId: 'sub-1', tenantId: 'tenant-1', account: ACCOUNT },
+      ]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ action: 'signInTenant' })
+        .mockImplementationOnce(async (items) => items[items.length - 1])
+        .mockResolvedValueOnce(undefined);
+      mockShowInputBox.mockResolvedValue(' contoso.onmicrosoft.com ');
+
+      await runConnectFlow(createDeps());
+
+      expect(mockAuthService.signIn).toHaveBeenCalledWith('contoso.onmicrosoft.com');
+    });
+  });
+
+  describe('connect by endpoint', () => {
+    beforeEach(() => {
+      mockAuthService.ensureSignedIn.mockResolvedValue(true);
+      mockShowInputBox.mockResolvedValue(' https://mystore.azconfig.io/ ');
+      mockShowQuickPickMulti.mockResolvedValueOnce([{ key: 'App/Key1' }]);
+      mockListLabels.mockResolvedValue(['']);
+      mockListKeys.mockResolvedValue([{ key: 'App/Key1' }]);
+    });
+
+    it('saves the pasted endpoint without a subscription', async () => {
+      const result = await runConnectByEndpointFlow(createDeps());
+
+      expect(result).toEqual({
+        success: true,
+        endpoint: 'https://mystore.azconfig.io',
+        storeName: 'mystore',
+      });
+      expect(mockAuthService.getSubscriptions).not.toHaveBeenCalled();
+      expect(mockListStores).not.toHaveBeenCalled();
+      expect(mockListLabels).toHaveBeenCalledWith('https://mystore.azconfig.io', {
+        account: ACCOUNT,
+        authentication: { account: true },
+      });
+      expect(mockAuthService.getAccountAuthentication).toHaveBeenCalledWith(undefined, ACCOUNT);
+      expect(mockSaveSettings).toHaveBeenCalledWith({
+        endpoint: 'https://mystore.azconfig.io',
+        selectedKeys: ['App/Key1'],
+        subscriptionId: '',
+        tenantId: '',
+        label: '',
+        overrideLabels: [],
+      });
+      expect(mockAuthService.saveAccount).toHaveBeenCalledWith(ACCOUNT);
+    });
+
+    it('validates the endpoint against the configured cloud', async () => {
+      await runConnectByEndpointFlow(createDeps());
+
+      const { validateInput } = mockShowInputBox.mock.calls[0][0];
+      expect(validateInput('https://mystore.azconfig.io')).toBeUndefined();
+      expect(validateInput('')).toContain('Enter the endpoint');
+      expect(validateInput('http://mystore.azconfig.io')).toContain('HTTPS');
+      expect(validateInput('https://mystore.azconfig.azure.us')).toContain('*.azconfig.io');
+    });
+
+    it('is offered in the subscription picker', async () => {
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+      ]);
+      mockShowQuickPickSingle.mockImplementationOnce(async (items) => items[items.length - 1]);
+
+      const result = await runConnectFlow(createDeps());
+
+      expect(result.success).toBe(true);
+      expect(mockShowInputBox).toHaveBeenCalled();
+      expect(mockListStores).not.toHaveBeenCalled();
+    });
+
+    it('returns cancelled when no endpoint is entered', async () => {
+      mockShowInputBox.mockResolvedValue(undefined);
+
+      const result = await runConnectByEndpointFlow(createDeps());
+
+      expect(result).toEqual({ success: false, reason: 'cancelled' });
+      expect(mockSaveSettings).not.toHaveBeenCalled();
+    });
+
+    it('goes straight to the endpoint with another credential source', async () => {
+      const settings = createDeps().getSettings();
+      const deps = createDeps({
+        getSettings: () => ({ ...settings, auth: { credential: 'azureCli' } }),
+      });
+
+      const result = await runConnectFlow(deps);
+
+      expect(result.success).toBe(true);
+      expect(mockAuthService.ensureSignedIn).not.toHaveBeenCalled();
+      expect(mockAuthService.getSubscriptions).not.toHaveBeenCalled();
+      expect(mockListLabels).toHaveBeenCalledWith('https://mystore.azconfig.io', undefined);
+      expect(mockAuthService.saveAccount).toHaveBeenCalledWith(undefined);
+    });
+  });
+
   describe('label selection', () => {
     it('should prompt for label when multiple labels exist', async () => {
       mockAuthService.ensureSignedIn.mockResolvedValue(true);
       mockAuthService.getSubscriptions.mockResolvedValue([
-        { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
       ]);
       mockShowQuickPickSingle
         .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } }) // subscription
@@ -213,13 +457,14 @@ describe('runConnectFlow', () => {
         subscriptionId: 'sub-1',
         tenantId: 'tenant-1',
         label: 'dev',
+        overrideLabels: [],
       });
     });
 
     it('should auto-select when only one non-empty label exists', async () => {
       mockAuthService.ensureSignedIn.mockResolvedValue(true);
       mockAuthService.getSubscriptions.mockResolvedValue([
-        { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
       ]);
       mockShowQuickPickSingle
         .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
@@ -241,7 +486,7 @@ describe('runConnectFlow', () => {
     it('should use empty string when only empty label exists', async () => {
       mockAuthService.ensureSignedIn.mockResolvedValue(true);
       mockAuthService.getSubscriptions.mockResolvedValue([
-        { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
       ]);
       mockShowQuickPickSingle
         .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
@@ -263,7 +508,7 @@ describe('runConnectFlow', () => {
     it('should filter keys by selected label', async () => {
       mockAuthService.ensureSignedIn.mockResolvedValue(true);
       mockAuthService.getSubscriptions.mockResolvedValue([
-        { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
       ]);
       mockShowQuickPickSingle
         .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
@@ -287,7 +532,7 @@ describe('runConnectFlow', () => {
     it('should handle label selection cancellation', async () => {
       mockAuthService.ensureSignedIn.mockResolvedValue(true);
       mockAuthService.getSubscriptions.mockResolvedValue([
-        { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
       ]);
       mockShowQuickPickSingle
         .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
@@ -303,10 +548,95 @@ describe('runConnectFlow', () => {
       expect(mockSaveSettings).not.toHaveBeenCalled();
     });
 
+    it('should save base and override labels when layering labels', async () => {
+      mockAuthService.ensureSignedIn.mockResolvedValue(true);
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+      ]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
+        .mockResolvedValueOnce({ endpoint: 'https://test.azconfig.io', name: 'store' })
+        .mockResolvedValueOnce({ label: 'Layer', value: '', layered: true }) // layer option
+        .mockResolvedValueOnce({ label: '(no label)', value: '' }) // base label
+        .mockResolvedValueOnce({ label: 'dev', value: 'dev' }); // only override label
+      mockShowQuickPickMulti.mockResolvedValueOnce([{ key: 'App/Key1' }, { key: 'App/Key2' }]); // keys
+      mockListStores.mockResolvedValue([{ name: 'store', endpoint: 'https://test.azconfig.io' }]);
+      mockListLabels.mockResolvedValue(['', 'dev']);
+      mockListKeys
+        .mockResolvedValueOnce([{ key: 'App/Key1' }])
+        .mockResolvedValueOnce([{ key: 'App/Key1' }, { key: 'App/Key2' }]);
+
+      const result = await runConnectFlow(createDeps());
+
+      expect(result.success).toBe(true);
+      expect(mockListKeys).toHaveBeenCalledWith('https://test.azconfig.io', expect.anything(), '');
+      expect(mockListKeys).toHaveBeenCalledWith('https://test.azconfig.io', expect.anything(), 'dev');
+      // Keys from every layer are offered once, after the folder selection
+      expect(
+        mockShowQuickPickMulti.mock.calls[0][0].map((item: { key: string }) => item.key)
+      ).toEqual(['App/*', 'App/Key1', 'App/Key2']);
+      expect(mockSaveSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ label: '', overrideLabels: ['dev'] })
+      );
+    });
+
+    it('should save override labels in the order they were picked', async () => {
+      mockAuthService.ensureSignedIn.mockResolvedValue(true);
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+      ]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
+        .mockResolvedValueOnce({ endpoint: 'https://test.azconfig.io', name: 'store' })
+        .mockResolvedValueOnce({ label: 'Layer', value: '', layered: true })
+        .mockResolvedValueOnce({ label: '(no label)', value: '' }) // base label
+        .mockResolvedValueOnce({ label: 'prod', value: 'prod' }) // first override
+        .mockResolvedValueOnce({ label: 'dev', value: 'dev' }) // wins over prod
+        .mockResolvedValueOnce({ label: 'Done', value: '', done: true });
+      mockShowQuickPickMulti.mockResolvedValueOnce([{ key: 'App/Key1' }]);
+      mockListStores.mockResolvedValue([{ name: 'store', endpoint: 'https://test.azconfig.io' }]);
+      mockListLabels.mockResolvedValue(['', 'dev', 'local', 'prod']);
+      mockListKeys.mockResolvedValue([{ key: 'App/Key1' }]);
+
+      const result = await runConnectFlow(createDeps());
+
+      expect(result.success).toBe(true);
+      // Labels already picked are not offered again
+      expect(
+        mockShowQuickPickSingle.mock.calls[5][0].map((item: { label: string }) => item.label)
+      ).toEqual(['dev', 'local', '$(check) Done']);
+      expect(mockSaveSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ label: '', overrideLabels: ['prod', 'dev'] })
+      );
+    });
+
+    it('should stop offering override labels at the supported number', async () => {
+      mockAuthService.ensureSignedIn.mockResolvedValue(true);
+      mockAuthService.getSubscriptions.mockResolvedValue([
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+      ]);
+      mockShowQuickPickSingle
+        .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
+        .mockResolvedValueOnce({ endpoint: 'https://test.azconfig.io', name: 'store' })
+        .mockResolvedValueOnce({ label: 'Layer', value: '', layered: true })
+        .mockResolvedValueOnce({ label: '(no label)', value: '' })
+        .mockImplementation(async (items) => items[0]); // always the first remaining label
+      mockShowQuickPickMulti.mockResolvedValueOnce([{ key: 'App/Key1' }]);
+      mockListStores.mockResolvedValue([{ name: 'store', endpoint: 'https://test.azconfig.io' }]);
+      mockListLabels.mockResolvedValue(['', 'a', 'b', 'c', 'd', 'e']);
+      mockListKeys.mockResolvedValue([{ key: 'App/Key1' }]);
+
+      await runConnectFlow(createDeps());
+
+      expect(mockSaveSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ overrideLabels: ['a', 'b', 'c', 'd'] })
+      );
+    });
+
     it('should handle empty labels list by using empty string', async () => {
       mockAuthService.ensureSignedIn.mockResolvedValue(true);
       mockAuthService.getSubscriptions.mockResolvedValue([
-        { name: 'Sub1', subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
+        { name: 'Sub1', account: ACCOUNT, subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} },
       ]);
       mockShowQuickPickSingle
         .mockResolvedValueOnce({ subscription: { subscriptionId: 'sub-1', tenantId: 'tenant-1', credential: {} } })
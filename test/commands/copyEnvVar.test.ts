@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { copyEnvVarCommand } from '../../src/commands/copyEnvVar';
+
+describe('copyEnvVarCommand', () => {
+  it('copies the environment variable name and shows confirmation', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const showInformationMessage = vi.fn().mockResolvedValue(undefined);
+
+    await copyEnvVarCommand(
+      { envVar: 'MyService__Db__Host' },
+      {
+        writeText,
+        showInformationMessage,
+      }
+    );
+
+    expect(writeText).toHaveBeenCalledWith('MyService__Db__Host');
+    expect(showInformationMessage).toHaveBeenCalledWith('MyService__Db__Host copied to clipboard');
+  });
+
+  it('returns early when item is undefined', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const showInformationMessage = vi.fn().mockResolvedValue(undefined);
+
+    await copyEnvVarCommand(undefined, {
+      writeText,
+      showInformationMessage,
+    });
+
+    expect(writeText).not.toHaveBeenCalled();
+    expect(showInformationMessage).not.toHaveBeenCalled();
+  });
+
+  it('shows warning when the item has no variable name', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const showInformationMessage = vi.fn().mockResolvedValue(undefined);
+    const showWarningMessage = vi.fn().mockResolvedValue(undefined);
+
+    await copyEnvVarCommand(
+      {},
+      {
+        writeText,
+        showInformationMessage,
+        showWarningMessage,
+      }
+    );
+
+    expect(writeText).not.toHaveBeenCalled();
+    expect(showWarningMessage).toHaveBeenCalledWith(
+      'No environment variable name available to copy'
+    );
+  });
+});
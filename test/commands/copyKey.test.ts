@@ -15,6 +15,21 @@ describe('copyKeyCommand', () => {
     expect(showInformationMessage).toHaveBeenCalledWith('Key name copied to clipboard');
   });
 
+  it('mentions the environment variable name when known', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const showInformationMessage = vi.fn().mockResolvedValue(undefined);
+
+    await copyKeyCommand({ fullKey: 'App/Database/Host', envVar: 'APP_DATABASE_HOST' }, {
+      writeText,
+      showInformationMessage,
+    });
+
+    expect(writeText).toHaveBeenCalledWith('App/Database/Host');
+    expect(showInformationMessage).toHaveBeenCalledWith(
+      'Key name copied to clipboard (APP_DATABASE_HOST)'
+    );
+  });
+
   it('returns early when item is undefined', async () => {
     const writeText = vi.fn().mockResolvedValue(undefined);
     const showInformationMessage = vi.fn().mockResolvedValue(undefined);
@@ -15,6 +15,18 @@ describe('copyValueCommand', () => {
     expect(showInformationMessage).toHaveBeenCalledWith('Value copied to clipboard');
   });
 
+  it('mentions the environment variable name when known', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const showInformationMessage = vi.fn().mockResolvedValue(undefined);
+
+    await copyValueCommand({ value: 'db.local', envVar: 'DB_HOST' }, {
+      writeText,
+      showInformationMessage,
+    });
+
+    expect(showInformationMessage).toHaveBeenCalledWith('Value of DB_HOST copied to clipboard');
+  });
+
   it('returns early when item is undefined', async () => {
     const writeText = vi.fn().mockResolvedValue(undefined);
     const showInformationMessage = vi.fn().mockResolvedValue(undefined);
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  formatDiagnosticReport,
+  runDiagnoseFlow,
+  type DiagnoseDeps,
+  type DiagnoseSubscription,
+  type DiagnosticStep,
+} from '../../src/commands/diagnose';
+import { KEY_VAULT_REFERENCE_CONTENT_TYPE } from '../../src/models/configValue';
+import type { AzureEnvSettings } from '../../src/models/settings';
+import { AppConfigError, KeyVaultError } from '../../src/errors';
+
+const SUBSCRIPTION: DiagnoseSubscription = {
+  name: 'Dev',
+  subscriptionId: 'sub-1',
+  tenantId: 'tenant-1',
+};
+
+function statusError(statusCode: number): Error & { statusCode: number } {
+  return Object.assign(new Error(`status ${statusCode}`), { statusCode });
+}
+
+describe('runDiagnoseFlow', () => {
+  let settings: AzureEnvSettings;
+  let mockIsSignedIn: ReturnType<typeof vi.fn>;
+  let mockGetSubscriptions: ReturnType<typeof vi.fn>;
+  let mockGetToken: ReturnType<typeof vi.fn>;
+  let mockListSettings: ReturnType<typeof vi.fn>;
+  let mockGetSecret: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host', 'App/Db'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      auth: { credential: 'vscode' },
+      activeProfile: '',
+    };
+    mockIsSignedIn = vi.fn().mockResolvedValue(true);
+    mockGetSubscriptions = vi.fn().mockResolvedValue([SUBSCRIPTION]);
+    mockGetToken = vi.fn().mockResolvedValue({ token: 'abc', expiresOnTimestamp: 0 });
+    mockListSettings = vi.fn().mockResolvedValue([
+      { key: 'App/Host', value: 'localhost', label: 'dev' },
+      {
+        key: 'App/Db',
+        value: JSON.stringify({ uri: 'https://vault.vault.azure.net/secrets/Db' }),
+        label: 'dev',
+        contentType: KEY_VAULT_REFERENCE_CONTENT_TYPE,
+      },
+    ]);
+    mockGetSecret = vi.fn().mockResolvedValue('secret');
+  });
+
+  function createDeps(): DiagnoseDeps<DiagnoseSubscription> {
+    return {
+      getSettings: () => settings,
+      isSignedIn: mockIsSignedIn,
+      getSubscriptions: mockGetSubscriptions,
+      createCredential: () => ({ getToken: mockGetToken }),
+      listSettings: mockListSettings,
+      getSecret: mockGetSecret,
+    };
+  }
+
+  function summarize(steps: DiagnosticStep[]): string[][] {
+    return steps.map((step) => [step.name, step.status]);
+  }
+
+  it('runs every check in order', async () => {
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(summarize(steps)).toEqual([
+      ['Sign-in', 'pass'],
+      ['Subscription', 'pass'],
+      ['App Configuration token', 'pass'],
+      ['Key Vault token', 'pass'],
+      ['Reach dev', 'pass'],
+      ['Read dev', 'pass'],
+      ['Vault vault.vault.azure.net', 'pass'],
+    ]);
+    expect(mockGetToken).toHaveBeenCalledWith('https://appconfig.azure.com/.default');
+    expect(mockGetToken).toHaveBeenCalledWith('https://vault.azure.net/.default');
+    expect(mockListSettings).toHaveBeenCalledWith(expect.anything(), 'https://dev.azconfig.io', {
+      keyFilter: 'App/Host,App/Db',
+      labelFilter: 'dev',
+    });
+    expect(mockGetSecret).toHaveBeenCalledWith(
+      expect.anything(),
+      'https://vault.vault.azure.net/secrets/Db'
+    );
+  });
+
+  it('skips every later check when not signed in', async () => {
+    mockIsSignedIn.mockResolvedValue(false);
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(summarize(steps)).toEqual([
+      ['Sign-in', 'fail'],
+      ['Subscription', 'skip'],
+      ['App Configuration token', 'skip'],
+      ['Key Vault token', 'skip'],
+      ['Reach dev', 'skip'],
+      ['Read dev', 'skip'],
+    ]);
+    expect(steps[0].remediation?.action).toBe('signIn');
+    expect(mockGetSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('fails the tenant check but continues with the subscription found elsewhere', async () => {
+    mockGetSubscriptions.mockResolvedValue([{ ...SUBSCRIPTION, tenantId: 'tenant-2' }]);
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(steps[1]).toMatchObject({
+      name: 'Subscription',
+      status: 'fail',
+      summary: 'Dev is in tenant tenant-2, not the saved tenant',
+      remediation: { action: 'switchTenant' },
+    });
+    expect(steps.slice(2).every((step) => step.status === 'pass')).toBe(true);
+  });
+
+  it('uses the signed-in account when connected by endpoint', async () => {
+    settings.subscriptionId = '';
+    settings.tenantId = '';
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(steps[1]).toMatchObject({ name: 'Subscription', status: 'skip' });
+    expect(steps.slice(2).every((step) => step.status === 'pass')).toBe(true);
+    expect(mockGetSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('uses another credential source without sign-in or subscription', async () => {
+    settings.auth = { credential: 'azureCli' };
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(steps[0]).toMatchObject({
+      name: 'Sign-in',
+      status: 'skip',
+      summary: 'Tokens come from Azure CLI, checked by the token steps',
+    });
+    expect(steps[1]).toMatchObject({ name: 'Subscription', status: 'skip' });
+    expect(steps.slice(2).every((step) => step.status === 'pass')).toBe(true);
+    expect(mockIsSignedIn).not.toHaveBeenCalled();
+    expect(mockGetSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('stops when the subscription is not available', async () => {
+    mockGetSubscriptions.mockResolvedValue([]);
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(steps[1].status).toBe('fail');
+    expect(steps.slice(2).every((step) => step.status === 'skip')).toBe(true);
+    expect(mockGetToken).not.toHaveBeenCalled();
+  });
+
+  it('skips the stores when no App Configuration token is issued', async () => {
+    mockGetToken.mockImplementation(async (scope: string) => {
+      if (scope === 'https://appconfig.azure.com/.default') {
+        throw new Error('AADSTS50020: user not in tenant');
+      }
+      return { token: 'abc', expiresOnTimestamp: 0 };
+    });
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(summarize(steps)).toEqual([
+      ['Sign-in', 'pass'],
+      ['Subscription', 'pass'],
+      ['App Configuration token', 'fail'],
+      ['Key Vault token', 'pass'],
+      ['Reach dev', 'skip'],
+      ['Read dev', 'skip'],
+    ]);
+    expect(mockListSettings).not.toHaveBeenCalled();
+  });
+
+  it('reports a store that answers with 403 as reachable but not readable', async () => {
+    mockListSettings.mockRejectedValue(
+      new AppConfigError('Failed to list settings', 'App/Host', 'dev', statusError(403))
+    );
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(summarize(steps.slice(4))).toEqual([
+      ['Reach dev', 'pass'],
+      ['Read dev', 'fail'],
+    ]);
+    expect(steps[5].remediation).toMatchObject({
+      action: 'requestRole',
+      role: 'App Configuration Data Reader',
+    });
+  });
+
+  it('reports a store that does not answer as unreachable', async () => {
+    mockListSettings.mockRejectedValue(new Error('getaddrinfo ENOTFOUND dev.azconfig.io'));
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(summarize(steps.slice(4))).toEqual([
+      ['Reach dev', 'fail'],
+      ['Read dev', 'skip'],
+    ]);
+  });
+
+  it('checks each distinct vault once', async () => {
+    settings.selectedKeys = ['App/*'];
+    mockListSettings.mockResolvedValue(
+      [
+        ['App/Db', 'https://vault.vault.azure.net/secrets/Db'],
+        ['App/Api', 'https://vault.vault.azure.net/secrets/Api'],
+        ['App/Other', 'https://other.vault.azure.net/secrets/Key'],
+      ].map(([key, uri]) => ({
+        key,
+        value: JSON.stringify({ uri }),
+        contentType: KEY_VAULT_REFERENCE_CONTENT_TYPE,
+      }))
+    );
+    mockGetSecret.mockImplementation(async (_credential: unknown, uri: string) => {
+      if (uri.startsWith('https://other.')) {
+        throw new KeyVaultError('Forbidden', uri, statusError(403));
+      }
+      return 'secret';
+    });
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(mockListSettings).toHaveBeenCalledWith(expect.anything(), 'https://dev.azconfig.io', {
+      keyFilter: 'App/*',
+      labelFilter: 'dev',
+    });
+    expect(mockGetSecret).toHaveBeenCalledTimes(2);
+    expect(summarize(steps.slice(6))).toEqual([
+      ['Vault vault.vault.azure.net', 'pass'],
+      ['Vault other.vault.azure.net', 'fail'],
+    ]);
+    expect(steps[7].remediation?.role).toBe('Key Vault Secrets User');
+  });
+
+  it('reports a malformed reference instead of checking its vault', async () => {
+    mockListSettings.mockResolvedValue([
+      { key: 'App/Db', value: 'not json', contentType: KEY_VAULT_REFERENCE_CONTENT_TYPE },
+    ]);
+
+    const steps = await runDiagnoseFlow(createDeps());
+
+    expect(steps[6]).toMatchObject({
+      name: 'Reference App/Db',
+      status: 'fail',
+      remediation: { action: 'fixReference' },
+    });
+    expect(mockGetSecret).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatDiagnosticReport', () => {
+  const generatedAt = new Date('2026-01-01T00:00:00Z');
+
+  it('renders a pass/fail table with next steps', () => {
+    const report = formatDiagnosticReport(
+      [
+        { name: 'Sign-in', status: 'pass', summary: 'Signed in to a Microsoft account' },
+        {
+          name: 'Read dev',
+          status: 'fail',
+          summary: 'Reading the selected keys was refused',
+          remediation: { action: 'requestRole', title: 'Request', detail: 'Ask for a role.' },
+        },
+        { name: 'Vault v', status: 'skip', summary: 'Requires a Key Vault token' },
+      ],
+      generatedAt
+    );
+
+    expect(report).toContain('Generated 2026-01-01T00:00:00.000Z. 1 of 3 checks failed.');
+    expect(report).toContain('| Sign-in | ✅ Pass | Signed in to a Microsoft account |');
+    expect(report).toContain(
+      '| Read dev | ❌ Fail | Reading the selected keys was refused. Next step: Ask for a role. |'
+    );
+    expect(report).toContain('| Vault v | ⏭️ Skipped | Requires a Key Vault token |');
+  });
+
+  it('redacts sensitive fields in the log', () => {
+    const report = formatDiagnosticReport(
+      [
+        {
+          name: 'Reach dev',
+          status: 'fail',
+          summary: 'The store did not respond',
+          data: { endpoint: 'https://dev.azconfig.io', accessToken: 'abc123' },
+          error: new Error('timeout'),
+        },
+      ],
+      generatedAt
+    );
+
+    expect(report).toContain('[ERROR] Reach dev: fail. The store did not respond');
+    expect(report).toContain('Message: timeout');
+    expect(report).toContain('"endpoint": "https://dev.azconfig.io"');
+    expect(report).not.toContain('abc123');
+  });
+});
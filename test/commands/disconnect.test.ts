@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  runDisconnectFlow,
+  runReconnectFlow,
+  type DisconnectDeps,
+  type ReconnectDeps,
+} from '../../src/commands/disconnect';
+import type { ConnectionSnapshot } from '../../src/models/settings';
+
+describe('runDisconnectFlow', () => {
+  let snapshot: ConnectionSnapshot;
+  let mockShowWarningMessage: ReturnType<typeof vi.fn>;
+  let mockClearConnectionSettings: ReturnType<typeof vi.fn>;
+  let mockRememberConnection: ReturnType<typeof vi.fn>;
+  let mockTeardown: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    snapshot = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Key'],
+      label: 'dev',
+    };
+    mockShowWarningMessage = vi.fn().mockResolvedValue('Disconnect');
+    mockClearConnectionSettings = vi.fn().mockResolvedValue(undefined);
+    mockRememberConnection = vi.fn().mockResolvedValue(undefined);
+    mockTeardown = vi.fn();
+  });
+
+  function createDeps(): DisconnectDeps {
+    return {
+      getConnectionSnapshot: () => snapshot,
+      clearConnectionSettings: mockClearConnectionSettings,
+      rememberConnection: mockRememberConnection,
+      teardown: mockTeardown,
+      showWarningMessage: mockShowWarningMessage,
+    };
+  }
+
+  it('asks for confirmation in a modal', async () => {
+    await runDisconnectFlow(createDeps());
+
+    expect(mockShowWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('Disconnect'),
+      expect.objectContaining({ modal: true }),
+      'Disconnect'
+    );
+  });
+
+  it('does nothing when the user cancels', async () => {
+    mockShowWarningMessage.mockResolvedValue(undefined);
+
+    const result = await runDisconnectFlow(createDeps());
+
+    expect(result).toEqual({ disconnected: false, reason: 'cancelled' });
+    expect(mockClearConnectionSettings).not.toHaveBeenCalled();
+    expect(mockTeardown).not.toHaveBeenCalled();
+  });
+
+  it('remembers the settings, clears them and tears down the environment', async () => {
+    const result = await runDisconnectFlow(createDeps());
+
+    expect(result).toEqual({ disconnected: true, canReconnect: true });
+    expect(mockRememberConnection).toHaveBeenCalledWith(snapshot);
+    expect(mockClearConnectionSettings).toHaveBeenCalled();
+    expect(mockTeardown).toHaveBeenCalled();
+  });
+
+  it('still clears up when there is no connection to remember', async () => {
+    snapshot = {};
+
+    const result = await runDisconnectFlow(createDeps());
+
+    expect(result).toEqual({ disconnected: true, canReconnect: false });
+    expect(mockRememberConnection).not.toHaveBeenCalled();
+    expect(mockClearConnectionSettings).toHaveBeenCalled();
+    expect(mockTeardown).toHaveBeenCalled();
+  });
+});
+
+describe('runReconnectFlow', () => {
+  let mockRestoreConnectionSettings: ReturnType<typeof vi.fn>;
+  let mockForgetConnection: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockRestoreConnectionSettings = vi.fn().mockResolvedValue(undefined);
+    mockForgetConnection = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(remembered?: ConnectionSnapshot): ReconnectDeps {
+    return {
+      getRememberedConnection: () => remembered,
+      restoreConnectionSettings: mockRestoreConnectionSettings,
+      forgetConnection: mockForgetConnection,
+    };
+  }
+
+  it('restores the remembered settings once', async () => {
+    const remembered = { endpoint: 'https://dev.azconfig.io', activeProfile: 'dev' };
+
+    const result = await runReconnectFlow(createDeps(remembered));
+
+    expect(result).toEqual({ reconnected: true, snapshot: remembered });
+    expect(mockRestoreConnectionSettings).toHaveBeenCalledWith(remembered);
+    expect(mockForgetConnection).toHaveBeenCalled();
+  });
+
+  it('reports when nothing was remembered', async () => {
+    const result = await runReconnectFlow(createDeps(undefined));
+
+    expect(result).toEqual({ reconnected: false, reason: 'nothing_remembered' });
+    expect(mockRestoreConnectionSettings).not.toHaveBeenCalled();
+  });
+});
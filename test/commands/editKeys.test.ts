@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runEditKeysFlow, type EditKeysDeps } from '../../src/commands/editKeys';
+import type { AzureEnvSettings } from '../../src/models/settings';
+
+interface PickItem {
+  label: string;
+  description?: string;
+  picked?: boolean;
+  selection: string;
+}
+
+describe('runEditKeysFlow', () => {
+  let settings: AzureEnvSettings;
+  let mockListKeys: ReturnType<typeof vi.fn>;
+  let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
+  let mockShowQuickPickMulti: ReturnType<typeof vi.fn>;
+  let mockSaveSettings: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host', 'Legacy/Key'],
+      excludedKeys: ['App/Db/Port'],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    mockListKeys = vi.fn().mockResolvedValue(['App/Db/Host', 'App/Db/Port', 'App/Host', 'Root']);
+    mockShowQuickPickSingle = vi.fn(async (items) => items[0]);
+    mockShowQuickPickMulti = vi.fn(async (items: PickItem[]) =>
+      items.filter((item) => item.picked)
+    );
+    mockSaveSettings = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): EditKeysDeps {
+    return {
+      getSettings: () => settings,
+      listKeys: mockListKeys,
+      showQuickPickSingle: mockShowQuickPickSingle,
+      showQuickPickMulti: mockShowQuickPickMulti,
+      saveSettings: mockSaveSettings,
+    };
+  }
+
+  function pick(...selections: string[]): void {
+    mockShowQuickPickMulti.mockImplementation(async (items: PickItem[]) =>
+      items.filter((item) => selections.includes(item.selection))
+    );
+  }
+
+  it('lists keys grouped under whole-folder entries with the selection pre-checked', async () => {
+    await runEditKeysFlow(createDeps());
+
+    const items: PickItem[] = mockShowQuickPickMulti.mock.calls[0][0];
+    expect(items.map((item) => item.selection)).toEqual([
+      'App/*',
+      'App/Db/*',
+      'App/Db/Host',
+      'App/Db/Port',
+      'App/Host',
+      'Root',
+    ]);
+    expect(items.filter((item) => item.picked).map((item) => item.selection)).toEqual(['App/Host']);
+    expect(items[0]).toMatchObject({
+      label: '$(folder) App/*',
+      description: 'Whole folder, including keys added later',
+    });
+  });
+
+  it('notes keys a selected folder already includes', async () => {
+    settings.selectedKeys = ['App/*'];
+
+    await runEditKeysFlow(createDeps());
+
+    const items: PickItem[] = mockShowQuickPickMulti.mock.calls[0][0];
+    expect(items.find((item) => item.selection === 'App/Host')?.description).toBe(
+      'Included by App/*'
+    );
+  });
+
+  it('saves only the difference and keeps selections that are not listed', async () => {
+    pick('App/Db/*', 'Root');
+
+    const result = await runEditKeysFlow(createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      selectedKeys: ['Legacy/Key', 'App/Db/*', 'Root'],
+    });
+    expect(result).toEqual({
+      saved: true,
+      added: ['App/Db/*', 'Root'],
+      removed: ['App/Host'],
+      store: 'dev',
+    });
+  });
+
+  it('drops the exact exclusion of a key that is added', async () => {
+    pick('App/Host', 'App/Db/Port');
+
+    await runEditKeysFlow(createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      selectedKeys: ['App/Host', 'Legacy/Key', 'App/Db/Port'],
+      excludedKeys: [],
+    });
+  });
+
+  it('updates an additional store in place', async () => {
+    settings.stores = [
+      { name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: ['Root'] },
+    ];
+    mockShowQuickPickSingle.mockImplementation(async (items) => items[1]);
+    pick('Root', 'App/Host');
+
+    await runEditKeysFlow(createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      stores: [
+        {
+          name: 'shared',
+          endpoint: 'https://shared.azconfig.io',
+          selectedKeys: ['Root', 'App/Host'],
+        },
+      ],
+    });
+  });
+
+  it('saves nothing when the selection is unchanged', async () => {
+    const result = await runEditKeysFlow(createDeps());
+
+    expect(result).toEqual({ saved: false, reason: 'unchanged' });
+    expect(mockSaveSettings).not.toHaveBeenCalled();
+  });
+
+  it('returns cancelled when the pick is dismissed', async () => {
+    mockShowQuickPickMulti.mockResolvedValue(undefined);
+
+    const result = await runEditKeysFlow(createDeps());
+
+    expect(result).toEqual({ saved: false, reason: 'cancelled' });
+  });
+
+  it('returns no_keys for an empty store', async () => {
+    mockListKeys.mockResolvedValue([]);
+
+    const result = await runEditKeysFlow(createDeps());
+
+    expect(result).toEqual({ saved: false, reason: 'no_keys' });
+  });
+
+  it('returns not_connected without a store', async () => {
+    settings.endpoint = '';
+
+    const result = await runEditKeysFlow(createDeps());
+
+    expect(result).toEqual({ saved: false, reason: 'not_connected' });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  runEditValueFlow,
+  type EditValueDeps,
+  type EditValueItem,
+} from '../../src/commands/editValue';
+import { SettingConflictError } from '../../src/errors';
+import type { AzureEnvSettings } from '../../src/models/settings';
+
+describe('runEditValueFlow', () => {
+  let settings: AzureEnvSettings;
+  let item: EditValueItem;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
+  let mockEditInEditor: ReturnType<typeof vi.fn>;
+  let mockGetSetting: ReturnType<typeof vi.fn>;
+  let mockSetSetting: ReturnType<typeof vi.fn>;
+  let mockSetSecret: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: ['local'],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    item = {
+      key: 'App/Host',
+      value: 'localhost',
+      isSecret: false,
+      sourceLabel: 'local',
+      store: 'dev',
+      etag: 'etag-1',
+    };
+    mockShowInputBox = vi.fn().mockResolvedValue('example.com');
+    mockEditInEditor = vi.fn().mockResolvedValue('line 1\nline 3');
+    mockGetSetting = vi.fn().mockResolvedValue({
+      key: 'App/Host',
+      label: 'local',
+      value: 'localhost',
+      etag: 'etag-1',
+      contentType: 'text/plain',
+      tags: { owner: 'team' },
+    });
+    mockSetSetting = vi.fn().mockResolvedValue('etag-2');
+    mockSetSecret = vi
+      .fn()
+      .mockResolvedValue('https://team-vault.vault.azure.net/secrets/Db-Password');
+  });
+
+  function createDeps(): EditValueDeps {
+    return {
+      getSettings: () => settings,
+      showInputBox: mockShowInputBox,
+      editInEditor: mockEditInEditor,
+      getSetting: mockGetSetting,
+      setSetting: mockSetSetting,
+      setSecret: mockSetSecret,
+    };
+  }
+
+  it('writes the new value to the label it was read from, conditional on its etag', async () => {
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(mockShowInputBox.mock.calls[0][0].value).toBe('localhost');
+    expect(mockGetSetting).toHaveBeenCalledWith('https://dev.azconfig.io', 'App/Host', 'local');
+    expect(mockSetSetting).toHaveBeenCalledWith(
+      'https://dev.azconfig.io',
+      'App/Host',
+      'example.com',
+      'local',
+      { contentType: 'text/plain', tags: { owner: 'team' }, etag: 'etag-1' }
+    );
+    expect(result).toEqual({
+      edited: true,
+      key: 'App/Host',
+      value: 'example.com',
+      etag: 'etag-2',
+    });
+  });
+
+  it('edits multi-line values in an editor', async () => {
+    item.value = 'line 1\nline 2';
+    mockGetSetting.mockResolvedValue({ key: 'App/Host', value: 'line 1\nline 2', etag: 'etag-1' });
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(mockEditInEditor).toHaveBeenCalledWith('App/Host', 'line 1\nline 2');
+    expect(mockShowInputBox).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ edited: true, value: 'line 1\nline 3' });
+  });
+
+  it('returns conflict when the setting changed since it was loaded', async () => {
+    mockSetSetting.mockRejectedValue(new SettingConflictError('App/Host', 'local'));
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(result).toEqual({ edited: false, reason: 'conflict' });
+  });
+
+  it('returns conflict without writing when the stored etag differs', async () => {
+    mockGetSetting.mockResolvedValue({ key: 'App/Host', value: 'other', etag: 'etag-3' });
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(result).toEqual({ edited: false, reason: 'conflict' });
+    expect(mockSetSetting).not.toHaveBeenCalled();
+  });
+
+  it('uses the stored etag when the tree has none and the value is unchanged', async () => {
+    item.etag = undefined;
+
+    await runEditValueFlow(item, createDeps());
+
+    expect(mockSetSetting.mock.calls[0][4]).toMatchObject({ etag: 'etag-1' });
+  });
+
+  it('returns conflict when the tree has no etag and the stored value changed', async () => {
+    item.etag = undefined;
+    mockGetSetting.mockResolvedValue({ key: 'App/Host', value: 'other', etag: 'etag-3' });
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(result).toEqual({ edited: false, reason: 'conflict' });
+    expect(mockSetSetting).not.toHaveBeenCalled();
+  });
+
+  it('rethrows other write failures', async () => {
+    mockSetSetting.mockRejectedValue(new Error('Forbidden'));
+
+    await expect(runEditValueFlow(item, createDeps())).rejects.toThrow('Forbidden');
+  });
+
+  it('does not write an unchanged value', async () => {
+    mockShowInputBox.mockResolvedValue('localhost');
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(result).toEqual({ edited: false, reason: 'unchanged' });
+    expect(mockSetSetting).not.toHaveBeenCalled();
+  });
+
+  it('returns cancelled when the input is dismissed', async () => {
+    mockShowInputBox.mockResolvedValue(undefined);
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(result).toEqual({ edited: false, reason: 'cancelled' });
+  });
+
+  it('returns not_editable when the store is no longer configured', async () => {
+    settings.stores = [
+      { name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: [] },
+    ];
+    item.store = 'removed';
+
+    const result = await runEditValueFlow(item, createDeps());
+
+    expect(result).toEqual({ edited: false, reason: 'not_editable' });
+  });
+
+  describe('secrets', () => {
+    beforeEach(() => {
+      item = {
+        key: 'App/Db/Password',
+        value: 'old',
+        isSecret: true,
+        store: 'dev',
+        secretUri: 'https://team-vault.vault.azure.net/secrets/Db-Password',
+      };
+      mockShowInputBox.mockResolvedValue('new');
+    });
+
+    it('adds a new version of the referenced secret', async () => {
+      const result = await runEditValueFlow(item, createDeps());
+
+      expect(mockShowInputBox.mock.calls[0][0].password).toBe(true);
+      expect(mockSetSecret).toHaveBeenCalledWith(
+        'https://team-vault.vault.azure.net',
+        'Db-Password',
+        'new'
+      );
+      expect(mockSetSetting).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        edited: true,
+        key: 'App/Db/Password',
+        value: 'new',
+        pinned: false,
+      });
+    });
+
+    it('reports a reference pinned to a secret version', async () => {
+      item.secretUri = 'https://team-vault.vault.azure.net/secrets/Db-Password/abc123';
+
+      const result = await runEditValueFlow(item, createDeps());
+
+      expect(result).toMatchObject({ edited: true, pinned: true });
+    });
+
+    it('returns not_editable without the secret URI', async () => {
+      item.secretUri = undefined;
+
+      const result = await runEditValueFlow(item, createDeps());
+
+      expect(result).toEqual({ edited: false, reason: 'not_editable' });
+    });
+  });
+});
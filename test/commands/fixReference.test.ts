@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runFixReferenceFlow, type FixReferenceDeps } from '../../src/commands/fixReference';
+import { KEY_VAULT_REFERENCE_CONTENT_TYPE } from '../../src/models/configValue';
+import type { AzureEnvSettings } from '../../src/models/settings';
+import { SettingConflictError } from '../../src/errors';
+
+const SECRET_URI = 'https://vault.vault.azure.net/secrets/Db';
+
+describe('runFixReferenceFlow', () => {
+  let settings: AzureEnvSettings;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
+  let mockGetSetting: ReturnType<typeof vi.fn>;
+  let mockSetSetting: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Db'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [{ name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: [] }],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    mockShowInputBox = vi.fn().mockResolvedValue(SECRET_URI);
+    mockGetSetting = vi.fn().mockResolvedValue({
+      key: 'App/Db',
+      value: 'broken',
+      etag: 'e1',
+      tags: { owner: 'team' },
+    });
+    mockSetSetting = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): FixReferenceDeps {
+    return {
+      getSettings: () => settings,
+      showInputBox: mockShowInputBox,
+      getSetting: mockGetSetting,
+      setSetting: mockSetSetting,
+    };
+  }
+
+  it('writes a reference to the entered secret under the label it was read from', async () => {
+    const result = await runFixReferenceFlow(
+      { key: 'App/Db', store: 'dev', label: 'prod' },
+      createDeps()
+    );
+
+    expect(mockGetSetting).toHaveBeenCalledWith('https://dev.azconfig.io', 'App/Db', 'prod');
+    expect(mockSetSetting).toHaveBeenCalledWith(
+      'https://dev.azconfig.io',
+      'App/Db',
+      JSON.stringify({ uri: SECRET_URI }),
+      'prod',
+      { contentType: KEY_VAULT_REFERENCE_CONTENT_TYPE, tags: { owner: 'team' }, etag: 'e1' }
+    );
+    expect(result).toEqual({ fixed: true, key: 'App/Db', secretUri: SECRET_URI });
+  });
+
+  it('does not write a reference that changed since it was loaded', async () => {
+    const result = await runFixReferenceFlow(
+      { key: 'App/Db', reference: JSON.stringify({ uri: SECRET_URI }) },
+      createDeps()
+    );
+
+    expect(result).toEqual({ fixed: false, reason: 'conflict' });
+    expect(mockSetSetting).not.toHaveBeenCalled();
+  });
+
+  it('reports a conflict when the setting changes before the write', async () => {
+    mockSetSetting.mockRejectedValue(new SettingConflictError('App/Db', 'dev'));
+
+    const result = await runFixReferenceFlow({ key: 'App/Db', reference: 'broken' }, createDeps());
+
+    expect(result).toEqual({ fixed: false, reason: 'conflict' });
+  });
+
+  it('writes a reference read from the null label back to the null label', async () => {
+    await runFixReferenceFlow({ key: 'App/Db', store: 'dev', label: '' }, createDeps());
+
+    expect(mockSetSetting.mock.calls[0][3]).toBe('');
+  });
+
+  it('writes to the store the key was read from', async () => {
+    await runFixReferenceFlow({ key: 'App/Db', store: 'shared' }, createDeps());
+
+    expect(mockSetSetting.mock.calls[0][0]).toBe('https://shared.azconfig.io');
+    expect(mockSetSetting.mock.calls[0][3]).toBe('dev');
+  });
+
+  it('offers the current URI of a reference that can still be read', async () => {
+    await runFixReferenceFlow(
+      { key: 'App/Db', reference: JSON.stringify({ uri: SECRET_URI }) },
+      createDeps()
+    );
+
+    expect(mockShowInputBox.mock.calls[0][0].value).toBe(SECRET_URI);
+  });
+
+  it('offers a bare URI stored in place of the reference', async () => {
+    await runFixReferenceFlow({ key: 'App/Db', reference: SECRET_URI }, createDeps());
+
+    expect(mockShowInputBox.mock.calls[0][0].value).toBe(SECRET_URI);
+  });
+
+  it('accepts only secret URIs', async () => {
+    await runFixReferenceFlow({ key: 'App/Db' }, createDeps());
+
+    const { validateInput } = mockShowInputBox.mock.calls[0][0];
+    expect(validateInput(SECRET_URI)).toBeUndefined();
+    expect(validateInput('https://vault.vault.azure.net/keys/Db')).toBe(
+      'Invalid Key Vault secret URI'
+    );
+  });
+
+  it('changes nothing when cancelled', async () => {
+    mockShowInputBox.mockResolvedValue(undefined);
+
+    const result = await runFixReferenceFlow({ key: 'App/Db' }, createDeps());
+
+    expect(result).toEqual({ fixed: false, reason: 'cancelled' });
+    expect(mockSetSetting).not.toHaveBeenCalled();
+  });
+});
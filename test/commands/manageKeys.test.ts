@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  runDeleteKeyFlow,
+  runRenameKeyFlow,
+  type ManageKeyItem,
+  type ManageKeysDeps,
+} from '../../src/commands/manageKeys';
+import type { AzureEnvSettings } from '../../src/models/settings';
+
+interface StoredSetting {
+  key: string;
+  value: string;
+  label?: string;
+  contentType?: string;
+  tags?: Record<string, string>;
+}
+
+function leaf(key: string): ManageKeyItem {
+  return { key, isValue: true, children: [], store: 'dev' };
+}
+
+describe('manageKeys', () => {
+  let settings: AzureEnvSettings;
+  let stored: StoredSetting[];
+  let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
+  let mockShowWarningMessage: ReturnType<typeof vi.fn>;
+  let mockListSettings: ReturnType<typeof vi.fn>;
+  let mockSetSetting: ReturnType<typeof vi.fn>;
+  let mockDeleteSetting: ReturnType<typeof vi.fn>;
+  let mockSaveSettings: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host', 'App/Db/*'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    stored = [
+      { key: 'App/Host', value: 'localhost', label: 'dev', tags: { owner: 'team' } },
+      { key: 'App/Db/Host', value: 'db', label: 'dev' },
+      { key: 'App/Db/Port', value: '5432', label: 'dev' },
+      { key: 'App/Db/Port', value: '5433', label: 'prod' },
+    ];
+    mockShowQuickPickSingle = vi.fn(async (items) => items[0]);
+    mockShowInputBox = vi.fn().mockResolvedValue('App/Url');
+    mockShowWarningMessage = vi.fn(async (_message, _options, confirmLabel) => confirmLabel);
+    mockListSettings = vi.fn(async (_endpoint, { keyFilter, labelFilter }) => {
+      const keys = keyFilter.split(',');
+      const labels = labelFilter.split(',');
+      return stored.filter(
+        (setting) =>
+          keys.some((key: string) =>
+            key.endsWith('*') ? setting.key.startsWith(key.slice(0, -1)) : key === setting.key
+          ) && labels.includes(setting.label || '\0')
+      );
+    });
+    mockSetSetting = vi.fn().mockResolvedValue(undefined);
+    mockDeleteSetting = vi.fn().mockResolvedValue(undefined);
+    mockSaveSettings = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): ManageKeysDeps {
+    return {
+      getSettings: () => settings,
+      showQuickPickSingle: mockShowQuickPickSingle,
+      showInputBox: mockShowInputBox,
+      showWarningMessage: mockShowWarningMessage,
+      listSettings: mockListSettings,
+      setSetting: mockSetSetting,
+      deleteSetting: mockDeleteSetting,
+      saveSettings: mockSaveSettings,
+    };
+  }
+
+  const dbFolder: ManageKeyItem = {
+    key: 'App/Db',
+    isValue: false,
+    store: 'dev',
+    children: [
+      { key: 'App/Db/Host', isValue: true, children: [] },
+      { key: 'App/Db/Port', isValue: true, children: [] },
+    ],
+  };
+
+  describe('runDeleteKeyFlow', () => {
+    it('deletes the key under the refreshed labels and deselects it', async () => {
+      const result = await runDeleteKeyFlow(leaf('App/Host'), createDeps());
+
+      expect(mockDeleteSetting).toHaveBeenCalledWith('https://dev.azconfig.io', 'App/Host', 'dev');
+      expect(mockSaveSettings).toHaveBeenCalledWith({ selectedKeys: ['App/Db/*'] });
+      expect(result).toEqual({ deleted: true, keys: ['App/Host'], store: 'dev' });
+    });
+
+    it('previews and deletes every key under a folder', async () => {
+      const result = await runDeleteKeyFlow(dbFolder, createDeps());
+
+      expect(mockShowWarningMessage).toHaveBeenCalledWith(
+        'Delete 2 settings from dev?',
+        { modal: true, detail: 'App/Db/Host [dev]\nApp/Db/Port [dev]' },
+        'Delete'
+      );
+      expect(mockDeleteSetting).toHaveBeenCalledTimes(2);
+      expect(mockSaveSettings).toHaveBeenCalledWith({ selectedKeys: ['App/Host'] });
+      expect(result).toMatchObject({ deleted: true, keys: ['App/Db/Host', 'App/Db/Port'] });
+    });
+
+    it('deletes keys under a folder that the tree has not loaded', async () => {
+      stored.push({ key: 'App/Db/User', value: 'admin', label: 'dev' });
+
+      const result = await runDeleteKeyFlow(dbFolder, createDeps());
+
+      expect(mockListSettings).toHaveBeenCalledWith('https://dev.azconfig.io', {
+        keyFilter: 'App/Db/*',
+        labelFilter: 'dev',
+      });
+      expect(mockDeleteSetting).toHaveBeenCalledWith(
+        'https://dev.azconfig.io',
+        'App/Db/User',
+        'dev'
+      );
+      expect(result).toMatchObject({
+        deleted: true,
+        keys: ['App/Db/Host', 'App/Db/Port', 'App/Db/User'],
+      });
+    });
+
+    it('includes override labels', async () => {
+      settings.overrideLabels = ['prod'];
+
+      await runDeleteKeyFlow(leaf('App/Db/Port'), createDeps());
+
+      expect(mockDeleteSetting).toHaveBeenCalledWith(
+        'https://dev.azconfig.io',
+        'App/Db/Port',
+        'prod'
+      );
+      expect(mockDeleteSetting).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps a prefix selection that covers more than the deleted key', async () => {
+      await runDeleteKeyFlow(leaf('App/Db/Host'), createDeps());
+
+      expect(mockSaveSettings).not.toHaveBeenCalled();
+    });
+
+    it('deletes nothing when not confirmed', async () => {
+      mockShowWarningMessage.mockResolvedValue(undefined);
+
+      const result = await runDeleteKeyFlow(leaf('App/Host'), createDeps());
+
+      expect(result).toEqual({ deleted: false, reason: 'cancelled' });
+      expect(mockDeleteSetting).not.toHaveBeenCalled();
+    });
+
+    it('returns not_found when the key is gone', async () => {
+      const result = await runDeleteKeyFlow(leaf('App/Missing'), createDeps());
+
+      expect(result).toEqual({ deleted: false, reason: 'not_found' });
+    });
+  });
+
+  describe('runRenameKeyFlow', () => {
+    it('copies value, content type and tags, then deletes the old key', async () => {
+      const result = await runRenameKeyFlow(leaf('App/Host'), createDeps());
+
+      expect(mockSetSetting).toHaveBeenCalledWith(
+        'https://dev.azconfig.io',
+        'App/Url',
+        'localhost',
+        'dev',
+        { contentType: undefined, tags: { owner: 'team' } }
+      );
+      expect(mockDeleteSetting).toHaveBeenCalledWith('https://dev.azconfig.io', 'App/Host', 'dev');
+      expect(mockSetSetting.mock.invocationCallOrder[0]).toBeLessThan(
+        mockDeleteSetting.mock.invocationCallOrder[0]
+      );
+      expect(mockSaveSettings).toHaveBeenCalledWith({ selectedKeys: ['App/Url', 'App/Db/*'] });
+      expect(result).toEqual({
+        renamed: true,
+        keys: [{ from: 'App/Host', to: 'App/Url' }],
+        store: 'dev',
+      });
+    });
+
+    it('moves every key under a folder along with its prefix selection', async () => {
+      mockShowInputBox.mockResolvedValue('App/Database');
+
+      const result = await runRenameKeyFlow(dbFolder, createDeps());
+
+      expect(mockShowWarningMessage.mock.calls[0][1].detail).toBe(
+        'App/Db/Host [dev] → App/Database/Host\nApp/Db/Port [dev] → App/Database/Port'
+      );
+      expect(mockSetSetting.mock.calls.map((call) => call[1])).toEqual([
+        'App/Database/Host',
+        'App/Database/Port',
+      ]);
+      expect(mockSaveSettings).toHaveBeenCalledWith({
+        selectedKeys: ['App/Host', 'App/Database/*'],
+      });
+      expect(result).toMatchObject({ renamed: true, store: 'dev' });
+    });
+
+    it('selects a renamed key that a prefix selection no longer covers', async () => {
+      mockShowInputBox.mockResolvedValue('Other/Host');
+
+      await runRenameKeyFlow(leaf('App/Db/Host'), createDeps());
+
+      expect(mockSaveSettings).toHaveBeenCalledWith({
+        selectedKeys: ['App/Host', 'App/Db/*', 'Other/Host'],
+      });
+    });
+
+    it('refuses to overwrite an existing key', async () => {
+      mockShowInputBox.mockResolvedValue('App/Db/Host');
+
+      const result = await runRenameKeyFlow(leaf('App/Host'), createDeps());
+
+      expect(result).toEqual({ renamed: false, reason: 'exists', keys: ['App/Db/Host'] });
+      expect(mockSetSetting).not.toHaveBeenCalled();
+    });
+
+    it('rejects the unchanged name', async () => {
+      await runRenameKeyFlow(leaf('App/Host'), createDeps());
+
+      const { validateInput } = mockShowInputBox.mock.calls[0][0];
+      expect(validateInput('App/Host')).toBe('Enter a different name');
+      expect(validateInput('App/Url')).toBeUndefined();
+    });
+
+    it('changes nothing when not confirmed', async () => {
+      mockShowWarningMessage.mockResolvedValue(undefined);
+
+      const result = await runRenameKeyFlow(leaf('App/Host'), createDeps());
+
+      expect(result).toEqual({ renamed: false, reason: 'cancelled' });
+      expect(mockSetSetting).not.toHaveBeenCalled();
+      expect(mockDeleteSetting).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runPruneMissingKeysFlow, type PruneKeysDeps } from '../../src/commands/pruneKeys';
+import type { MissingKey } from '../../src/models/keyHierarchy';
+import type { AzureEnvSettings } from '../../src/models/settings';
+
+interface PickItem {
+  label: string;
+  description?: string;
+  picked?: boolean;
+  key: string;
+  action: 'remove' | 'add';
+}
+
+describe('runPruneMissingKeysFlow', () => {
+  let settings: AzureEnvSettings;
+  let missing: MissingKey[];
+  let mockListKeys: ReturnType<typeof vi.fn>;
+  let mockShowQuickPickMulti: ReturnType<typeof vi.fn>;
+  let mockSaveSettings: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host', 'App/ConnString', 'Web/*'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    missing = [
+      { key: 'App/Host', store: 'dev', labels: ['dev'] },
+      { key: 'App/ConnString', store: 'dev', labels: ['dev'] },
+    ];
+    mockListKeys = vi.fn().mockResolvedValue(['App/ConnStrings', 'App/Timeout', 'Web/Host']);
+    mockShowQuickPickMulti = vi.fn(async (items: PickItem[]) =>
+      items.filter((item) => item.picked)
+    );
+    mockSaveSettings = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): PruneKeysDeps {
+    return {
+      getSettings: () => settings,
+      listKeys: mockListKeys,
+      showQuickPickMulti: mockShowQuickPickMulti,
+      saveSettings: mockSaveSettings,
+    };
+  }
+
+  it('lists each missing key for removal followed by its likely rename', async () => {
+    await runPruneMissingKeysFlow(missing, createDeps());
+
+    const items: PickItem[] = mockShowQuickPickMulti.mock.calls[0][0];
+    expect(items.map((item) => [item.label, item.description, item.picked])).toEqual([
+      ['$(trash) App/Host', 'remove from selected keys', true],
+      ['$(trash) App/ConnString', 'remove from selected keys', true],
+      ['$(arrow-right) App/ConnStrings', 'select instead of App/ConnString', undefined],
+    ]);
+    expect(mockListKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not suggest a key that is already selected', async () => {
+    await runPruneMissingKeysFlow(missing, createDeps());
+
+    const items: PickItem[] = mockShowQuickPickMulti.mock.calls[0][0];
+    expect(items.map((item) => item.key)).not.toContain('Web/Host');
+  });
+
+  it('removes the picked keys and selects the picked renames', async () => {
+    mockShowQuickPickMulti.mockImplementation(async (items: PickItem[]) =>
+      items.filter((item) => item.key !== 'App/Host')
+    );
+
+    const result = await runPruneMissingKeysFlow(missing, createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      selectedKeys: ['App/Host', 'Web/*', 'App/ConnStrings'],
+    });
+    expect(result).toEqual({
+      pruned: true,
+      removed: ['App/ConnString'],
+      added: ['App/ConnStrings'],
+    });
+  });
+
+  it('updates additional stores in the same save', async () => {
+    settings.stores = [
+      { name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: ['Shared/Key'] },
+    ];
+    missing.push({ key: 'Shared/Key', store: 'shared', labels: ['dev'] });
+    mockListKeys.mockResolvedValue([]);
+
+    await runPruneMissingKeysFlow(missing, createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledTimes(1);
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      selectedKeys: ['Web/*'],
+      stores: [{ name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: [] }],
+    });
+  });
+
+  it('updates a store that shares the primary endpoint under another label', async () => {
+    settings.selectedKeys = ['Web/*'];
+    settings.stores = [
+      { endpoint: 'https://dev.azconfig.io', label: 'prod', selectedKeys: ['App/Host'] },
+    ];
+    missing = [{ key: 'App/Host', store: 'dev', labels: ['prod'] }];
+    mockListKeys.mockResolvedValue([]);
+
+    await runPruneMissingKeysFlow(missing, createDeps());
+
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      stores: [{ endpoint: 'https://dev.azconfig.io', label: 'prod', selectedKeys: [] }],
+    });
+  });
+
+  it('skips keys that are no longer selected', async () => {
+    settings.selectedKeys = ['Web/*'];
+
+    const result = await runPruneMissingKeysFlow(missing, createDeps());
+
+    expect(result).toEqual({ pruned: false, reason: 'nothing_missing' });
+    expect(mockShowQuickPickMulti).not.toHaveBeenCalled();
+  });
+
+  it('returns cancelled when the pick is dismissed', async () => {
+    mockShowQuickPickMulti.mockResolvedValue(undefined);
+
+    const result = await runPruneMissingKeysFlow(missing, createDeps());
+
+    expect(result).toEqual({ pruned: false, reason: 'cancelled' });
+    expect(mockSaveSettings).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,48 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { refreshEnvironment, RefreshOptions } from '../../src/commands/refresh';
+import { refreshEnvironment, RefreshOptions, RefreshSource } from '../../src/commands/refresh';
+import {
+  AuthenticationError,
+  EnvVarCollisionError,
+  KeyVaultReferenceError,
+} from '../../src/errors';
+
+interface StoredSetting {
+  key: string;
+  value?: string;
+  label?: string;
+  contentType?: string;
+  etag?: string;
+}
+
+const KEY_VAULT_REF = 'application/vnd.microsoft.appconfig.keyvaultref+json';
+
+/**
+ * Split an App Configuration filter on unescaped commas and unescape each value.
+ */
+function parseFilter(filter: string): { value: string; prefix: boolean }[] {
+  return filter.split(/(?<!\\),/).map((part) => ({
+    value: part.replace(/(?<!\\)\*$/, '').replace(/\\(.)/g, '$1'),
+    prefix: /(?<!\\)\*$/.test(part),
+  }));
+}
+
+/**
+ * Create a listSettings mock that applies key and label filters to the given settings.
+ */
+function createStore(settings: StoredSetting[]) {
+  return vi.fn(async ({ keyFilter = '*', labelFilter = '*' }) => {
+    const keys = parseFilter(keyFilter);
+    const labels = labelFilter === '*' ? undefined : labelFilter.split(',');
+    return settings
+      .filter((setting) =>
+        keys.some(({ value, prefix }) =>
+          prefix ? setting.key.startsWith(value) : setting.key === value
+        )
+      )
+      .filter((setting) => !labels || labels.includes(setting.label || '\0'))
+      .map((setting) => ({ contentType: 'text/plain', ...setting }));
+  });
+}
 
 describe('refreshEnvironment', () => {
   let mockEnvCollection: {
@@ -7,10 +50,11 @@ describe('refreshEnvironment', () => {
     replace: ReturnType<typeof vi.fn>;
   };
   let mockAppConfigService: {
-    getSetting: ReturnType<typeof vi.fn>;
+    listSettings: ReturnType<typeof vi.fn>;
   };
   let mockKeyVaultService: {
     resolveSecret: ReturnType<typeof vi.fn>;
+    resolveSecretDetails: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -19,44 +63,77 @@ describe('refreshEnvironment', () => {
       replace: vi.fn(),
     };
     mockAppConfigService = {
-      getSetting: vi.fn(),
+      listSettings: createStore([]),
     };
+    const resolveSecret = vi.fn();
     mockKeyVaultService = {
-      resolveSecret: vi.fn(),
+      resolveSecret,
+      resolveSecretDetails: vi.fn(async (uri: string) => ({
+        value: await resolveSecret(uri),
+        fromCache: false,
+      })),
     };
   });
 
-  function createOptions(overrides: Partial<RefreshOptions> = {}): RefreshOptions {
+  function useStore(settings: StoredSetting[]): void {
+    mockAppConfigService.listSettings = createStore(settings);
+  }
+
+  function createSource(overrides: Partial<RefreshSource> = {}): RefreshSource {
     return {
+      name: 'store',
       selectedKeys: ['App/Key'],
       label: 'dev',
-      envCollection: mockEnvCollection as any,
-      appConfigService: mockAppConfigService as any,
-      keyVaultService: mockKeyVaultService as any,
+      appConfigService: mockAppConfigService,
       ...overrides,
     };
   }
 
+  function createOptions(
+    overrides: Partial<RefreshSource> & Partial<RefreshOptions> = {}
+  ): RefreshOptions {
+    const {
+      envCollection,
+      keyVaultService,
+      naming,
+      previousItems,
+      progress,
+      cancellationToken,
+      sources,
+      ...source
+    } = overrides;
+    return {
+      sources: sources ?? [createSource(source)],
+      envCollection: envCollection ?? mockEnvCollection,
+      keyVaultService: keyVaultService ?? mockKeyVaultService,
+      naming,
+      previousItems,
+      progress,
+      cancellationToken,
+    };
+  }
+
   it('clears and repopulates environment collection', async () => {
-    mockAppConfigService.getSetting.mockResolvedValue({
-      key: 'App/Key',
-      value: 'value',
-      contentType: 'text/plain',
-    });
+    useStore([{ key: 'App/Key', value: 'value', label: 'dev' }]);
 
     const result = await refreshEnvironment(createOptions());
 
     expect(mockEnvCollection.clear).toHaveBeenCalled();
     expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_KEY', 'value');
-    expect(result.items).toEqual([{ key: 'App/Key', value: 'value', isSecret: false }]);
+    expect(result.items).toEqual([
+      {
+        key: 'App/Key',
+        value: 'value',
+        isSecret: false,
+        label: 'dev',
+        store: 'store',
+        envVar: 'APP_KEY',
+      },
+    ]);
   });
 
   it('transforms keys to environment variable format', async () => {
-    mockAppConfigService.getSetting.mockResolvedValue({
-      key: 'MyService/Database/Host',
-      value: 'localhost',
-      contentType: 'text/plain',
-    });
+    useStore([{ key: 'MyService/Database/Host', value: 'localhost', label: 'dev' }]);
 
     await refreshEnvironment(createOptions({ selectedKeys: ['MyService/Database/Host'] }));
 
@@ -64,11 +141,14 @@ describe('refreshEnvironment', () => {
   });
 
   it('resolves Key Vault references', async () => {
-    mockAppConfigService.getSetting.mockResolvedValue({
-      key: 'App/Secret',
-      value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
-      contentType: 'application/vnd.microsoft.appconfig.keyvaultref+json',
-    });
+    useStore([
+      {
+        key: 'App/Secret',
+        value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
+        label: 'dev',
+        contentType: KEY_VAULT_REF,
+      },
+    ]);
     mockKeyVaultService.resolveSecret.mockResolvedValue('resolved-secret');
 
     const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/Secret'] }));
@@ -78,23 +158,40 @@ describe('refreshEnvironment', () => {
     );
     expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_SECRET', 'resolved-secret');
     expect(result.items).toEqual([
-      { key: 'App/Secret', value: 'resolved-secret', isSecret: true },
+      {
+        key: 'App/Secret',
+        value: 'resolved-secret',
+        isSecret: true,
+        label: 'dev',
+        store: 'store',
+        envVar: 'APP_SECRET',
+        secretUri: 'https://vault.vault.azure.net/secrets/MySecret',
+      },
     ]);
   });
 
-  it('continues on partial failures', async () => {
-    mockAppConfigService.getSetting
-      .mockResolvedValueOnce({ key: 'App/Key1', value: 'value1', contentType: 'text/plain' })
-      .mockRejectedValueOnce(new Error('Not found'))
-      .mockResolvedValueOnce({ key: 'App/Key3', value: 'value3', contentType: 'text/plain' });
+  it('records the etag each value was read with', async () => {
+    useStore([{ key: 'App/Host', value: 'localhost', label: 'dev', etag: 'etag-1' }]);
+
+    const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/Host'] }));
+
+    expect(result.items[0].etag).toBe('etag-1');
+  });
+
+  it('reports keys the store no longer has as missing rather than failed', async () => {
+    useStore([
+      { key: 'App/Key1', value: 'value1', label: 'dev' },
+      { key: 'App/Key3', value: 'value3', label: 'dev' },
+    ]);
 
     const result = await refreshEnvironment(
       createOptions({ selectedKeys: ['App/Key1', 'App/Key2', 'App/Key3'] })
     );
 
     expect(result.succeeded).toBe(2);
-    expect(result.failed).toBe(1);
-    expect(result.errors).toHaveLength(1);
+    expect(result.failed).toBe(0);
+    expect(result.errors).toEqual([]);
+    expect(result.missing).toEqual([{ key: 'App/Key2', store: 'store', labels: ['dev'] }]);
     expect(result.items).toHaveLength(2);
     expect(mockEnvCollection.replace).toHaveBeenCalledTimes(2);
   });
@@ -108,45 +205,638 @@ describe('refreshEnvironment', () => {
     expect(mockEnvCollection.clear).toHaveBeenCalled();
   });
 
+  it('reports the null label of a failed reference as an empty label', async () => {
+    useStore([
+      {
+        key: 'App/Secret',
+        value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
+        contentType: KEY_VAULT_REF,
+      },
+    ]);
+    mockKeyVaultService.resolveSecret.mockRejectedValue(new Error('Access denied'));
+
+    const result = await refreshEnvironment(
+      createOptions({ selectedKeys: ['App/Secret'], label: '' })
+    );
+
+    expect(result.errors[0].label).toBe('');
+  });
+
   it('handles Key Vault resolution failures', async () => {
-    mockAppConfigService.getSetting.mockResolvedValue({
-      key: 'App/Secret',
-      value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
-      contentType: 'application/vnd.microsoft.appconfig.keyvaultref+json',
-    });
+    useStore([
+      {
+        key: 'App/Secret',
+        value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
+        label: 'dev',
+        contentType: KEY_VAULT_REF,
+      },
+    ]);
     mockKeyVaultService.resolveSecret.mockRejectedValue(new Error('Access denied'));
 
     const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/Secret'] }));
 
     expect(result.succeeded).toBe(0);
     expect(result.failed).toBe(1);
+    expect(result.errors[0]).toMatchObject({ key: 'App/Secret', store: 'store', label: 'dev' });
     expect(result.items).toEqual([]);
     expect(mockEnvCollection.replace).not.toHaveBeenCalled();
   });
 
+  it('reports a malformed Key Vault reference', async () => {
+    useStore([{ key: 'App/Secret', value: 'not json', label: 'dev', contentType: KEY_VAULT_REF }]);
+
+    const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/Secret'] }));
+
+    expect(result.errors[0].error).toBeInstanceOf(KeyVaultReferenceError);
+    expect(mockKeyVaultService.resolveSecretDetails).not.toHaveBeenCalled();
+  });
+
   it('handles empty value gracefully', async () => {
-    mockAppConfigService.getSetting.mockResolvedValue({
-      key: 'App/Key',
-      value: '',
-      contentType: 'text/plain',
-    });
+    useStore([{ key: 'App/Key', value: '', label: 'dev' }]);
 
     const result = await refreshEnvironment(createOptions());
 
     expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_KEY', '');
-    expect(result.items).toEqual([{ key: 'App/Key', value: '', isSecret: false }]);
+    expect(result.items).toEqual([
+      {
+        key: 'App/Key',
+        value: '',
+        isSecret: false,
+        label: 'dev',
+        store: 'store',
+        envVar: 'APP_KEY',
+      },
+    ]);
   });
 
   it('handles undefined value gracefully', async () => {
-    mockAppConfigService.getSetting.mockResolvedValue({
-      key: 'App/Key',
-      value: undefined,
-      contentType: 'text/plain',
-    });
+    useStore([{ key: 'App/Key', label: 'dev' }]);
 
     const result = await refreshEnvironment(createOptions());
 
     expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_KEY', '');
-    expect(result.items).toEqual([{ key: 'App/Key', value: '', isSecret: false }]);
+    expect(result.items).toEqual([
+      {
+        key: 'App/Key',
+        value: '',
+        isSecret: false,
+        label: 'dev',
+        store: 'store',
+        envVar: 'APP_KEY',
+      },
+    ]);
+  });
+
+  describe('batching', () => {
+    it('fetches up to five keys per request', async () => {
+      const keys = Array.from({ length: 12 }, (_, index) => `App/Key${index}`);
+      useStore(keys.map((key) => ({ key, value: key, label: 'dev' })));
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: keys }));
+
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledTimes(3);
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledWith({
+        keyFilter: 'App/Key0,App/Key1,App/Key2,App/Key3,App/Key4',
+        labelFilter: 'dev',
+      });
+      expect(result.succeeded).toBe(12);
+      expect(result.items.map((item) => item.key)).toEqual(keys);
+    });
+
+    it('escapes commas in exact keys', async () => {
+      useStore([{ key: 'App/a,b', value: 'v', label: 'dev' }]);
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/a,b'] }));
+
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledWith({
+        keyFilter: 'App/a\\,b',
+        labelFilter: 'dev',
+      });
+      expect(result.succeeded).toBe(1);
+    });
+
+    it('reports every key in a batch whose request fails', async () => {
+      mockAppConfigService.listSettings.mockRejectedValue(new Error('Access denied'));
+
+      const result = await refreshEnvironment(
+        createOptions({ selectedKeys: ['App/Key1', 'App/Key2'] })
+      );
+
+      expect(result.failed).toBe(2);
+      expect(result.errors.map((e) => e.key)).toEqual(['App/Key1', 'App/Key2']);
+      expect(result.errors[0].error.message).toBe('Access denied');
+    });
+
+    it('resolves Key Vault references with bounded concurrency', async () => {
+      const keys = Array.from({ length: 10 }, (_, index) => `App/Secret${index}`);
+      useStore(
+        keys.map((key) => ({
+          key,
+          value: `{"uri":"https://vault.vault.azure.net/secrets/${key.slice(4)}"}`,
+          label: 'dev',
+          contentType: KEY_VAULT_REF,
+        }))
+      );
+      let running = 0;
+      let peak = 0;
+      mockKeyVaultService.resolveSecret.mockImplementation(async (uri: string) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+        return uri;
+      });
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: keys }));
+
+      expect(result.succeeded).toBe(10);
+      expect(peak).toBeGreaterThan(1);
+      expect(peak).toBeLessThanOrEqual(4);
+    });
+
+    it('marks secrets served from the cache', async () => {
+      useStore([
+        {
+          key: 'App/Secret',
+          value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
+          label: 'dev',
+          contentType: KEY_VAULT_REF,
+        },
+      ]);
+      mockKeyVaultService.resolveSecretDetails.mockResolvedValue({
+        value: 'cached-secret',
+        fromCache: true,
+      });
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/Secret'] }));
+
+      expect(result.items[0]).toMatchObject({ value: 'cached-secret', cached: true });
+    });
+
+    it('reports progress for every key', async () => {
+      useStore([
+        { key: 'App/Key1', value: 'v', label: 'dev' },
+        {
+          key: 'App/Secret',
+          value: '{"uri":"https://vault.vault.azure.net/secrets/MySecret"}',
+          label: 'dev',
+          contentType: KEY_VAULT_REF,
+        },
+      ]);
+      mockKeyVaultService.resolveSecret.mockResolvedValue('secret');
+      const progress = { report: vi.fn() };
+
+      await refreshEnvironment(
+        createOptions({ selectedKeys: ['App/Key1', 'App/Secret'], progress })
+      );
+
+      expect(progress.report).toHaveBeenCalledWith({
+        message: 'Fetched 1 of 2 keys',
+        increment: 50,
+      });
+      expect(progress.report).toHaveBeenLastCalledWith({
+        message: 'Fetched 2 of 2 keys',
+        increment: 50,
+      });
+    });
+  });
+
+  describe('layered labels', () => {
+    it('prefers the override label when it defines the key', async () => {
+      useStore([
+        { key: 'App/Key', value: 'base' },
+        { key: 'App/Key', value: 'override', label: 'dev' },
+      ]);
+
+      const result = await refreshEnvironment(
+        createOptions({ label: '', overrideLabels: ['dev'] })
+      );
+
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledTimes(1);
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledWith({
+        keyFilter: 'App/Key',
+        labelFilter: 'dev,\0',
+      });
+      expect(result.items).toEqual([
+        {
+          key: 'App/Key',
+          value: 'override',
+          isSecret: false,
+          label: 'dev',
+          store: 'store',
+          envVar: 'APP_KEY',
+        },
+      ]);
+    });
+
+    it('falls back to the base label when the override is missing', async () => {
+      useStore([{ key: 'App/Key', value: 'base' }]);
+
+      const result = await refreshEnvironment(
+        createOptions({ label: '', overrideLabels: ['dev'] })
+      );
+
+      expect(result.failed).toBe(0);
+      expect(result.items).toEqual([
+        {
+          key: 'App/Key',
+          value: 'base',
+          isSecret: false,
+          label: '',
+          store: 'store',
+          envVar: 'APP_KEY',
+        },
+      ]);
+    });
+
+    it('reports the key as missing when no label defines it', async () => {
+      useStore([{ key: 'App/Key', value: 'other', label: 'prod' }]);
+
+      const result = await refreshEnvironment(
+        createOptions({ label: '', overrideLabels: ['dev'] })
+      );
+
+      expect(result.failed).toBe(0);
+      expect(result.missing).toEqual([{ key: 'App/Key', store: 'store', labels: ['dev', ''] }]);
+    });
+  });
+
+  describe('multiple stores', () => {
+    it('merges keys from every store and records where each came from', async () => {
+      useStore([{ key: 'Shared/Key', value: 'shared', label: 'dev' }]);
+      const teamService = {
+        listSettings: createStore([{ key: 'Team/Key', value: 'team', label: 'dev' }]),
+      };
+
+      const result = await refreshEnvironment(
+        createOptions({
+          sources: [
+            createSource({ name: 'platform', selectedKeys: ['Shared/Key'] }),
+            createSource({
+              name: 'team',
+              selectedKeys: ['Team/Key'],
+              appConfigService: teamService,
+            }),
+          ],
+        })
+      );
+
+      expect(result.succeeded).toBe(2);
+      expect(result.items.map((item) => item.store)).toEqual(['platform', 'team']);
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('SHARED_KEY', 'shared');
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('TEAM_KEY', 'team');
+    });
+
+    it('lets later stores override earlier ones', async () => {
+      useStore([{ key: 'App/Key', value: 'shared', label: 'dev' }]);
+      const teamService = {
+        listSettings: createStore([{ key: 'App/Key', value: 'team', label: 'dev' }]),
+      };
+
+      const result = await refreshEnvironment(
+        createOptions({
+          sources: [
+            createSource({ name: 'platform' }),
+            createSource({ name: 'team', appConfigService: teamService }),
+          ],
+        })
+      );
+
+      expect(mockEnvCollection.replace).toHaveBeenLastCalledWith('APP_KEY', 'team');
+      expect(result.items[0].overriddenBy).toBe('team');
+      expect(result.items[1].overriddenBy).toBeUndefined();
+    });
+
+    it('records the store of failed keys', async () => {
+      mockAppConfigService.listSettings.mockRejectedValue(new Error('Access denied'));
+
+      const result = await refreshEnvironment(
+        createOptions({ sources: [createSource({ name: 'platform' })] })
+      );
+
+      expect(result.errors[0]).toMatchObject({ key: 'App/Key', store: 'platform' });
+    });
+  });
+
+  describe('prefix selections', () => {
+    it('expands prefixes into the keys currently in the store', async () => {
+      useStore([
+        { key: 'MyService/NewThing', value: 'MyService/NewThing', label: 'dev' },
+        { key: 'MyService/Host', value: 'MyService/Host' },
+      ]);
+
+      const result = await refreshEnvironment(
+        createOptions({ selectedKeys: ['MyService/*'], label: '', overrideLabels: ['dev'] })
+      );
+
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledWith({
+        keyFilter: 'MyService/*',
+        labelFilter: 'dev,\0',
+      });
+      expect(result.items.map((item) => item.key)).toEqual([
+        'MyService/Host',
+        'MyService/NewThing',
+      ]);
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith(
+        'MYSERVICE_NEWTHING',
+        'MyService/NewThing'
+      );
+    });
+
+    it('skips excluded keys and duplicates', async () => {
+      useStore([
+        { key: 'MyService/Host', value: 'v', label: 'dev' },
+        { key: 'MyService/Debug', value: 'v', label: 'dev' },
+      ]);
+
+      const result = await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['MyService/Host', 'MyService/*'],
+          excludedKeys: ['MyService/Debug'],
+        })
+      );
+
+      expect(result.items.map((item) => item.key)).toEqual(['MyService/Host']);
+    });
+
+    it('reports a failure for a prefix that cannot be listed', async () => {
+      mockAppConfigService.listSettings.mockRejectedValue(new Error('Access denied'));
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: ['MyService/*'] }));
+
+      expect(result.failed).toBe(1);
+      expect(result.errors[0].key).toBe('MyService/*');
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('naming', () => {
+    it('applies the naming options to variable names and items', async () => {
+      useStore([{ key: 'App/Key', value: 'value', label: 'dev' }]);
+
+      const result = await refreshEnvironment(
+        createOptions({ naming: { strategy: 'dotnet', stripPrefixes: ['App/'] } })
+      );
+
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('Key', 'value');
+      expect(result.items[0].envVar).toBe('Key');
+    });
+  });
+
+  describe('name collisions', () => {
+    function useKeysAsValues(keys: string[]): void {
+      useStore(keys.map((key) => ({ key, value: key, label: 'dev' })));
+    }
+
+    it('keeps the last colliding key by default and reports every source key', async () => {
+      useKeysAsValues(['App/Db-Host', 'app/db-host', 'App_Db-Host']);
+
+      const result = await refreshEnvironment(
+        createOptions({ selectedKeys: ['App/Db-Host', 'app/db-host', 'App_Db-Host'] })
+      );
+
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledWith({
+        keyFilter: 'App_Db-Host',
+        labelFilter: 'dev',
+      });
+      expect(mockEnvCollection.replace).toHaveBeenCalledTimes(1);
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_DB-HOST', 'App_Db-Host');
+      expect(result.warnings).toContainEqual({
+        kind: 'collision',
+        envVar: 'APP_DB-HOST',
+        sources: [
+          { key: 'App/Db-Host', store: 'store' },
+          { key: 'app/db-host', store: 'store' },
+          { key: 'App_Db-Host', store: 'store' },
+        ],
+        message:
+          'Keys App/Db-Host, app/db-host, App_Db-Host all map to APP_DB-HOST; using App_Db-Host',
+      });
+    });
+
+    it('keeps the first colliding key with first-wins', async () => {
+      useKeysAsValues(['App/Host', 'app/host']);
+
+      await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['App/Host', 'app/host'],
+          naming: { collisionPolicy: 'first-wins' },
+        })
+      );
+
+      expect(mockEnvCollection.replace).toHaveBeenCalledTimes(1);
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_HOST', 'App/Host');
+    });
+
+    it('injects none of the colliding keys with the error policy', async () => {
+      useKeysAsValues(['App/Host', 'app/host', 'App/Port']);
+
+      const result = await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['App/Host', 'app/host', 'App/Port'],
+          naming: { collisionPolicy: 'error' },
+        })
+      );
+
+      expect(mockEnvCollection.replace).toHaveBeenCalledTimes(1);
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_PORT', 'App/Port');
+      expect(result.failed).toBe(2);
+      expect(result.errors.map((e) => e.key)).toEqual(['App/Host', 'app/host']);
+      expect(result.errors[0].error).toBeInstanceOf(EnvVarCollisionError);
+    });
+
+    it('treats the same key in several stores as an override', async () => {
+      useKeysAsValues(['App/Host']);
+
+      const result = await refreshEnvironment(
+        createOptions({
+          sources: [
+            createSource({ name: 'shared', selectedKeys: ['App/Host'] }),
+            createSource({ name: 'team', selectedKeys: ['App/Host'] }),
+          ],
+        })
+      );
+
+      expect(result.warnings).toEqual([]);
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledTimes(2);
+    });
+
+    it('warns about names a shell cannot reference but still injects them', async () => {
+      useKeysAsValues(['App/Db.Host']);
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/Db.Host'] }));
+
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_DB.HOST', 'App/Db.Host');
+      expect(result.warnings).toEqual([
+        {
+          kind: 'invalidName',
+          envVar: 'APP_DB.HOST',
+          sources: [{ key: 'App/Db.Host', store: 'store' }],
+          message: 'APP_DB.HOST is not a valid environment variable name (from App/Db.Host)',
+        },
+      ]);
+    });
+  });
+
+  describe('transactional swap', () => {
+    it('swaps the new variables in only after every key is fetched', async () => {
+      const store = createStore([
+        { key: 'App/Key1', value: 'v1', label: 'dev' },
+        { key: 'App/Key2', value: 'v2', label: 'dev' },
+      ]);
+      mockAppConfigService.listSettings = vi.fn(async (options) => {
+        expect(mockEnvCollection.clear).not.toHaveBeenCalled();
+        return store(options);
+      });
+
+      const result = await refreshEnvironment(
+        createOptions({ selectedKeys: ['App/Key1', 'App/Key2'] })
+      );
+
+      expect(result.applied).toBe(true);
+      expect(mockEnvCollection.clear).toHaveBeenCalledTimes(1);
+      expect(mockEnvCollection.replace).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves the collection untouched when cancelled', async () => {
+      const cancellationToken = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      };
+      const store = createStore([{ key: 'App/Key1', value: 'v1', label: 'dev' }]);
+      mockAppConfigService.listSettings = vi.fn(async (options) => {
+        cancellationToken.isCancellationRequested = true;
+        return store(options);
+      });
+
+      const result = await refreshEnvironment(
+        createOptions({ selectedKeys: ['App/Key1'], cancellationToken })
+      );
+
+      expect(result.cancelled).toBe(true);
+      expect(result.applied).toBe(false);
+      // Requests stop waiting to retry once cancelled
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ cancellationToken })
+      );
+      expect(mockEnvCollection.clear).not.toHaveBeenCalled();
+      expect(mockEnvCollection.replace).not.toHaveBeenCalled();
+    });
+
+    it('keeps the previous environment when every key fails', async () => {
+      mockAppConfigService.listSettings.mockRejectedValue(new Error('Network down'));
+
+      const result = await refreshEnvironment(
+        createOptions({ selectedKeys: ['App/Key1', 'App/Key2'] })
+      );
+
+      expect(result.applied).toBe(false);
+      expect(result.failed).toBe(2);
+      expect(mockEnvCollection.clear).not.toHaveBeenCalled();
+    });
+
+    it('keeps the last known good value of keys that fail', async () => {
+      useStore([
+        { key: 'App/Key1', value: 'fresh', label: 'dev' },
+        {
+          key: 'App/Key2',
+          value: '{"uri":"https://vault.vault.azure.net/secrets/Key2"}',
+          label: 'dev',
+          contentType: KEY_VAULT_REF,
+        },
+      ]);
+      mockKeyVaultService.resolveSecret.mockRejectedValue(new Error('Access denied'));
+
+      const result = await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['App/Key1', 'App/Key2'],
+          previousItems: [
+            { key: 'App/Key1', value: 'old', isSecret: false, store: 'store' },
+            { key: 'App/Key2', value: 'last-good', isSecret: false, label: 'dev', store: 'store' },
+          ],
+        })
+      );
+
+      expect(result.applied).toBe(true);
+      expect(result.failed).toBe(1);
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_KEY1', 'fresh');
+      expect(mockEnvCollection.replace).toHaveBeenCalledWith('APP_KEY2', 'last-good');
+      expect(result.items[1]).toMatchObject({
+        key: 'App/Key2',
+        value: 'last-good',
+        envVar: 'APP_KEY2',
+        stale: true,
+      });
+    });
+
+    it('drops the last value of a key the store no longer has', async () => {
+      useStore([{ key: 'App/Key1', value: 'fresh', label: 'dev' }]);
+
+      const result = await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['App/Key1', 'App/Key2'],
+          previousItems: [
+            { key: 'App/Key2', value: 'last-good', isSecret: false, label: 'dev', store: 'store' },
+          ],
+        })
+      );
+
+      expect(result.applied).toBe(true);
+      expect(result.items.map((item) => item.key)).toEqual(['App/Key1']);
+      expect(mockEnvCollection.replace).not.toHaveBeenCalledWith('APP_KEY2', 'last-good');
+    });
+  });
+
+  describe('lost sign-in', () => {
+    const expired = new AuthenticationError('No session', 'session_expired');
+
+    it('reports one authentication error instead of a failure per key', async () => {
+      mockAppConfigService.listSettings.mockRejectedValue(expired);
+
+      const result = await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['App/Key1', 'App/Key2', 'App/Key3', 'App/Key4', 'App/Key5', 'App/Key6'],
+        })
+      );
+
+      expect(result.authError).toBe(expired);
+      expect(result.failed).toBe(0);
+      expect(result.errors).toEqual([]);
+      expect(result.applied).toBe(false);
+      expect(mockEnvCollection.clear).not.toHaveBeenCalled();
+    });
+
+    it('stops resolving secrets once a token cannot be had', async () => {
+      useStore(
+        ['App/Secret1', 'App/Secret2'].map((key) => ({
+          key,
+          value: `{"uri":"https://vault.vault.azure.net/secrets/${key.slice(4)}"}`,
+          label: 'dev',
+          contentType: KEY_VAULT_REF,
+        }))
+      );
+      mockKeyVaultService.resolveSecret.mockRejectedValue(expired);
+
+      const result = await refreshEnvironment(
+        createOptions({
+          selectedKeys: ['App/Key', 'App/Secret1', 'App/Secret2'],
+          previousItems: [{ key: 'App/Key', value: 'old', isSecret: false, store: 'store' }],
+        })
+      );
+
+      expect(result.authError).toBe(expired);
+      expect(result.errors).toEqual([]);
+      expect(mockEnvCollection.replace).not.toHaveBeenCalled();
+    });
+
+    it('stops before fetching when a prefix cannot be listed', async () => {
+      mockAppConfigService.listSettings.mockRejectedValue(expired);
+
+      const result = await refreshEnvironment(createOptions({ selectedKeys: ['App/*'] }));
+
+      expect(result.authError).toBe(expired);
+      expect(result.errors).toEqual([]);
+      expect(mockAppConfigService.listSettings).toHaveBeenCalledTimes(1);
+    });
   });
 });
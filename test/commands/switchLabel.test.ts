@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runSwitchLabelFlow, type SwitchLabelDeps } from '../../src/commands/switchLabel';
+import type { AzureEnvSettings } from '../../src/models/settings';
+
+describe('runSwitchLabelFlow', () => {
+  let settings: AzureEnvSettings;
+  let mockListLabels: ReturnType<typeof vi.fn>;
+  let mockListKeys: ReturnType<typeof vi.fn>;
+  let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
+  let mockShowWarningMessage: ReturnType<typeof vi.fn>;
+  let mockSaveSettings: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Host', 'App/Db/*', 'App/Debug'],
+      excludedKeys: [],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 300, defaultVault: '' },
+      activeProfile: '',
+    };
+    mockListLabels = vi.fn().mockResolvedValue(['', 'dev', 'prod']);
+    mockListKeys = vi.fn().mockResolvedValue(['App/Host', 'App/Db/Host', 'App/Debug']);
+    mockShowQuickPickSingle = vi.fn(async (items) =>
+      items.find((item: { value: string }) => item.value === 'prod')
+    );
+    mockShowWarningMessage = vi.fn(async (_message, _options, confirmLabel) => confirmLabel);
+    mockSaveSettings = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(): SwitchLabelDeps {
+    return {
+      getSettings: () => settings,
+      listLabels: mockListLabels,
+      listKeys: mockListKeys,
+      showQuickPickSingle: mockShowQuickPickSingle,
+      showWarningMessage: mockShowWarningMessage,
+      saveSettings: mockSaveSettings,
+    };
+  }
+
+  it('lists labels with the current one marked', async () => {
+    await runSwitchLabelFlow(createDeps());
+
+    const items = mockShowQuickPickSingle.mock.calls[0][0];
+    expect(items.map((item: { label: string }) => item.label)).toEqual([
+      '(no label)',
+      'dev',
+      'prod',
+    ]);
+    expect(items[1].description).toBe('current');
+  });
+
+  it('saves the label without asking when every selected key exists', async () => {
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(mockShowWarningMessage).not.toHaveBeenCalled();
+    expect(mockSaveSettings).toHaveBeenCalledWith({ label: 'prod' });
+    expect(result).toEqual({ switched: true, label: 'prod', store: 'dev', missing: [] });
+  });
+
+  it('lists missing keys and prefixes before switching', async () => {
+    mockListKeys.mockResolvedValue(['App/Host']);
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(mockShowWarningMessage).toHaveBeenCalledWith(
+      '2 selected keys are missing under label "prod"',
+      { modal: true, detail: 'These keys will not be injected:\nApp/Db/*\nApp/Debug' },
+      'Switch Label'
+    );
+    expect(result).toEqual({
+      switched: true,
+      label: 'prod',
+      store: 'dev',
+      missing: ['App/Db/*', 'App/Debug'],
+    });
+  });
+
+  it('checks the new label together with the override labels', async () => {
+    settings.overrideLabels = ['local'];
+
+    await runSwitchLabelFlow(createDeps());
+
+    expect(mockListKeys).toHaveBeenCalledWith('https://dev.azconfig.io', ['prod', 'local']);
+  });
+
+  it('ignores excluded keys', async () => {
+    settings.excludedKeys = ['App/Debug'];
+    mockListKeys.mockResolvedValue(['App/Host', 'App/Db/Host']);
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(result).toMatchObject({ switched: true, missing: [] });
+  });
+
+  it('keeps the label when the warning is dismissed', async () => {
+    mockListKeys.mockResolvedValue([]);
+    mockShowWarningMessage.mockResolvedValue(undefined);
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(result).toEqual({ switched: false, reason: 'cancelled' });
+    expect(mockSaveSettings).not.toHaveBeenCalled();
+  });
+
+  it('returns unchanged when the current label is picked', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) => items[1]);
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(result).toEqual({ switched: false, reason: 'unchanged' });
+  });
+
+  it('switches the label of the store when only stores are configured', async () => {
+    settings.endpoint = '';
+    settings.stores = [
+      { name: 'shared', endpoint: 'https://shared.azconfig.io', selectedKeys: ['App/Host'] },
+    ];
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(mockListLabels).toHaveBeenCalledWith('https://shared.azconfig.io');
+    expect(mockListKeys).toHaveBeenCalledWith('https://shared.azconfig.io', ['prod']);
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      stores: [
+        {
+          name: 'shared',
+          endpoint: 'https://shared.azconfig.io',
+          selectedKeys: ['App/Host'],
+          label: 'prod',
+        },
+      ],
+    });
+    expect(result).toEqual({ switched: true, label: 'prod', store: 'shared', missing: [] });
+  });
+
+  it('asks which store to switch when several are configured', async () => {
+    settings.stores = [
+      {
+        name: 'shared',
+        endpoint: 'https://shared.azconfig.io',
+        selectedKeys: ['App/Host'],
+        label: 'prod',
+      },
+    ];
+    mockShowQuickPickSingle.mockImplementationOnce(async (items) => items[1]);
+    mockListLabels.mockResolvedValue(['dev', 'prod']);
+    mockShowQuickPickSingle.mockImplementationOnce(async (items) => items[0]);
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(mockShowQuickPickSingle.mock.calls[1][1]).toEqual({
+      placeHolder: 'Select configuration label for shared',
+    });
+    expect(mockSaveSettings).toHaveBeenCalledWith({
+      stores: [expect.objectContaining({ name: 'shared', label: 'dev' })],
+    });
+    expect(result).toMatchObject({ switched: true, label: 'dev', store: 'shared' });
+  });
+
+  it('returns cancelled when no store is picked', async () => {
+    settings.stores = [{ endpoint: 'https://shared.azconfig.io', selectedKeys: [] }];
+    mockShowQuickPickSingle.mockResolvedValueOnce(undefined);
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(result).toEqual({ switched: false, reason: 'cancelled' });
+    expect(mockListLabels).not.toHaveBeenCalled();
+  });
+
+  it('returns not_connected without any store', async () => {
+    settings.endpoint = '';
+
+    const result = await runSwitchLabelFlow(createDeps());
+
+    expect(result).toEqual({ switched: false, reason: 'not_connected' });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runSwitchProfileFlow, SwitchProfileDeps } from '../../src/commands/switchProfile';
+import type { AzureEnvSettings } from '../../src/models/settings';
+
+describe('runSwitchProfileFlow', () => {
+  let settings: AzureEnvSettings;
+  let mockShowQuickPickSingle: ReturnType<typeof vi.fn>;
+  let mockShowInputBox: ReturnType<typeof vi.fn>;
+  let mockSetActiveProfile: ReturnType<typeof vi.fn>;
+  let mockSaveProfile: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    settings = {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Key'],
+      excludedKeys: ['App/Secret'],
+      label: 'dev',
+      overrideLabels: ['local'],
+      keyFilter: '*',
+      stores: [{ endpoint: 'https://shared.azconfig.io', selectedKeys: ['Shared/*'] }],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      activeProfile: 'dev',
+    };
+    mockShowQuickPickSingle = vi.fn();
+    mockShowInputBox = vi.fn();
+    mockSetActiveProfile = vi.fn().mockResolvedValue(undefined);
+    mockSaveProfile = vi.fn().mockResolvedValue(undefined);
+  });
+
+  function createDeps(overrides: Partial<SwitchProfileDeps> = {}): SwitchProfileDeps {
+    return {
+      getSettings: () => settings,
+      getProfiles: () => ({
+        dev: { endpoint: 'https://dev.azconfig.io', label: 'dev' },
+        staging: { endpoint: 'https://staging.azconfig.io', label: 'staging' },
+      }),
+      setActiveProfile: mockSetActiveProfile,
+      saveProfile: mockSaveProfile,
+      showQuickPickSingle: mockShowQuickPickSingle,
+      showInputBox: mockShowInputBox,
+      ...overrides,
+    };
+  }
+
+  it('lists the base settings and every profile, marking the active one', async () => {
+    mockShowQuickPickSingle.mockResolvedValue(undefined);
+
+    await runSwitchProfileFlow(createDeps());
+
+    const items = mockShowQuickPickSingle.mock.calls[0][0];
+    expect(items.map((item: { label: string }) => item.label)).toEqual([
+      '(workspace settings)',
+      'dev',
+      'staging',
+      '$(add) Save current settings as profile...',
+    ]);
+    expect(items[1].description).toBe('active');
+  });
+
+  it('activates the selected profile', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) =>
+      items.find((item: { label: string }) => item.label === 'staging')
+    );
+
+    const result = await runSwitchProfileFlow(createDeps());
+
+    expect(result).toEqual({ switched: true, profile: 'staging' });
+    expect(mockSetActiveProfile).toHaveBeenCalledWith('staging');
+  });
+
+  it('switches back to the base settings', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) => items[0]);
+
+    const result = await runSwitchProfileFlow(createDeps());
+
+    expect(result).toEqual({ switched: true, profile: '' });
+    expect(mockSetActiveProfile).toHaveBeenCalledWith('');
+  });
+
+  it('does nothing when the active profile is picked again', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) => items[1]);
+
+    const result = await runSwitchProfileFlow(createDeps());
+
+    expect(result).toEqual({ switched: false, reason: 'unchanged' });
+    expect(mockSetActiveProfile).not.toHaveBeenCalled();
+  });
+
+  it('returns cancelled when the picker is dismissed', async () => {
+    mockShowQuickPickSingle.mockResolvedValue(undefined);
+
+    const result = await runSwitchProfileFlow(createDeps());
+
+    expect(result).toEqual({ switched: false, reason: 'cancelled' });
+  });
+
+  it('saves the current settings as a new profile and activates it', async () => {
+    mockShowQuickPickSingle.mockImplementation(async (items) => items[items.length - 1]);
+    mockShowInputBox.mockResolvedValue(' prod ');
+
+    const result = await runSwitchProfileFlow(createDeps());
+
+    expect(result).toEqual({ switched: true, profile: 'prod' });
+    expect(mockSaveProfile).toHaveBeenCalledWith('prod', {
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Key'],
+      excludedKeys: ['App/Secret'],
+      label: 'dev',
+      overrideLabels: ['local'],
+      keyFilter: '*',
+      stores: [{ endpoint: 'https://shared.azconfig.io', selectedKeys: ['Shared/*'] }],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+    });
+    expect(mockSetActiveProfile).toHaveBeenCalledWith('prod');
+  });
+});
@@ -2,10 +2,13 @@ import { describe, it, expect } from 'vitest';
 import {
   AppConfigError,
   AppConfigListError,
+  SettingConflictError,
+  SettingExistsError,
   KeyVaultError,
   KeyVaultReferenceError,
   ValidationError,
   AuthenticationError,
+  EnvVarCollisionError,
   RateLimitError,
   extractRetryAfter,
   isRateLimitError,
@@ -61,6 +64,26 @@ describe('AppConfigListError', () => {
   });
 });
 
+describe('SettingConflictError', () => {
+  it('is not retryable and asks the user to refresh', () => {
+    const error = new SettingConflictError('App/Host', 'dev');
+    expect(error.code).toBe('SETTING_CONFLICT');
+    expect(error.isRetryable).toBe(false);
+    expect(error.message).toBe('Setting changed since it was read: App/Host (label="dev")');
+    expect(error.userMessage).toContain('Refresh');
+  });
+});
+
+describe('SettingExistsError', () => {
+  it('is not retryable and points to Edit Value', () => {
+    const error = new SettingExistsError('App/Host', '');
+    expect(error.code).toBe('SETTING_EXISTS');
+    expect(error.isRetryable).toBe(false);
+    expect(error.message).toBe('Setting already exists: App/Host (label="(none)")');
+    expect(error.userMessage).toContain('Edit Value');
+  });
+});
+
 describe('KeyVaultError', () => {
   it('captures secret URI', () => {
     const error = new KeyVaultError(
@@ -125,12 +148,31 @@ describe('AuthenticationError', () => {
     expect(new AuthenticationError('No subs', 'no_subscriptions').isRetryable).toBe(true);
   });
 
+  it('is not retryable when the session expired', () => {
+    expect(new AuthenticationError('Expired', 'session_expired').isRetryable).toBe(false);
+  });
+
+  it('is not retryable when the saved account is not available', () => {
+    expect(new AuthenticationError('Gone', 'account_mismatch').isRetryable).toBe(false);
+  });
+
   it('provides user messages for each reason', () => {
     expect(new AuthenticationError('', 'not_signed_in').userMessage).toContain('sign in');
     expect(new AuthenticationError('', 'no_subscriptions').userMessage).toContain(
       'No Azure subscriptions'
     );
     expect(new AuthenticationError('', 'cancelled').userMessage).toContain('cancelled');
+    expect(new AuthenticationError('', 'session_expired').userMessage).toContain('sign in again');
+  });
+});
+
+describe('EnvVarCollisionError', () => {
+  it('names the variable and every colliding key', () => {
+    const error = new EnvVarCollisionError('APP_DB-HOST', ['App/Db-Host', 'app/db-host']);
+    expect(error.code).toBe('ENV_VAR_COLLISION');
+    expect(error.isRetryable).toBe(false);
+    expect(error.message).toBe('Keys App/Db-Host, app/db-host all map to APP_DB-HOST');
+    expect(error.userMessage).toContain('alias');
   });
 });
 
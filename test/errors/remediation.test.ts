@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AppConfigError,
+  AppConfigListError,
+  AuthenticationError,
+  KeyVaultError,
+  KeyVaultReferenceError,
+  RateLimitError,
+  ValidationError,
+  getRemediation,
+} from '../../src/errors';
+
+function withStatus(statusCode: number, message = 'Request failed'): Error {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+describe('getRemediation', () => {
+  it('asks to sign in again when a token is rejected', () => {
+    const error = new AppConfigError('Failed', 'App/Key', 'dev', withStatus(401));
+
+    expect(getRemediation(error)).toMatchObject({ action: 'signIn', title: 'Sign In Again' });
+  });
+
+  it('asks to switch tenant when the token is for another tenant', () => {
+    const error = new KeyVaultError(
+      'Failed',
+      'https://vault.vault.azure.net/secrets/Secret',
+      withStatus(401, 'AADSTS700016: Application not found in the directory tenant')
+    );
+
+    expect(getRemediation(error)?.action).toBe('switchTenant');
+  });
+
+  it('asks to switch tenant when Key Vault rejects the token issuer', () => {
+    const error = new KeyVaultError(
+      'Failed',
+      'https://vault.vault.azure.net/secrets/Secret',
+      withStatus(401, 'AKV10032: Invalid issuer. Expected one of https://sts.windows.net/tenant-1/')
+    );
+
+    expect(getRemediation(error)?.action).toBe('switchTenant');
+  });
+
+  it('does not ask to switch tenant for any error that mentions a tenant', () => {
+    const error = new AppConfigError(
+      'Failed',
+      'App/Key',
+      'dev',
+      withStatus(403, 'Caller in tenant tenant-1 is not authorized')
+    );
+
+    expect(getRemediation(error)?.action).toBe('requestRole');
+  });
+
+  it('names the App Configuration data role for access denied on a key', () => {
+    const error = new AppConfigError('Failed', 'App/Key', 'dev', withStatus(403));
+
+    expect(getRemediation(error)).toMatchObject({
+      action: 'requestRole',
+      role: 'App Configuration Data Reader',
+      title: 'Request App Configuration Data Reader',
+    });
+  });
+
+  it('names the Key Vault secrets role for access denied on a secret', () => {
+    const error = new KeyVaultError(
+      'Failed',
+      'https://vault.vault.azure.net/secrets/Secret',
+      withStatus(403)
+    );
+
+    expect(getRemediation(error)?.role).toBe('Key Vault Secrets User');
+  });
+
+  it('names the Reader role when stores cannot be listed', () => {
+    const error = new AppConfigListError('Failed', 'sub-1', withStatus(403));
+
+    expect(getRemediation(error)?.role).toBe('Reader');
+  });
+
+  it('offers to fix a malformed reference with its current value', () => {
+    const error = new KeyVaultReferenceError('Invalid', '{"url":"x"}', 'missing_uri');
+
+    expect(getRemediation(error)).toMatchObject({
+      action: 'fixReference',
+      reference: '{"url":"x"}',
+    });
+  });
+
+  it('offers to fix a reference to a secret that does not exist', () => {
+    const uri = 'https://vault.vault.azure.net/secrets/Gone';
+    const error = new KeyVaultError('Failed', uri, withStatus(404));
+
+    expect(getRemediation(error)).toMatchObject({
+      action: 'fixReference',
+      reference: JSON.stringify({ uri }),
+    });
+  });
+
+  it('waits out throttling for as long as Azure asks', () => {
+    const remediation = getRemediation(new RateLimitError('AppConfig', 30000));
+
+    expect(remediation).toMatchObject({
+      action: 'retry',
+      title: 'Retry in 30s',
+      retryAfterMs: 30000,
+    });
+  });
+
+  it('treats any 429 as throttling', () => {
+    expect(getRemediation(withStatus(429))?.action).toBe('retry');
+  });
+
+  it('maps sign-in failures by reason', () => {
+    expect(getRemediation(new AuthenticationError('No session', 'not_signed_in'))?.action).toBe(
+      'signIn'
+    );
+    expect(getRemediation(new AuthenticationError('Expired', 'session_expired'))?.action).toBe(
+      'signIn'
+    );
+    expect(getRemediation(new AuthenticationError('Gone', 'account_mismatch'))?.action).toBe(
+      'signIn'
+    );
+    expect(getRemediation(new AuthenticationError('None', 'no_subscriptions'))?.action).toBe(
+      'switchTenant'
+    );
+    expect(getRemediation(new AuthenticationError('Cancelled', 'cancelled'))).toBeUndefined();
+  });
+
+  it('opens the invalid setting', () => {
+    const error = new ValidationError('endpoint', 'Endpoint must use HTTPS');
+
+    expect(getRemediation(error)).toMatchObject({
+      action: 'openSettings',
+      setting: 'azureEnv.appConfiguration.endpoint',
+    });
+  });
+
+  it('has no step for other failures', () => {
+    expect(getRemediation(new AppConfigError('Failed', 'App/Key', 'dev', withStatus(500)))).toBe(
+      undefined
+    );
+    expect(getRemediation(new Error('Network down'))).toBeUndefined();
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TokenCredential } from '@azure/identity';
 import type { EnvTreeProvider } from '../src/providers/envTreeProvider';
-import { commands, window, mockExtensionContext } from 'vscode';
+import { commands, window, mockExtensionContext, type ExtensionContext } from 'vscode';
 
 const ensureSignedInMock = vi.fn();
 const getSubscriptionsMock = vi.fn();
+const findSubscriptionMock = vi.fn();
 const getSettingsMock = vi.fn();
 const refreshEnvironmentMock = vi.fn();
 
@@ -11,6 +13,7 @@ vi.mock('../src/services/authService', () => ({
   AuthService: class {
     ensureSignedIn = ensureSignedInMock;
     getSubscriptions = getSubscriptionsMock;
+    findSubscription = findSubscriptionMock;
     getProvider() {
       return { dispose: vi.fn() };
     }
@@ -20,13 +23,22 @@ vi.mock('../src/services/authService', () => ({
 vi.mock('../src/ui/statusBar', () => ({
   StatusBarManager: class {
     setState = vi.fn();
+    setProfile = vi.fn();
+    setLabel = vi.fn();
+    setIdentity = vi.fn();
     dispose = vi.fn();
   },
 }));
 
-vi.mock('../src/models/settings', () => ({
+vi.mock('../src/models/settings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/models/settings')>()),
   getSettings: getSettingsMock,
   saveSettings: vi.fn(),
+  getProfiles: vi.fn(() => ({})),
+  saveProfile: vi.fn(),
+  setActiveProfile: vi.fn(),
+  getConnectionSnapshot: vi.fn(() => ({ endpoint: 'https://example.azconfig.io' })),
+  clearConnectionSettings: vi.fn(),
 }));
 
 vi.mock('../src/commands/refresh', () => ({
@@ -38,11 +50,9 @@ vi.mock('../src/services/appConfigService', () => ({
 }));
 
 vi.mock('../src/services/keyVaultService', () => ({
-  KeyVaultService: class {},
-}));
-
-vi.mock('../src/services/scopedCredential', () => ({
-  ScopedCredential: class {},
+  KeyVaultService: class {
+    constructor(public credential: TokenCredential) {}
+  },
 }));
 
 describe('extension activation', () => {
@@ -52,15 +62,23 @@ describe('extension activation', () => {
     mockExtensionContext.subscriptions.length = 0;
     ensureSignedInMock.mockReset();
     getSubscriptionsMock.mockReset();
+    findSubscriptionMock.mockReset();
     refreshEnvironmentMock.mockReset();
     getSettingsMock.mockReset();
     getSettingsMock.mockReturnValue({
       endpoint: '',
       selectedKeys: [],
+      excludedKeys: [],
       label: '',
+      overrideLabels: [],
       keyFilter: '*',
+      stores: [],
       subscriptionId: '',
       tenantId: '',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 0, defaultVault: '' },
+      auth: { credential: 'vscode' },
+      activeProfile: '',
     });
   });
 
@@ -84,8 +102,12 @@ describe('extension activation', () => {
       expect.arrayContaining([
         'azureEnv.connect',
         'azureEnv.refresh',
+        'azureEnv.switchProfile',
+        'azureEnv.disconnect',
+        'azureEnv.reconnect',
         'azureEnv.copyValue',
         'azureEnv.copyKey',
+        'azureEnv.copyEnvVarName',
         'azureEnv.revealValue',
       ])
     );
@@ -99,14 +121,20 @@ describe('extension activation', () => {
     });
 
     ensureSignedInMock.mockResolvedValue(true);
-    getSubscriptionsMock.mockResolvedValue([
-      { subscriptionId: 'sub-1', tenantId: 'tenant-1' },
-    ]);
+    findSubscriptionMock.mockResolvedValue({
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      account: { id: 'work', label: 'work@contoso.com' },
+    });
 
     refreshEnvironmentMock.mockResolvedValue({
+      applied: true,
+      cancelled: false,
       succeeded: 1,
       failed: 0,
       errors: [],
+      warnings: [],
+      missing: [],
       items: [{ key: 'App/Key', value: 'value', isSecret: false }],
     });
 
@@ -116,10 +144,17 @@ describe('extension activation', () => {
     getSettingsMock.mockReturnValue({
       endpoint: 'https://example.azconfig.io',
       selectedKeys: ['App/Key'],
+      excludedKeys: [],
       label: '',
+      overrideLabels: [],
       keyFilter: '*',
+      stores: [],
       subscriptionId: 'sub-1',
       tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 0, defaultVault: '' },
+      auth: { credential: 'vscode' },
+      activeProfile: '',
     });
 
     const refreshHandler = commandMap.get('azureEnv.refresh');
@@ -135,4 +170,155 @@ describe('extension activation', () => {
     expect(roots).toHaveLength(1);
     expect(roots[0].label).toBe('App');
   });
+
+  it('shows failed keys in the tree when every key fails', async () => {
+    const commandMap = new Map<string, (...args: unknown[]) => unknown>();
+    commands.registerCommand.mockImplementation((command, handler) => {
+      commandMap.set(command, handler as (...args: unknown[]) => unknown);
+      return { dispose: vi.fn() };
+    });
+    window.showWarningMessage.mockResolvedValue(undefined);
+
+    ensureSignedInMock.mockResolvedValue(true);
+    findSubscriptionMock.mockResolvedValue({
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      account: { id: 'work', label: 'work@contoso.com' },
+    });
+
+    refreshEnvironmentMock.mockResolvedValue({
+      applied: false,
+      cancelled: false,
+      succeeded: 0,
+      failed: 1,
+      errors: [{ key: 'App/Key', store: 'example', error: new Error('Forbidden') }],
+      warnings: [],
+      missing: [{ key: 'App/Gone', store: 'example', labels: [''] }],
+      items: [],
+    });
+
+    const { activate } = await import('../src/extension');
+    await activate(mockExtensionContext as unknown as ExtensionContext);
+
+    getSettingsMock.mockReturnValue({
+      endpoint: 'https://example.azconfig.io',
+      selectedKeys: ['App/Key', 'App/Gone'],
+      excludedKeys: [],
+      label: '',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-1',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 0, defaultVault: '' },
+      auth: { credential: 'vscode' },
+      activeProfile: '',
+    });
+
+    const refreshHandler = commandMap.get('azureEnv.refresh');
+    if (!refreshHandler) {
+      throw new Error('Refresh command was not registered');
+    }
+
+    await refreshHandler();
+
+    const treeDataProvider = window.createTreeView.mock.calls[0][1]
+      .treeDataProvider as EnvTreeProvider;
+    expect(treeDataProvider.getChildren().map((node) => node.label)).toEqual([
+      'App/Key',
+      'App/Gone',
+    ]);
+  });
+
+  it('reuses the account token across refreshes', async () => {
+    const commandMap = new Map<string, (...args: unknown[]) => unknown>();
+    commands.registerCommand.mockImplementation((command, handler) => {
+      commandMap.set(command, handler as (...args: unknown[]) => unknown);
+      return { dispose: vi.fn() };
+    });
+
+    const getSessionWithScopes = vi.fn().mockResolvedValue({
+      accessToken: 'token-1',
+      account: { label: 'work@contoso.com' },
+    });
+    ensureSignedInMock.mockResolvedValue(true);
+    findSubscriptionMock.mockResolvedValue({
+      subscriptionId: 'sub-2',
+      tenantId: 'tenant-1',
+      account: { id: 'work', label: 'work@contoso.com' },
+      authentication: { getSessionWithScopes },
+    });
+    const tokens: (string | undefined)[] = [];
+    refreshEnvironmentMock.mockImplementation(
+      async ({ keyVaultService }: { keyVaultService: { credential: TokenCredential } }) => {
+        const token = await keyVaultService.credential.getToken('https://vault.azure.net/.default');
+        tokens.push(token?.token);
+        return {
+          applied: true,
+          cancelled: false,
+          succeeded: 0,
+          failed: 0,
+          errors: [],
+          warnings: [],
+          missing: [],
+          items: [],
+        };
+      }
+    );
+
+    const { activate } = await import('../src/extension');
+    await activate(mockExtensionContext as unknown as ExtensionContext);
+    getSettingsMock.mockReturnValue({
+      endpoint: 'https://example.azconfig.io',
+      selectedKeys: ['App/Key'],
+      excludedKeys: [],
+      label: '',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [],
+      subscriptionId: 'sub-2',
+      tenantId: 'tenant-1',
+      naming: {},
+      keyVault: { cacheTtlSeconds: 0, defaultVault: '' },
+      auth: { credential: 'vscode' },
+      activeProfile: '',
+    });
+
+    const refreshHandler = commandMap.get('azureEnv.refresh')!;
+    await refreshHandler();
+    await refreshHandler();
+
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(getSessionWithScopes).toHaveBeenCalledTimes(1);
+  });
+
+  it('tears down the environment on disconnect', async () => {
+    const commandMap = new Map<string, (...args: unknown[]) => unknown>();
+    commands.registerCommand.mockImplementation((command, handler) => {
+      commandMap.set(command, handler as (...args: unknown[]) => unknown);
+      return { dispose: vi.fn() };
+    });
+    window.showWarningMessage.mockResolvedValue('Disconnect');
+    window.showInformationMessage.mockResolvedValue(undefined);
+
+    const { activate } = await import('../src/extension');
+    await activate(mockExtensionContext as unknown as ExtensionContext);
+
+    const disconnectHandler = commandMap.get('azureEnv.disconnect');
+    if (!disconnectHandler) {
+      throw new Error('Disconnect command was not registered');
+    }
+
+    await disconnectHandler();
+
+    expect(mockExtensionContext.environmentVariableCollection.clear).toHaveBeenCalled();
+    expect(mockExtensionContext.workspaceState.update).toHaveBeenCalledWith(
+      'azureEnv.lastConnection',
+      { endpoint: 'https://example.azconfig.io' }
+    );
+    const treeDataProvider = window.createTreeView.mock.calls[0][1]
+      .treeDataProvider as EnvTreeProvider;
+    expect(treeDataProvider.getChildren()).toEqual([]);
+  });
 });
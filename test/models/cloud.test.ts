@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AZURE_PUBLIC_CLOUD,
+  getCloudEnvironment,
+  isCloudHost,
+  toCloudScope,
+  type CloudSettings,
+} from '../../src/models/cloud';
+
+function createCloudSettings(overrides: Partial<CloudSettings> = {}): CloudSettings {
+  return {
+    environment: 'AzureCloud',
+    resourceManagerEndpoint: '',
+    appConfigurationSuffix: '',
+    keyVaultSuffix: '',
+    appConfigurationAudience: '',
+    activeDirectoryEndpoint: '',
+    ...overrides,
+  };
+}
+
+describe('getCloudEnvironment', () => {
+  it('defaults to the public cloud', () => {
+    expect(getCloudEnvironment()).toBe(AZURE_PUBLIC_CLOUD);
+    expect(getCloudEnvironment(createCloudSettings())).toBe(AZURE_PUBLIC_CLOUD);
+  });
+
+  it('returns the domains of a sovereign cloud', () => {
+    const cloud = getCloudEnvironment(createCloudSettings({ environment: 'AzureChinaCloud' }));
+
+    expect(cloud.resourceManagerEndpoint).toBe('https://management.chinacloudapi.cn');
+    expect(cloud.appConfigurationSuffix).toBe('azconfig.azure.cn');
+    expect(cloud.keyVaultSuffix).toBe('vault.azure.cn');
+  });
+
+  it('ignores custom domains unless the cloud is Custom', () => {
+    const cloud = getCloudEnvironment(createCloudSettings({ keyVaultSuffix: 'vault.example.com' }));
+
+    expect(cloud.keyVaultSuffix).toBe('vault.azure.net');
+  });
+
+  it('builds a custom cloud from its settings', () => {
+    const cloud = getCloudEnvironment(
+      createCloudSettings({
+        environment: 'Custom',
+        resourceManagerEndpoint: 'https://management.example.com/',
+        appConfigurationSuffix: '*.azconfig.example.com',
+        keyVaultSuffix: '.vault.example.com',
+        activeDirectoryEndpoint: 'https://login.example.com/',
+      })
+    );
+
+    expect(cloud).toEqual({
+      name: 'Custom',
+      resourceManagerEndpoint: 'https://management.example.com',
+      appConfigurationSuffix: 'azconfig.example.com',
+      keyVaultSuffix: 'vault.example.com',
+      appConfigurationAudience: 'https://azconfig.example.com',
+      keyVaultAudience: 'https://vault.example.com',
+      activeDirectoryEndpoint: 'https://login.example.com',
+    });
+  });
+});
+
+describe('isCloudHost', () => {
+  it('matches subdomains of the suffix only', () => {
+    expect(isCloudHost('store.azconfig.azure.us', 'azconfig.azure.us')).toBe(true);
+    expect(isCloudHost('azconfig.azure.us', 'azconfig.azure.us')).toBe(false);
+    expect(isCloudHost('store.fakeazconfig.azure.us', 'azconfig.azure.us')).toBe(false);
+    expect(isCloudHost('store.azconfig.azure.us.evil.com', 'azconfig.azure.us')).toBe(false);
+  });
+
+  it('matches nothing when the suffix is not set', () => {
+    expect(isCloudHost('store.azconfig.io', '')).toBe(false);
+  });
+});
+
+describe('toCloudScope', () => {
+  const gov = getCloudEnvironment(createCloudSettings({ environment: 'AzureUSGovernment' }));
+
+  it('translates public cloud scopes', () => {
+    expect(toCloudScope('https://management.azure.com/.default', gov)).toBe(
+      'https://management.usgovcloudapi.net/.default'
+    );
+    expect(toCloudScope('https://azconfig.io/.default', gov)).toBe(
+      'https://appconfig.azure.us/.default'
+    );
+    expect(toCloudScope('https://vault.azure.net/.default', gov)).toBe(
+      'https://vault.usgovcloudapi.net/.default'
+    );
+  });
+
+  it('keeps other scopes', () => {
+    expect(toCloudScope('https://appconfig.azure.us/.default', gov)).toBe(
+      'https://appconfig.azure.us/.default'
+    );
+    expect(toCloudScope('https://vault.azure.net/.default', AZURE_PUBLIC_CLOUD)).toBe(
+      'https://vault.azure.net/.default'
+    );
+  });
+});
@@ -4,7 +4,11 @@ import {
   isKeyVaultReference,
   parseKeyVaultReference,
   parseKeyVaultSecretUri,
+  createKeyVaultReference,
+  KEY_VAULT_REFERENCE_CONTENT_TYPE,
 } from '../../src/models/configValue';
+import { getCloudEnvironment } from '../../src/models/cloud';
+import { KeyVaultReferenceError } from '../../src/errors';
 
 describe('transformKeyToEnvVar', () => {
   it('converts slashes to underscores', () => {
@@ -26,6 +30,50 @@ describe('transformKeyToEnvVar', () => {
   it('handles keys with multiple consecutive slashes', () => {
     expect(transformKeyToEnvVar('a//b')).toBe('A__B');
   });
+
+  describe('naming options', () => {
+    it('keeps the original casing with preserve-case', () => {
+      expect(transformKeyToEnvVar('MyService/Db/Host', { strategy: 'preserve-case' })).toBe(
+        'MyService_Db_Host'
+      );
+    });
+
+    it('maps slashes and colons to double underscores with dotnet', () => {
+      expect(transformKeyToEnvVar('MyService:Db/Host', { strategy: 'dotnet' })).toBe(
+        'MyService__Db__Host'
+      );
+    });
+
+    it('uses the configured separator with custom', () => {
+      expect(
+        transformKeyToEnvVar('MyService/Db/Host', { strategy: 'custom', separator: '.' })
+      ).toBe('MyService.Db.Host');
+    });
+
+    it('strips the longest matching prefix', () => {
+      expect(
+        transformKeyToEnvVar('MyService/Db/Host', {
+          stripPrefixes: ['MyService/', 'MyService/Db/'],
+        })
+      ).toBe('HOST');
+    });
+
+    it('does not strip a prefix that is the whole key', () => {
+      expect(transformKeyToEnvVar('MyService/', { stripPrefixes: ['MyService/'] })).toBe(
+        'MYSERVICE_'
+      );
+    });
+
+    it('uses an alias before any other rule', () => {
+      expect(
+        transformKeyToEnvVar('MyService/Db/Host', {
+          strategy: 'dotnet',
+          stripPrefixes: ['MyService/'],
+          aliases: { 'MyService/Db/Host': 'DATABASE_URL' },
+        })
+      ).toBe('DATABASE_URL');
+    });
+  });
 });
 
 describe('isKeyVaultReference', () => {
@@ -48,6 +96,17 @@ describe('isKeyVaultReference', () => {
   });
 });
 
+describe('createKeyVaultReference', () => {
+  it('builds a reference that parses back to the secret URI', () => {
+    const uri = 'https://myvault.vault.azure.net/secrets/MySecret';
+    expect(parseKeyVaultReference(createKeyVaultReference(uri))).toBe(uri);
+  });
+
+  it('uses a content type recognised as a Key Vault reference', () => {
+    expect(isKeyVaultReference(KEY_VAULT_REFERENCE_CONTENT_TYPE)).toBe(true);
+  });
+});
+
 describe('parseKeyVaultReference', () => {
   it('extracts URI from valid reference JSON', () => {
     const value = '{"uri":"https://myvault.vault.azure.net/secrets/MySecret"}';
@@ -60,6 +119,7 @@ describe('parseKeyVaultReference', () => {
 
   it('throws on missing uri field', () => {
     expect(() => parseKeyVaultReference('{}')).toThrow('Missing uri');
+    expect(() => parseKeyVaultReference('{}')).toThrow(KeyVaultReferenceError);
   });
 });
 
@@ -106,6 +166,23 @@ describe('parseKeyVaultSecretUri', () => {
     );
   });
 
+  it('accepts vaults of the given cloud only', () => {
+    const china = getCloudEnvironment({
+      environment: 'AzureChinaCloud',
+      resourceManagerEndpoint: '',
+      appConfigurationSuffix: '',
+      keyVaultSuffix: '',
+      appConfigurationAudience: '',
+    });
+
+    expect(parseKeyVaultSecretUri('https://v.vault.azure.cn/secrets/Db', china).vaultUrl).toBe(
+      'https://v.vault.azure.cn'
+    );
+    expect(() => parseKeyVaultSecretUri('https://v.vault.azure.net/secrets/Db', china)).toThrow(
+      'must be *.vault.azure.cn'
+    );
+  });
+
   it('accepts valid Azure Key Vault domains', () => {
     const uri = 'https://my-company-vault.vault.azure.net/secrets/DatabasePassword';
     const result = parseKeyVaultSecretUri(uri);
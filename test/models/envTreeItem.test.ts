@@ -97,4 +97,57 @@ describe('EnvTreeItem', () => {
       expect(plainItem.tooltip).not.toContain('Secret');
     });
   });
+
+  describe('source label', () => {
+    it('shows the source label next to the value and in the tooltip', () => {
+      const item = new EnvTreeItem('APP_NAME', 'my-app', false, TreeItemCollapsibleState.None, {
+        sourceLabel: 'dev',
+      });
+
+      expect(item.description).toBe('my-app [dev]');
+      expect(item.tooltip).toContain('Label: dev');
+    });
+
+    it('describes the null label in the tooltip only', () => {
+      const item = new EnvTreeItem('APP_NAME', 'my-app', false, TreeItemCollapsibleState.None, {
+        sourceLabel: '',
+      });
+
+      expect(item.description).toBe('my-app');
+      expect(item.tooltip).toContain('Label: (no label)');
+    });
+  });
+
+  describe('environment variable name', () => {
+    it('shows the variable name before the value and in the tooltip', () => {
+      const item = new EnvTreeItem('Host', 'db.local', false, TreeItemCollapsibleState.None, {
+        envVar: 'MyService__Host',
+      });
+
+      expect(item.envVar).toBe('MyService__Host');
+      expect(item.description).toBe('MyService__Host = db.local');
+      expect(item.tooltip).toContain('Environment variable: MyService__Host');
+    });
+  });
+
+  describe('stale values', () => {
+    it('flags stale values in the description and tooltip', () => {
+      const item = new EnvTreeItem('APP_NAME', 'my-app', false, TreeItemCollapsibleState.None, {
+        stale: true,
+      });
+
+      expect(item.description).toBe('my-app (stale)');
+      expect(item.tooltip).toContain('last known good value');
+    });
+  });
+
+  describe('cached values', () => {
+    it('says when a secret was served from the cache', () => {
+      const item = new EnvTreeItem('DB_PASSWORD', 'secret', true, TreeItemCollapsibleState.None, {
+        cached: true,
+      });
+
+      expect(item.tooltip).toContain('Served from cache');
+    });
+  });
 });
@@ -1,14 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { buildKeyHierarchy, splitKeyPath } from '../../src/models/keyHierarchy';
+import {
+  buildErrorNodes,
+  buildKeyHierarchy,
+  buildMissingKeyNodes,
+  buildWarningNodes,
+  splitKeyPath,
+} from '../../src/models/keyHierarchy';
 import { TreeItemCollapsibleState } from '../__mocks__/vscode';
 
 describe('splitKeyPath', () => {
   it('splits key by "/" delimiter', () => {
-    expect(splitKeyPath('MyService/Database/Host')).toEqual([
-      'MyService',
-      'Database',
-      'Host',
-    ]);
+    expect(splitKeyPath('MyService/Database/Host')).toEqual(['MyService', 'Database', 'Host']);
   });
 
   it('handles key without delimiters', () => {
@@ -135,3 +137,86 @@ describe('buildKeyHierarchy', () => {
     expect(secretNode?.description).toBe('1 item (has value)');
   });
 });
+
+describe('buildWarningNodes', () => {
+  it('describes collisions by the number of distinct keys', () => {
+    const [node] = buildWarningNodes([
+      {
+        kind: 'collision',
+        envVar: 'APP_HOST',
+        sources: [
+          { key: 'App/Host', store: 'dev' },
+          { key: 'app/host', store: 'dev' },
+          { key: 'App/Host', store: 'shared' },
+        ],
+        message: 'Keys App/Host, app/host all map to APP_HOST; using app/host',
+      },
+    ]);
+
+    expect(node.kind).toBe('warning');
+    expect(node.label).toBe('APP_HOST');
+    expect(node.description).toBe('2 keys collide');
+    expect(node.tooltip?.split('\n')).toEqual([
+      'Keys App/Host, app/host all map to APP_HOST; using app/host',
+      'dev: App/Host',
+      'dev: app/host',
+      'shared: App/Host',
+    ]);
+  });
+
+  it('describes invalid names', () => {
+    const [node] = buildWarningNodes([
+      {
+        kind: 'invalidName',
+        envVar: 'APP.HOST',
+        sources: [{ key: 'App.Host', store: 'dev' }],
+        message: 'APP.HOST is not a valid environment variable name (from App.Host)',
+      },
+    ]);
+
+    expect(node.description).toBe('invalid name');
+  });
+});
+
+describe('buildMissingKeyNodes', () => {
+  it('names the store and the labels that were searched', () => {
+    const [node] = buildMissingKeyNodes([{ key: 'App/Host', store: 'dev', labels: ['local', ''] }]);
+
+    expect(node).toMatchObject({
+      kind: 'missing',
+      label: 'App/Host',
+      key: 'App/Host',
+      store: 'dev',
+      description: 'missing from dev',
+    });
+    expect(node.tooltip).toContain('not found under local, (no label)');
+  });
+});
+
+describe('buildErrorNodes', () => {
+  it('shows the error with its next step', () => {
+    const [node] = buildErrorNodes([
+      {
+        key: 'App/Secret',
+        store: 'dev',
+        label: 'dev',
+        message: 'Access denied to Key Vault secret. Check your Azure RBAC permissions.',
+        remediation: {
+          action: 'requestRole',
+          title: 'Request Key Vault Secrets User',
+          detail: 'Ask an owner of the resource to assign you the "Key Vault Secrets User" role.',
+        },
+      },
+    ]);
+
+    expect(node).toMatchObject({
+      kind: 'error',
+      key: 'App/Secret',
+      store: 'dev',
+      sourceLabel: 'dev',
+      description:
+        'Access denied to Key Vault secret. Check your Azure RBAC permissions. (Request Key Vault Secrets User)',
+    });
+    expect(node.tooltip?.split('\n')[1]).toContain('Key Vault Secrets User');
+  });
+});
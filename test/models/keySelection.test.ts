@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isPrefixSelection,
+  matchesSelection,
+  isExcluded,
+  getFolderSelections,
+  renameSelection,
+  suggestRenamedKey,
+} from '../../src/models/keySelection';
+
+describe('isPrefixSelection', () => {
+  it('detects selections ending with *', () => {
+    expect(isPrefixSelection('MyService/*')).toBe(true);
+    expect(isPrefixSelection('MyService/Host')).toBe(false);
+  });
+});
+
+describe('matchesSelection', () => {
+  it('matches exact keys', () => {
+    expect(matchesSelection('MyService/Host', 'MyService/Host')).toBe(true);
+    expect(matchesSelection('MyService/Hostname', 'MyService/Host')).toBe(false);
+  });
+
+  it('matches keys under a prefix', () => {
+    expect(matchesSelection('MyService/NewThing', 'MyService/*')).toBe(true);
+    expect(matchesSelection('Other/Host', 'MyService/*')).toBe(false);
+  });
+});
+
+describe('isExcluded', () => {
+  it('excludes exact keys and prefixes', () => {
+    const excluded = ['MyService/Debug', 'MyService/Internal/*'];
+
+    expect(isExcluded('MyService/Debug', excluded)).toBe(true);
+    expect(isExcluded('MyService/Internal/Token', excluded)).toBe(true);
+    expect(isExcluded('MyService/Host', excluded)).toBe(false);
+  });
+});
+
+describe('getFolderSelections', () => {
+  it('returns one prefix per top-level folder', () => {
+    expect(getFolderSelections(['App/Host', 'App/Port', 'Db/Host', 'Standalone'])).toEqual([
+      'App/*',
+      'Db/*',
+    ]);
+  });
+});
+
+describe('renameSelection', () => {
+  it('moves selections at or under the renamed path', () => {
+    expect(renameSelection('App/Db', 'App/Db', 'App/Database')).toBe('App/Database');
+    expect(renameSelection('App/Db/Host', 'App/Db', 'App/Database')).toBe('App/Database/Host');
+    expect(renameSelection('App/Db/*', 'App/Db', 'App/Database')).toBe('App/Database/*');
+  });
+
+  it('leaves other selections alone', () => {
+    expect(renameSelection('App/*', 'App/Db', 'App/Database')).toBe('App/*');
+    expect(renameSelection('App/DbPool', 'App/Db', 'App/Database')).toBe('App/DbPool');
+  });
+});
+
+describe('suggestRenamedKey', () => {
+  it('prefers a key that differs only in case', () => {
+    expect(suggestRenamedKey('App/DbHost', ['App/Db/Host', 'App/DBHost'])).toBe('App/DBHost');
+  });
+
+  it('finds a key moved to another folder', () => {
+    expect(suggestRenamedKey('App/Host', ['Web/Port', 'Web/Host'])).toBe('Web/Host');
+  });
+
+  it('falls back to the closest key by edit distance', () => {
+    expect(suggestRenamedKey('App/ConnString', ['App/ConnStrings', 'App/Timeout'])).toBe(
+      'App/ConnStrings'
+    );
+  });
+
+  it('suggests nothing when no key is close', () => {
+    expect(suggestRenamedKey('App/Host', ['Billing/Timeout', 'App/Key'])).toBeUndefined();
+  });
+});
@@ -1,6 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import * as vscode from 'vscode';
-import { getSettings, saveSettings } from '../../src/models/settings';
+import {
+  getSettings,
+  saveSettings,
+  getProfiles,
+  getProfileFromSettings,
+  setActiveProfile,
+  getStoreSources,
+  getStoreName,
+  getConnectionSnapshot,
+  clearConnectionSettings,
+  restoreConnectionSettings,
+} from '../../src/models/settings';
+
+/**
+ * Type a workspace configuration mock that implements only the members under test.
+ */
+function asConfiguration(
+  config: Partial<vscode.WorkspaceConfiguration>
+): vscode.WorkspaceConfiguration {
+  return config as vscode.WorkspaceConfiguration;
+}
 
 describe('getSettings', () => {
   beforeEach(() => {
@@ -37,13 +57,36 @@ describe('getSettings', () => {
     expect(settings.selectedKeys).toEqual([]);
     expect(settings.label).toBe('');
     expect(settings.keyFilter).toBe('*');
+    expect(settings.naming).toEqual({
+      strategy: 'uppercase-underscore',
+      separator: '_',
+      stripPrefixes: [],
+      aliases: {},
+      collisionPolicy: 'last-wins',
+    });
+    expect(settings.keyVault).toEqual({ cacheTtlSeconds: 300, defaultVault: '' });
+    expect(settings.cloud.environment).toBe('AzureCloud');
+    expect(settings.auth.credential).toBe('vscode');
+  });
+
+  it('reads naming rules from the azureEnv.naming section', () => {
+    const naming: Record<string, unknown> = { strategy: 'dotnet', aliases: { 'App/Host': 'HOST' } };
+    vi.mocked(vscode.workspace.getConfiguration).mockImplementation((section?: string) =>
+      asConfiguration({
+        get: vi.fn((key: string) => (section === 'azureEnv.naming' ? naming[key] : undefined)),
+      })
+    );
+
+    const settings = getSettings();
+    expect(settings.naming.strategy).toBe('dotnet');
+    expect(settings.naming.aliases).toEqual({ 'App/Host': 'HOST' });
   });
 });
 
 describe('saveSettings', () => {
   it('saves settings to workspace configuration', async () => {
     const mockUpdate = vi.fn().mockResolvedValue(undefined);
-    const mockConfig = { update: mockUpdate };
+    const mockConfig = { get: vi.fn(), update: mockUpdate };
     vi.mocked(vscode.workspace.getConfiguration).mockReturnValue(mockConfig as any);
 
     await saveSettings({
@@ -67,7 +110,7 @@ describe('saveSettings', () => {
 
   it('only saves provided fields', async () => {
     const mockUpdate = vi.fn().mockResolvedValue(undefined);
-    const mockConfig = { update: mockUpdate };
+    const mockConfig = { get: vi.fn(), update: mockUpdate };
     vi.mocked(vscode.workspace.getConfiguration).mockReturnValue(mockConfig as any);
 
     await saveSettings({ endpoint: 'https://test.azconfig.io' });
@@ -80,3 +123,251 @@ describe('saveSettings', () => {
     expect(mockUpdate).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('profiles', () => {
+  function mockConfiguration(values: Record<string, Record<string, unknown>>) {
+    const mockUpdate = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(vscode.workspace.getConfiguration).mockImplementation((section?: string) =>
+      asConfiguration({
+        get: vi.fn((key: string) => values[section ?? '']?.[key]),
+        update: mockUpdate,
+      })
+    );
+    return mockUpdate;
+  }
+
+  it('overlays the active profile on the base settings', () => {
+    mockConfiguration({
+      'azureEnv.appConfiguration': {
+        endpoint: 'https://base.azconfig.io',
+        selectedKeys: ['App/Key'],
+        label: '',
+      },
+      azureEnv: {
+        activeProfile: 'staging',
+        profiles: {
+          staging: { endpoint: 'https://staging.azconfig.io', label: 'staging' },
+        },
+      },
+    });
+
+    const settings = getSettings();
+    expect(settings.activeProfile).toBe('staging');
+    expect(settings.endpoint).toBe('https://staging.azconfig.io');
+    expect(settings.label).toBe('staging');
+    expect(settings.selectedKeys).toEqual(['App/Key']);
+  });
+
+  it('ignores an active profile that does not exist', () => {
+    mockConfiguration({
+      'azureEnv.appConfiguration': { endpoint: 'https://base.azconfig.io' },
+      azureEnv: { activeProfile: 'missing', profiles: {} },
+    });
+
+    const settings = getSettings();
+    expect(settings.activeProfile).toBe('');
+    expect(settings.endpoint).toBe('https://base.azconfig.io');
+  });
+
+  it('returns configured profiles', () => {
+    mockConfiguration({
+      azureEnv: { profiles: { dev: { label: 'dev' } } },
+    });
+
+    expect(getProfiles()).toEqual({ dev: { label: 'dev' } });
+  });
+
+  it('sets the active profile', async () => {
+    const mockUpdate = mockConfiguration({});
+
+    await setActiveProfile('prod');
+
+    expect(mockUpdate).toHaveBeenCalledWith(
+      'activeProfile',
+      'prod',
+      vscode.ConfigurationTarget.Workspace
+    );
+  });
+
+  it('writes settings into the active profile', async () => {
+    const mockUpdate = mockConfiguration({
+      azureEnv: {
+        activeProfile: 'dev',
+        profiles: { dev: { endpoint: 'https://dev.azconfig.io', label: 'dev' } },
+      },
+    });
+
+    await saveSettings({ selectedKeys: ['App/New'] });
+
+    expect(mockUpdate).toHaveBeenCalledTimes(1);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      'profiles',
+      {
+        dev: { endpoint: 'https://dev.azconfig.io', label: 'dev', selectedKeys: ['App/New'] },
+      },
+      vscode.ConfigurationTarget.Workspace
+    );
+  });
+
+  it('builds a profile from the App Configuration settings only', () => {
+    mockConfiguration({
+      'azureEnv.appConfiguration': {
+        endpoint: 'https://base.azconfig.io',
+        selectedKeys: ['App/Key'],
+        excludedKeys: ['App/Secret'],
+        stores: [{ endpoint: 'https://shared.azconfig.io', selectedKeys: ['Shared/*'] }],
+      },
+      'azureEnv.naming': { separator: '.' },
+    });
+
+    expect(getProfileFromSettings(getSettings())).toEqual({
+      endpoint: 'https://base.azconfig.io',
+      selectedKeys: ['App/Key'],
+      excludedKeys: ['App/Secret'],
+      label: '',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [{ endpoint: 'https://shared.azconfig.io', selectedKeys: ['Shared/*'] }],
+      subscriptionId: '',
+      tenantId: '',
+    });
+  });
+});
+
+describe('connection snapshots', () => {
+  function mockConfiguration(workspaceValues: Record<string, unknown>, activeProfile?: string) {
+    const mockUpdate = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(vscode.workspace.getConfiguration).mockImplementation(() =>
+      asConfiguration({
+        get: vi.fn((key: string) => (key === 'activeProfile' ? activeProfile : undefined)),
+        inspect: vi.fn((key: string) => ({ key, workspaceValue: workspaceValues[key] })),
+        update: mockUpdate,
+      })
+    );
+    return mockUpdate;
+  }
+
+  it('captures only the settings stored in the workspace', () => {
+    mockConfiguration({ endpoint: 'https://dev.azconfig.io', selectedKeys: ['App/Key'] }, 'dev');
+
+    expect(getConnectionSnapshot()).toEqual({
+      endpoint: 'https://dev.azconfig.io',
+      selectedKeys: ['App/Key'],
+      activeProfile: 'dev',
+    });
+  });
+
+  it('clears every connection setting and the active profile', async () => {
+    const mockUpdate = mockConfiguration({});
+
+    await clearConnectionSettings();
+
+    for (const field of ['endpoint', 'selectedKeys', 'stores', 'subscriptionId', 'tenantId']) {
+      expect(mockUpdate).toHaveBeenCalledWith(
+        field,
+        undefined,
+        vscode.ConfigurationTarget.Workspace
+      );
+    }
+    expect(mockUpdate).toHaveBeenCalledWith(
+      'activeProfile',
+      '',
+      vscode.ConfigurationTarget.Workspace
+    );
+  });
+
+  it('restores the saved settings', async () => {
+    const mockUpdate = mockConfiguration({});
+
+    await restoreConnectionSettings({ endpoint: 'https://dev.azconfig.io', activeProfile: 'dev' });
+
+    expect(mockUpdate).toHaveBeenCalledTimes(2);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      'endpoint',
+      'https://dev.azconfig.io',
+      vscode.ConfigurationTarget.Workspace
+    );
+    expect(mockUpdate).toHaveBeenCalledWith(
+      'activeProfile',
+      'dev',
+      vscode.ConfigurationTarget.Workspace
+    );
+  });
+});
+
+describe('getStoreSources', () => {
+  it('lists the primary store before additional stores', () => {
+    const sources = getStoreSources({
+      endpoint: 'https://team.azconfig.io',
+      selectedKeys: ['Team/Key'],
+      label: 'dev',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [
+        {
+          name: 'platform',
+          endpoint: 'https://platform.azconfig.io',
+          selectedKeys: ['Shared/Key'],
+        },
+        { endpoint: 'https://other.azconfig.io', label: 'prod', selectedKeys: ['Other/Key'] },
+      ],
+      subscriptionId: '',
+      tenantId: '',
+      activeProfile: '',
+    });
+
+    expect(sources).toEqual([
+      {
+        endpoint: 'https://team.azconfig.io',
+        label: 'dev',
+        overrideLabels: [],
+        selectedKeys: ['Team/Key'],
+      },
+      {
+        name: 'platform',
+        endpoint: 'https://platform.azconfig.io',
+        label: 'dev',
+        overrideLabels: [],
+        selectedKeys: ['Shared/Key'],
+      },
+      {
+        endpoint: 'https://other.azconfig.io',
+        label: 'prod',
+        overrideLabels: [],
+        selectedKeys: ['Other/Key'],
+      },
+    ]);
+  });
+
+  it('omits the primary store when no endpoint is set', () => {
+    const sources = getStoreSources({
+      endpoint: '',
+      selectedKeys: [],
+      label: '',
+      overrideLabels: [],
+      keyFilter: '*',
+      stores: [{ endpoint: 'https://platform.azconfig.io', selectedKeys: ['Shared/Key'] }],
+      subscriptionId: '',
+      tenantId: '',
+      activeProfile: '',
+    });
+
+    expect(sources.map((source) => source.endpoint)).toEqual(['https://platform.azconfig.io']);
+  });
+});
+
+describe('getStoreName', () => {
+  it('prefers the configured name', () => {
+    expect(getStoreName({ name: 'shared', endpoint: 'https://platform.azconfig.io' })).toBe(
+      'shared'
+    );
+  });
+
+  it('takes the store name from the endpoint', () => {
+    expect(getStoreName({ endpoint: 'https://platform.azconfig.io' })).toBe('platform');
+  });
+
+  it('falls back to the endpoint when it is not a URL', () => {
+    expect(getStoreName({ endpoint: 'not a url' })).toBe('not a url');
+  });
+});
@@ -45,6 +45,24 @@ describe('validateSettings', () => {
       expect(result.errors[0].message).toContain('azconfig.io');
     });
 
+    it('accepts endpoints of the configured cloud only', () => {
+      const cloud = {
+        environment: 'AzureUSGovernment' as const,
+        resourceManagerEndpoint: '',
+        appConfigurationSuffix: '',
+        keyVaultSuffix: '',
+        appConfigurationAudience: '',
+      };
+
+      expect(
+        validateSettings(createSettings({ endpoint: 'https://myconfig.azconfig.azure.us', cloud }))
+          .valid
+      ).toBe(true);
+      const result = validateSettings(createSettings({ cloud }));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain('*.azconfig.azure.us');
+    });
+
     it('rejects invalid URL format', () => {
       const result = validateSettings(createSettings({ endpoint: 'not-a-url' }));
       expect(result.valid).toBe(false);
@@ -52,6 +70,28 @@ describe('validateSettings', () => {
     });
   });
 
+  describe('default vault validation', () => {
+    function withVault(defaultVault: string): AzureEnvSettings {
+      return createSettings({ keyVault: { cacheTtlSeconds: 300, defaultVault } });
+    }
+
+    it('accepts a vault of the configured cloud', () => {
+      expect(validateSettings(withVault('https://team.vault.azure.net')).valid).toBe(true);
+    });
+
+    it('rejects a vault outside the Key Vault domain', () => {
+      const result = validateSettings(withVault('https://team.vault.example.com'));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('keyVault.defaultVault');
+      expect(result.errors[0].message).toContain('*.vault.azure.net');
+    });
+
+    it('rejects a vault without HTTPS', () => {
+      const result = validateSettings(withVault('http://team.vault.azure.net'));
+      expect(result.errors[0].message).toContain('HTTPS');
+    });
+  });
+
   describe('selectedKeys validation', () => {
     it('accepts valid keys', () => {
       const result = validateSettings(
@@ -86,12 +126,54 @@ describe('validateSettings', () => {
       }
     });
 
+    it('accepts prefix selections ending with *', () => {
+      const result = validateSettings(createSettings({ selectedKeys: ['MyService/*'] }));
+      expect(result.valid).toBe(true);
+    });
+
     it('rejects excessively long keys', () => {
       const longKey = 'a'.repeat(10001);
       const result = validateSettings(createSettings({ selectedKeys: [longKey] }));
       expect(result.valid).toBe(false);
       expect(result.errors[0].message).toContain('maximum length');
     });
+
+    it('accepts override labels including the null label', () => {
+      const result = validateSettings(createSettings({ label: '', overrideLabels: ['', 'dev'] }));
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects more override labels than fit in one label filter', () => {
+      const result = validateSettings(
+        createSettings({ overrideLabels: ['a', 'b', 'c', 'd', 'e'] })
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('overrideLabels');
+      expect(validateSettings(createSettings({ overrideLabels: ['a', 'b', 'c', 'd'] })).valid).toBe(
+        true
+      );
+    });
+
+    it('rejects too many override labels on an extra store', () => {
+      const result = validateSettings(
+        createSettings({
+          stores: [
+            {
+              endpoint: 'https://shared.azconfig.io',
+              selectedKeys: [],
+              overrideLabels: ['a', 'b', 'c', 'd', 'e'],
+            },
+          ],
+        })
+      );
+      expect(result.errors.map((error) => error.field)).toContain('stores');
+    });
+
+    it('rejects override labels with invalid characters', () => {
+      const result = validateSettings(createSettings({ overrideLabels: ['dev', 'a,b'] }));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('overrideLabels');
+    });
   });
 
   describe('label validation', () => {
@@ -32,12 +32,26 @@ describe('EnvTreeProvider', () => {
     expect(listener).toHaveBeenCalledTimes(1);
   });
 
+  it('fires onDidChangeTreeData with the node refreshNode() is given', () => {
+    const provider = new EnvTreeProvider();
+    provider.setData(entries);
+    const listener = vi.fn();
+    provider.onDidChangeTreeData(listener);
+
+    const appNode = provider.getChildren()[0];
+    provider.refreshNode(appNode);
+    expect(listener).toHaveBeenCalledWith(appNode);
+  });
+
   it('returns children for folder elements', () => {
     const provider = new EnvTreeProvider();
     provider.setData(entries);
 
     const appNode = provider.getChildren()[0];
-    const children = provider.getChildren(appNode).map((child) => child.label).sort();
+    const children = provider
+      .getChildren(appNode)
+      .map((child) => child.label)
+      .sort();
 
     expect(children).toEqual(['Database', 'Redis']);
   });
@@ -54,11 +68,7 @@ describe('EnvTreeProvider', () => {
     const provider = new EnvTreeProvider();
 
     provider.setData(entries);
-    expect(commands.executeCommand).toHaveBeenCalledWith(
-      'setContext',
-      'azureEnv.configured',
-      true
-    );
+    expect(commands.executeCommand).toHaveBeenCalledWith('setContext', 'azureEnv.configured', true);
 
     provider.clear();
     expect(commands.executeCommand).toHaveBeenCalledWith(
@@ -78,6 +88,7 @@ describe('EnvTreeProvider', () => {
     expect(appItem).toBeInstanceOf(TreeItem);
     expect(appItem.label).toBe('App');
     expect(appItem.collapsibleState).toBe(TreeItemCollapsibleState.Collapsed);
+    expect(appItem.contextValue).toBe('folder');
 
     const dbNode = provider.getChildren(appNode).find((child) => child.label === 'Database');
     if (!dbNode) {
@@ -93,9 +104,7 @@ describe('EnvTreeProvider', () => {
     expect(hostItem).toBeInstanceOf(EnvTreeItem);
     expect(hostItem.label).toBe('Host');
 
-    const passwordNode = provider
-      .getChildren(dbNode)
-      .find((child) => child.label === 'Password');
+    const passwordNode = provider.getChildren(dbNode).find((child) => child.label === 'Password');
     if (!passwordNode) {
       throw new Error('Expected Password node');
     }
@@ -127,4 +136,100 @@ describe('EnvTreeProvider', () => {
     expect((dbItem as EnvTreeItem).isSecret).toBe(true);
     expect(dbItem.collapsibleState).toBe(TreeItemCollapsibleState.Collapsed);
   });
+
+  it('groups entries under a node per store when several stores are given', () => {
+    const provider = new EnvTreeProvider();
+    provider.setData(
+      [
+        { key: 'Shared/Host', value: 'shared', isSecret: false, store: 'platform' },
+        { key: 'Team/Host', value: 'team', isSecret: false, store: 'team' },
+      ],
+      ['platform', 'team']
+    );
+
+    const roots = provider.getChildren();
+    expect(roots.map((node) => node.label)).toEqual(['platform', 'team']);
+    expect(provider.getChildren(roots[1])[0].label).toBe('Team');
+    expect(provider.getChildren(roots[1])[0].store).toBe('team');
+
+    const storeItem = provider.getTreeItem(roots[0]);
+    expect(storeItem.contextValue).toBe('store');
+    expect(storeItem.collapsibleState).toBe(TreeItemCollapsibleState.Expanded);
+  });
+
+  it('keeps a flat hierarchy for a single store', () => {
+    const provider = new EnvTreeProvider();
+    provider.setData(entries, ['platform']);
+
+    expect(provider.getChildren()[0].label).toBe('App');
+  });
+
+  it('lists naming warnings before the keys', () => {
+    const provider = new EnvTreeProvider();
+    provider.setData(
+      entries,
+      [],
+      [
+        {
+          kind: 'collision',
+          envVar: 'APP_DB-HOST',
+          sources: [
+            { key: 'App/Db-Host', store: 'store' },
+            { key: 'app/db-host', store: 'store' },
+          ],
+          message: 'Keys App/Db-Host, app/db-host all map to APP_DB-HOST; using app/db-host',
+        },
+      ]
+    );
+
+    const roots = provider.getChildren();
+    expect(roots[0].label).toBe('APP_DB-HOST');
+    expect(roots[1].label).toBe('App');
+
+    const warningItem = provider.getTreeItem(roots[0]);
+    expect(warningItem.contextValue).toBe('warning');
+    expect(warningItem.description).toBe('2 keys collide');
+    expect(warningItem.tooltip).toContain('store: App/Db-Host');
+    expect(warningItem.tooltip).toContain('store: app/db-host');
+  });
+
+  it('lists missing keys after the warnings', () => {
+    const provider = new EnvTreeProvider();
+    provider.setData(entries, [], [], [{ key: 'App/Gone', store: 'store', labels: ['dev'] }]);
+
+    const roots = provider.getChildren();
+    expect(roots[0].label).toBe('App/Gone');
+    expect(roots[1].label).toBe('App');
+
+    const missingItem = provider.getTreeItem(roots[0]);
+    expect(missingItem.contextValue).toBe('missingKey');
+    expect(missingItem.description).toBe('missing from store');
+  });
+
+  it('lists failed keys first and marks those with a next step as fixable', () => {
+    const provider = new EnvTreeProvider();
+    provider.setData(
+      entries,
+      [],
+      [],
+      [{ key: 'App/Gone', store: 'store', labels: ['dev'] }],
+      [
+        {
+          key: 'App/Secret',
+          message: 'Access denied',
+          remediation: { action: 'signIn', title: 'Sign In Again', detail: 'Sign in again.' },
+        },
+        { key: 'App/Other', message: 'Failed' },
+      ]
+    );
+
+    const roots = provider.getChildren();
+    expect(roots.map((node) => node.label).slice(0, 3)).toEqual([
+      'App/Secret',
+      'App/Other',
+      'App/Gone',
+    ]);
+    expect(provider.getTreeItem(roots[0]).contextValue).toBe('fixableError');
+    expect(provider.getTreeItem(roots[1]).contextValue).toBe('error');
+  });
 });
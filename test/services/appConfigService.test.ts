@@ -1,24 +1,54 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AppConfigService } from '../../src/services/appConfigService';
-
-const { mockListConfigurationSettings, mockGetConfigurationSetting, MockAppConfigurationClient } =
-  vi.hoisted(() => {
-    const mocks = {
-      mockListConfigurationSettings: vi.fn(),
-      mockGetConfigurationSetting: vi.fn(),
-    };
-
-    class MockAppConfigurationClient {
-      listConfigurationSettings(...args: unknown[]) {
-        return mocks.mockListConfigurationSettings(...args);
-      }
-      getConfigurationSetting(...args: unknown[]) {
-        return mocks.mockGetConfigurationSetting(...args);
-      }
+import {
+  AppConfigService,
+  buildKeyFilter,
+  buildLabelFilter,
+  buildPrefixFilter,
+} from '../../src/services/appConfigService';
+import { RetryScheduler } from '../../src/utils/retryScheduler';
+import { AuthenticationError } from '../../src/errors';
+
+const {
+  mockClientConstructor,
+  mockListConfigurationSettings,
+  mockGetConfigurationSetting,
+  mockSetConfigurationSetting,
+  mockAddConfigurationSetting,
+  mockDeleteConfigurationSetting,
+  MockAppConfigurationClient,
+} = vi.hoisted(() => {
+  const mocks = {
+    mockClientConstructor: vi.fn(),
+    mockListConfigurationSettings: vi.fn(),
+    mockGetConfigurationSetting: vi.fn(),
+    mockSetConfigurationSetting: vi.fn(),
+    mockAddConfigurationSetting: vi.fn(),
+    mockDeleteConfigurationSetting: vi.fn(),
+  };
+
+  class MockAppConfigurationClient {
+    constructor(...args: unknown[]) {
+      mocks.mockClientConstructor(...args);
     }
+    listConfigurationSettings(...args: unknown[]) {
+      return mocks.mockListConfigurationSettings(...args);
+    }
+    getConfigurationSetting(...args: unknown[]) {
+      return mocks.mockGetConfigurationSetting(...args);
+    }
+    setConfigurationSetting(...args: unknown[]) {
+      return mocks.mockSetConfigurationSetting(...args);
+    }
+    addConfigurationSetting(...args: unknown[]) {
+      return mocks.mockAddConfigurationSetting(...args);
+    }
+    deleteConfigurationSetting(...args: unknown[]) {
+      return mocks.mockDeleteConfigurationSetting(...args);
+    }
+  }
 
-    return { ...mocks, MockAppConfigurationClient };
-  });
+  return { ...mocks, MockAppConfigurationClient };
+});
 
 vi.mock('@azure/app-configuration', () => ({
   AppConfigurationClient: MockAppConfigurationClient,
@@ -33,6 +63,9 @@ describe('AppConfigService', () => {
     mockCredential = {};
     mockListConfigurationSettings.mockReset();
     mockGetConfigurationSetting.mockReset();
+    mockSetConfigurationSetting.mockReset();
+    mockAddConfigurationSetting.mockReset();
+    mockDeleteConfigurationSetting.mockReset();
     service = new AppConfigService('https://test.azconfig.io', mockCredential);
   });
 
@@ -111,6 +144,172 @@ describe('AppConfigService', () => {
     });
   });
 
+  describe('setSetting', () => {
+    it('writes the setting with its label', async () => {
+      mockSetConfigurationSetting.mockResolvedValue({ key: 'App/New', value: 'v', label: 'dev' });
+
+      await service.setSetting('App/New', 'v', 'dev');
+
+      expect(mockSetConfigurationSetting).toHaveBeenCalledWith({
+        key: 'App/New',
+        value: 'v',
+        label: 'dev',
+        contentType: undefined,
+      });
+    });
+
+    it('writes to the null label when label is empty', async () => {
+      mockSetConfigurationSetting.mockResolvedValue({ key: 'App/New', value: 'v' });
+
+      await service.setSetting('App/New', 'v', '');
+
+      expect(mockSetConfigurationSetting.mock.calls[0][0].label).toBeUndefined();
+    });
+
+    it('copies tags when given', async () => {
+      mockSetConfigurationSetting.mockResolvedValue({ key: 'App/New', value: 'v' });
+
+      await service.setSetting('App/New', 'v', 'dev', { tags: { owner: 'team' } });
+
+      expect(mockSetConfigurationSetting.mock.calls[0][0].tags).toEqual({ owner: 'team' });
+    });
+
+    it('writes only if unchanged when given an etag', async () => {
+      mockSetConfigurationSetting.mockResolvedValue({ key: 'App/Host', value: 'v', etag: 'e2' });
+
+      const result = await service.setSetting('App/Host', 'v', 'dev', { etag: 'e1' });
+
+      expect(mockSetConfigurationSetting).toHaveBeenCalledWith(
+        { key: 'App/Host', value: 'v', label: 'dev', contentType: undefined, etag: 'e1' },
+        { onlyIfUnchanged: true }
+      );
+      expect(result.etag).toBe('e2');
+    });
+
+    it('reports a changed setting as a conflict', async () => {
+      mockSetConfigurationSetting.mockRejectedValue(
+        Object.assign(new Error('Precondition Failed'), { statusCode: 412 })
+      );
+
+      await expect(
+        service.setSetting('App/Host', 'v', 'dev', { etag: 'e1' })
+      ).rejects.toMatchObject({ code: 'SETTING_CONFLICT', key: 'App/Host', label: 'dev' });
+    });
+
+    it('creates the setting only if it is new', async () => {
+      mockAddConfigurationSetting.mockResolvedValue({ key: 'App/New', value: 'v', label: 'dev' });
+
+      await service.setSetting('App/New', 'v', 'dev', { onlyIfNew: true });
+
+      expect(mockAddConfigurationSetting).toHaveBeenCalledWith({
+        key: 'App/New',
+        value: 'v',
+        label: 'dev',
+        contentType: undefined,
+      });
+      expect(mockSetConfigurationSetting).not.toHaveBeenCalled();
+    });
+
+    it('reports an existing setting when creating it', async () => {
+      mockAddConfigurationSetting.mockRejectedValue(
+        Object.assign(new Error('Precondition Failed'), { statusCode: 412 })
+      );
+
+      await expect(
+        service.setSetting('App/Host', 'v', 'dev', { onlyIfNew: true })
+      ).rejects.toMatchObject({ code: 'SETTING_EXISTS', key: 'App/Host', label: 'dev' });
+    });
+
+    it('wraps failures in AppConfigError', async () => {
+      mockSetConfigurationSetting.mockRejectedValue(
+        Object.assign(new Error('Forbidden'), { statusCode: 403 })
+      );
+
+      await expect(service.setSetting('App/New', 'v', 'dev')).rejects.toMatchObject({
+        code: 'APP_CONFIG_ERROR',
+        key: 'App/New',
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('deleteSetting', () => {
+    it('deletes the setting with its label', async () => {
+      mockDeleteConfigurationSetting.mockResolvedValue({});
+
+      await service.deleteSetting('App/Old', '');
+
+      expect(mockDeleteConfigurationSetting).toHaveBeenCalledWith({
+        key: 'App/Old',
+        label: undefined,
+      });
+    });
+
+    it('wraps failures in AppConfigError', async () => {
+      mockDeleteConfigurationSetting.mockRejectedValue(
+        Object.assign(new Error('Forbidden'), { statusCode: 403 })
+      );
+
+      await expect(service.deleteSetting('App/Old', 'dev')).rejects.toMatchObject({
+        code: 'APP_CONFIG_ERROR',
+        key: 'App/Old',
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('retries', () => {
+    it('leaves retries to the scheduler', () => {
+      expect(mockClientConstructor).toHaveBeenCalledWith(
+        'https://test.azconfig.io',
+        mockCredential,
+        { retryOptions: { maxRetries: 0 } }
+      );
+    });
+
+    it('retries rate limited requests through the scheduler', async () => {
+      // Sleeps advance a fake clock so the rate limit pause ends right away
+      let now = 0;
+      const sleep = vi.fn(async (ms: number) => {
+        now += ms;
+      });
+      service = new AppConfigService('https://test.azconfig.io', mockCredential, {
+        scheduler: new RetryScheduler({ sleep, now: () => now }),
+      });
+      mockGetConfigurationSetting
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Too many requests'), {
+            statusCode: 429,
+            response: { headers: { 'retry-after': '2' } },
+          })
+        )
+        .mockResolvedValue({ key: 'App/Setting1', value: 'value1' });
+
+      const result = await service.getSetting('App/Setting1', 'dev');
+
+      expect(result.value).toBe('value1');
+      expect(mockGetConfigurationSetting).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('does not retry requests that fail permanently', async () => {
+      mockGetConfigurationSetting.mockRejectedValue(
+        Object.assign(new Error('Forbidden'), { statusCode: 403 })
+      );
+
+      await expect(service.getSetting('App/Setting1', 'dev')).rejects.toThrow('Forbidden');
+      expect(mockGetConfigurationSetting).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes a lost sign-in through without retrying', async () => {
+      const expired = new AuthenticationError('No session', 'session_expired');
+      mockGetConfigurationSetting.mockRejectedValue(expired);
+
+      await expect(service.getSetting('App/Setting1', 'dev')).rejects.toBe(expired);
+      expect(mockGetConfigurationSetting).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('listLabels', () => {
     it('should return unique labels from settings', async () => {
       const mockSettings = [
@@ -193,3 +392,23 @@ describe('AppConfigService', () => {
     });
   });
 });
+
+describe('buildKeyFilter', () => {
+  it('joins keys and escapes special characters', () => {
+    expect(buildKeyFilter(['App/Host', 'App/a,b', 'App/c*', 'App/d\\e'])).toBe(
+      'App/Host,App/a\\,b,App/c\\*,App/d\\\\e'
+    );
+  });
+});
+
+describe('buildPrefixFilter', () => {
+  it('matches keys under the escaped prefix', () => {
+    expect(buildPrefixFilter('App/a,b*/')).toBe('App/a\\,b\\*/*');
+  });
+});
+
+describe('buildLabelFilter', () => {
+  it('selects the null label for empty labels', () => {
+    expect(buildLabelFilter(['dev', ''])).toBe('dev,\0');
+  });
+});
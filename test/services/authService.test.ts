@@ -17,10 +17,17 @@ const { mockProvider, MockVSCodeAzureSubscriptionProvider } = vi.hoisted(() => {
   return { mockProvider, MockVSCodeAzureSubscriptionProvider };
 });
 
+const { mockGetSessionFromVSCode } = vi.hoisted(() => ({ mockGetSessionFromVSCode: vi.fn() }));
+
 vi.mock('@microsoft/vscode-azext-azureauth', () => ({
   VSCodeAzureSubscriptionProvider: MockVSCodeAzureSubscriptionProvider,
+  getSessionFromVSCode: mockGetSessionFromVSCode,
+  getUnauthenticatedTenants: vi.fn(),
 }));
 
+const WORK = { id: 'work', label: 'work@contoso.com' };
+const GUEST = { id: 'guest', label: 'guest@fabrikam.com' };
+
 describe('AuthService', () => {
   let service: AuthService;
 
@@ -62,6 +69,145 @@ describe('AuthService', () => {
     });
   });
 
+  describe('isSignedIn', () => {
+    it('reports the sign-in state without prompting', async () => {
+      mockProvider.isSignedIn.mockResolvedValue(false);
+
+      const result = await service.isSignedIn();
+
+      expect(result).toBe(false);
+      expect(mockProvider.signIn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signIn', () => {
+    it('signs in to the given tenant even when already signed in', async () => {
+      mockProvider.isSignedIn.mockResolvedValue(true);
+      mockProvider.signIn.mockResolvedValue(true);
+
+      const result = await service.signIn('tenant-1');
+
+      expect(result).toBe(true);
+      expect(mockProvider.signIn).toHaveBeenCalledWith('tenant-1', undefined);
+    });
+
+    it('signs in with the given account', async () => {
+      mockProvider.signIn.mockResolvedValue(true);
+
+      await service.signIn('tenant-1', WORK);
+
+      expect(mockProvider.signIn).toHaveBeenCalledWith('tenant-1', WORK);
+    });
+  });
+
+  describe('findSubscription', () => {
+    let state: Map<string, unknown>;
+
+    beforeEach(() => {
+      state = new Map();
+      service = new AuthService({
+        get: (key: string) => state.get(key),
+        update: async (key: string, value: unknown) => {
+          state.set(key, value);
+        },
+      });
+      mockProvider.getSubscriptions.mockResolvedValue([
+        { subscriptionId: 'sub-1', tenantId: 'tenant-1', account: WORK },
+        { subscriptionId: 'sub-1', tenantId: 'tenant-1', account: GUEST },
+        { subscriptionId: 'sub-2', tenantId: 'tenant-2', account: GUEST },
+      ]);
+    });
+
+    it('returns the subscription as seen by the saved account', async () => {
+      await service.saveAccount(GUEST);
+
+      const result = await service.findSubscription('sub-1', 'tenant-1');
+
+      expect(result.account).toBe(GUEST);
+    });
+
+    it('does not fall back to another account', async () => {
+      await service.saveAccount(WORK);
+      mockProvider.isSignedIn.mockResolvedValue(true);
+
+      await expect(service.findSubscription('sub-2', 'tenant-2')).rejects.toMatchObject({
+        reason: 'account_mismatch',
+        message: expect.stringContaining('work@contoso.com used during connect cannot access'),
+      });
+    });
+
+    it('reports a saved account that is no longer signed in', async () => {
+      await service.saveAccount({ id: 'gone', label: 'gone@contoso.com' });
+      mockProvider.isSignedIn.mockResolvedValue(false);
+
+      await expect(service.findSubscription('sub-1', 'tenant-1')).rejects.toMatchObject({
+        reason: 'account_mismatch',
+        message: expect.stringContaining('no longer signed in'),
+      });
+      expect(mockProvider.isSignedIn).toHaveBeenCalledWith(undefined, {
+        id: 'gone',
+        label: 'gone@contoso.com',
+      });
+    });
+
+    it('saves the only account with access when none was saved', async () => {
+      const result = await service.findSubscription('sub-2', 'tenant-2');
+
+      expect(result.account).toBe(GUEST);
+      expect(service.getSavedAccount()).toEqual(GUEST);
+    });
+
+    it('asks to connect again when several accounts have access and none was saved', async () => {
+      await expect(service.findSubscription('sub-1', 'tenant-1')).rejects.toMatchObject({
+        reason: 'account_mismatch',
+        message: expect.stringContaining('Several signed-in accounts'),
+      });
+      expect(service.getSavedAccount()).toBeUndefined();
+    });
+  });
+
+  describe('getAccountAuthentication', () => {
+    it('gets sessions for the signed-in account without prompting', async () => {
+      mockGetSessionFromVSCode.mockResolvedValue({ accessToken: 'token' });
+
+      const session = await service
+        .getAccountAuthentication('tenant-1')
+        .getSessionWithScopes(['https://appconfig.azure.com/.default']);
+
+      expect(session).toEqual({ accessToken: 'token' });
+      expect(mockGetSessionFromVSCode).toHaveBeenCalledWith(
+        ['https://appconfig.azure.com/.default'],
+        'tenant-1',
+        { silent: true, account: undefined }
+      );
+    });
+
+    it('gets sessions for the given account', async () => {
+      mockGetSessionFromVSCode.mockResolvedValue({ accessToken: 'token' });
+
+      await service.getAccountAuthentication(undefined, GUEST).getSession();
+
+      expect(mockGetSessionFromVSCode).toHaveBeenCalledWith([], undefined, {
+        silent: true,
+        account: GUEST,
+      });
+    });
+  });
+
+  describe('getDefaultAccount', () => {
+    it('returns the account of the session VS Code picks', async () => {
+      mockGetSessionFromVSCode.mockResolvedValue({ accessToken: 'token', account: WORK });
+
+      await expect(service.getDefaultAccount()).resolves.toBe(WORK);
+    });
+
+    it('returns undefined when no account is signed in', async () => {
+      mockGetSessionFromVSCode.mockResolvedValue(undefined);
+
+      await expect(service.getDefaultAccount()).resolves.toBeUndefined();
+    });
+  });
+
   describe('getSubscriptions', () => {
     it('returns list of subscriptions', async () => {
       const mockSubscriptions = [
@@ -1,9 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { KeyVaultService } from '../../src/services/keyVaultService';
+import { TtlCache } from '../../src/utils/ttlCache';
+import { AuthenticationError } from '../../src/errors';
 
-const { mockGetSecret, secretClientInstances, MockSecretClient } = vi.hoisted(() => {
+const { mockGetSecret, mockSetSecret, secretClientInstances, MockSecretClient } = vi.hoisted(() => {
   const state = {
     mockGetSecret: vi.fn(),
+    mockSetSecret: vi.fn(),
     secretClientInstances: { count: 0 },
   };
 
@@ -14,6 +17,9 @@ const { mockGetSecret, secretClientInstances, MockSecretClient } = vi.hoisted(()
     getSecret(...args: unknown[]) {
       return state.mockGetSecret(...args);
     }
+    setSecret(...args: unknown[]) {
+      return state.mockSetSecret(...args);
+    }
   }
 
   return { ...state, MockSecretClient };
@@ -31,6 +37,7 @@ describe('KeyVaultService', () => {
     vi.clearAllMocks();
     mockCredential = {};
     mockGetSecret.mockReset().mockResolvedValue({ value: 'secret-value' });
+    mockSetSecret.mockReset().mockResolvedValue({});
     secretClientInstances.count = 0;
     service = new KeyVaultService(mockCredential);
   });
@@ -77,6 +84,118 @@ describe('KeyVaultService', () => {
     });
   });
 
+  describe('deduplication and caching', () => {
+    it('resolves each distinct secret once per service', async () => {
+      const results = await Promise.all([
+        service.resolveSecret('https://myvault.vault.azure.net/secrets/MySecret'),
+        service.resolveSecret('https://MyVault.vault.azure.net/secrets/mysecret'),
+        service.resolveSecret('https://myvault.vault.azure.net/secrets/MySecret'),
+      ]);
+
+      expect(results).toEqual(['secret-value', 'secret-value', 'secret-value']);
+      expect(mockGetSecret).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves different versions separately', async () => {
+      await service.resolveSecret('https://myvault.vault.azure.net/secrets/MySecret/v1');
+      await service.resolveSecret('https://myvault.vault.azure.net/secrets/MySecret/v2');
+
+      expect(mockGetSecret).toHaveBeenCalledTimes(2);
+    });
+
+    it('serves secrets from a shared cache across services', async () => {
+      const cache = new TtlCache<string>(60_000);
+      const uri = 'https://myvault.vault.azure.net/secrets/MySecret';
+
+      const first = await new KeyVaultService(mockCredential, { cache }).resolveSecretDetails(uri);
+      const second = await new KeyVaultService(mockCredential, { cache }).resolveSecretDetails(uri);
+
+      expect(first).toEqual({ value: 'secret-value', fromCache: false });
+      expect(second).toEqual({ value: 'secret-value', fromCache: true });
+      expect(mockGetSecret).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache failures', async () => {
+      const cache = new TtlCache<string>(60_000);
+      const uri = 'https://myvault.vault.azure.net/secrets/MySecret';
+      mockGetSecret.mockRejectedValueOnce(new Error('Access denied'));
+
+      await expect(
+        new KeyVaultService(mockCredential, { cache }).resolveSecret(uri)
+      ).rejects.toThrow();
+      const value = await new KeyVaultService(mockCredential, { cache }).resolveSecret(uri);
+
+      expect(value).toBe('secret-value');
+    });
+
+    it('passes a lost sign-in through unwrapped', async () => {
+      const expired = new AuthenticationError('No session', 'session_expired');
+      mockGetSecret.mockRejectedValueOnce(expired);
+
+      await expect(
+        service.resolveSecret('https://myvault.vault.azure.net/secrets/MySecret')
+      ).rejects.toBe(expired);
+    });
+  });
+
+  describe('setSecret', () => {
+    it('creates the secret and returns its versionless URI', async () => {
+      const uri = await service.setSecret('https://myvault.vault.azure.net/', 'Db-Password', 'pw');
+
+      expect(mockSetSecret).toHaveBeenCalledWith('Db-Password', 'pw');
+      expect(uri).toBe('https://myvault.vault.azure.net/secrets/Db-Password');
+    });
+
+    it('drops the cached latest value of the secret', async () => {
+      const cache = new TtlCache<string>(60_000);
+      const uri = 'https://myvault.vault.azure.net/secrets/Db-Password';
+      const cachedService = new KeyVaultService(mockCredential, { cache });
+      await cachedService.resolveSecret(uri);
+
+      await cachedService.setSecret('https://myvault.vault.azure.net', 'Db-Password', 'new');
+      const resolved = await new KeyVaultService(mockCredential, { cache }).resolveSecretDetails(
+        uri
+      );
+
+      expect(resolved.fromCache).toBe(false);
+    });
+
+    it('wraps failures in KeyVaultError', async () => {
+      mockSetSecret.mockRejectedValue(Object.assign(new Error('Forbidden'), { statusCode: 403 }));
+
+      await expect(
+        service.setSecret('https://myvault.vault.azure.net', 'Db-Password', 'pw')
+      ).rejects.toMatchObject({ code: 'KEY_VAULT_ERROR', statusCode: 403 });
+    });
+  });
+
+  describe('secretExists', () => {
+    it('returns true when the secret can be read', async () => {
+      await expect(
+        service.secretExists('https://myvault.vault.azure.net', 'Db-Password')
+      ).resolves.toBe(true);
+      expect(mockGetSecret).toHaveBeenCalledWith('Db-Password');
+    });
+
+    it('returns false when the vault has no such secret', async () => {
+      mockGetSecret.mockRejectedValue(
+        Object.assign(new Error('SecretNotFound'), { statusCode: 404 })
+      );
+
+      await expect(
+        service.secretExists('https://myvault.vault.azure.net', 'Db-Password')
+      ).resolves.toBe(false);
+    });
+
+    it('wraps other failures in KeyVaultError', async () => {
+      mockGetSecret.mockRejectedValue(Object.assign(new Error('Forbidden'), { statusCode: 403 }));
+
+      await expect(
+        service.secretExists('https://myvault.vault.azure.net', 'Db-Password')
+      ).rejects.toMatchObject({ code: 'KEY_VAULT_ERROR' });
+    });
+  });
+
   describe('resolveSecrets', () => {
     it('resolves multiple secrets in parallel', async () => {
       const uris = [
@@ -1,7 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ScopedCredential } from '../../src/services/scopedCredential';
+import { AuthenticationError } from '../../src/errors';
+import { getCloudEnvironment } from '../../src/models/cloud';
 import type { AzureSubscription } from '@microsoft/vscode-azext-azureauth';
 
+const ACCOUNT = { id: 'test-account', label: 'test@example.com' };
+
+function jwt(claims: Record<string, unknown>): string {
+  return `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+}
+
 describe('ScopedCredential', () => {
   let mockSubscription: AzureSubscription;
   let mockGetSessionWithScopes: ReturnType<typeof vi.fn>;
@@ -56,16 +64,28 @@ describe('ScopedCredential', () => {
       expect(mockGetSessionWithScopes).toHaveBeenCalledWith(['https://vault.azure.net/.default']);
     });
 
-    it('returns null when no session is available', async () => {
+    it('throws an AuthenticationError when no session is available', async () => {
       mockGetSessionWithScopes.mockResolvedValue(undefined);
 
       const credential = new ScopedCredential(mockSubscription);
-      const result = await credential.getToken(['https://azconfig.io/.default']);
+      const error = await credential.getToken(['https://azconfig.io/.default']).catch((e) => e);
 
-      expect(result).toBeNull();
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.reason).toBe('session_expired');
     });
 
-    it('returns token with expiration timestamp', async () => {
+    it('throws an AuthenticationError when getting the session fails', async () => {
+      mockGetSessionWithScopes.mockRejectedValue(new Error('Session revoked'));
+
+      const credential = new ScopedCredential(mockSubscription);
+
+      await expect(credential.getToken('https://azconfig.io/.default')).rejects.toMatchObject({
+        reason: 'session_expired',
+        cause: { message: 'Session revoked' },
+      });
+    });
+
+    it('assumes one hour when the token is not a JWT', async () => {
       const mockSession = {
         accessToken: 'test-token-789',
         id: 'session-id',
@@ -101,5 +121,103 @@ describe('ScopedCredential', () => {
 
       expect(mockGetSessionWithScopes).toHaveBeenCalledWith(scopes);
     });
+
+    it('requests the scopes of the configured cloud', async () => {
+      mockGetSessionWithScopes.mockResolvedValue({
+        accessToken: 'gov-token',
+        account: { id: 'test-account', label: 'test@example.com' },
+      });
+      const cloud = getCloudEnvironment({
+        environment: 'AzureUSGovernment',
+        resourceManagerEndpoint: '',
+        appConfigurationSuffix: '',
+        keyVaultSuffix: '',
+        appConfigurationAudience: '',
+        activeDirectoryEndpoint: '',
+      });
+
+      const credential = new ScopedCredential(mockSubscription, cloud);
+      await credential.getToken(['https://vault.azure.net/.default', 'custom-scope']);
+
+      expect(mockGetSessionWithScopes).toHaveBeenCalledWith([
+        'https://vault.usgovcloudapi.net/.default',
+        'custom-scope',
+      ]);
+    });
+  });
+
+  describe('getIdentity', () => {
+    it('names the account of the last session', async () => {
+      mockGetSessionWithScopes.mockResolvedValue({
+        accessToken: 'token',
+        account: { id: 'test-account', label: 'test@example.com' },
+      });
+      const credential = new ScopedCredential(mockSubscription);
+
+      expect(credential.getIdentity()).toBe('VS Code account');
+      await credential.getToken('https://azconfig.io/.default');
+      expect(credential.getIdentity()).toBe('test@example.com (VS Code account)');
+    });
+  });
+
+  describe('token cache', () => {
+    const expiresAt = new Date('2026-01-01T12:00:00Z').getTime();
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(expiresAt - 60 * 60 * 1000);
+      mockGetSessionWithScopes.mockImplementation(async () => ({
+        accessToken: jwt({ exp: expiresAt / 1000 }),
+        account: ACCOUNT,
+      }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('uses the expiry in the token', async () => {
+      const credential = new ScopedCredential(mockSubscription);
+
+      const token = await credential.getToken('https://azconfig.io/.default');
+
+      expect(token.expiresOnTimestamp).toBe(expiresAt);
+      expect(token.refreshAfterTimestamp).toBe(expiresAt - 5 * 60 * 1000);
+    });
+
+    it('reuses the token for the same scopes in any order', async () => {
+      const credential = new ScopedCredential(mockSubscription);
+
+      await Promise.all([
+        credential.getToken(['scope1', 'scope2']),
+        credential.getToken(['scope2', 'scope1']),
+      ]);
+      await credential.getToken(['scope1', 'scope2']);
+      await credential.getToken('scope3');
+
+      expect(mockGetSessionWithScopes).toHaveBeenCalledTimes(2);
+    });
+
+    it('renews the token shortly before it expires', async () => {
+      const credential = new ScopedCredential(mockSubscription);
+      await credential.getToken('scope1');
+
+      vi.setSystemTime(expiresAt - 4 * 60 * 1000);
+      await credential.getToken('scope1');
+
+      expect(mockGetSessionWithScopes).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps a token that has not expired when renewing it fails', async () => {
+      const credential = new ScopedCredential(mockSubscription);
+      const token = await credential.getToken('scope1');
+      mockGetSessionWithScopes.mockResolvedValue(undefined);
+
+      vi.setSystemTime(expiresAt - 60 * 1000);
+      await expect(credential.getToken('scope1')).resolves.toBe(token);
+
+      vi.setSystemTime(expiresAt + 1000);
+      await expect(credential.getToken('scope1')).rejects.toBeInstanceOf(AuthenticationError);
+    });
   });
 });
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSourceCredential, SourceCredential } from '../../src/services/sourceCredential';
+import { AZURE_PUBLIC_CLOUD, getCloudEnvironment } from '../../src/models/cloud';
+import { AuthenticationError } from '../../src/errors';
+
+const { constructed } = vi.hoisted(() => ({
+  constructed: [] as { type: string; options: Record<string, unknown> }[],
+}));
+
+vi.mock('@azure/identity', () => {
+  const credential = (type: string) =>
+    class {
+      constructor(options: Record<string, unknown>) {
+        constructed.push({ type, options });
+      }
+    };
+  return {
+    AzureCliCredential: credential('AzureCliCredential'),
+    EnvironmentCredential: credential('EnvironmentCredential'),
+    WorkloadIdentityCredential: credential('WorkloadIdentityCredential'),
+    DeviceCodeCredential: credential('DeviceCodeCredential'),
+  };
+});
+
+function jwt(claims: Record<string, unknown>): string {
+  return `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+}
+
+const US_GOVERNMENT = getCloudEnvironment({
+  environment: 'AzureUSGovernment',
+  resourceManagerEndpoint: '',
+  appConfigurationSuffix: '',
+  keyVaultSuffix: '',
+  appConfigurationAudience: '',
+  activeDirectoryEndpoint: '',
+});
+
+describe('SourceCredential', () => {
+  let mockGetToken: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockGetToken = vi.fn().mockResolvedValue({
+      token: jwt({ upn: 'me@contoso.com' }),
+      expiresOnTimestamp: 0,
+    });
+  });
+
+  it('requests the scopes of the configured cloud', async () => {
+    const credential = new SourceCredential({ getToken: mockGetToken }, 'azureCli', US_GOVERNMENT);
+
+    await credential.getToken('https://vault.azure.net/.default');
+
+    expect(mockGetToken).toHaveBeenCalledWith(
+      ['https://vault.usgovcloudapi.net/.default'],
+      undefined
+    );
+  });
+
+  it('names the identity once a token is issued', async () => {
+    const credential = new SourceCredential(
+      { getToken: mockGetToken },
+      'azureCli',
+      AZURE_PUBLIC_CLOUD
+    );
+
+    expect(credential.getIdentity()).toBe('Azure CLI');
+    await credential.getToken('https://appconfig.azure.com/.default');
+    expect(credential.getIdentity()).toBe('me@contoso.com (Azure CLI)');
+  });
+
+  it('names a service principal by its application ID', async () => {
+    mockGetToken.mockResolvedValue({ token: jwt({ appid: 'app-1' }), expiresOnTimestamp: 0 });
+    const credential = new SourceCredential(
+      { getToken: mockGetToken },
+      'environment',
+      AZURE_PUBLIC_CLOUD
+    );
+
+    await credential.getToken('https://appconfig.azure.com/.default');
+
+    expect(credential.getIdentity()).toBe('app app-1 (environment variables)');
+  });
+
+  it('reports a signed-out source as not signed in', async () => {
+    mockGetToken.mockRejectedValue(
+      Object.assign(new Error('Please run az login'), { name: 'CredentialUnavailableError' })
+    );
+    const credential = new SourceCredential(
+      { getToken: mockGetToken },
+      'azureCli',
+      AZURE_PUBLIC_CLOUD
+    );
+
+    const error = await credential.getToken('https://vault.azure.net/.default').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({ reason: 'not_signed_in' });
+    expect(error.message).toContain('Please run az login');
+  });
+
+  it('reports a sign-in that must be renewed as expired', async () => {
+    mockGetToken.mockRejectedValue(
+      Object.assign(new Error('Interaction required'), { name: 'AuthenticationRequiredError' })
+    );
+    const credential = new SourceCredential(
+      { getToken: mockGetToken },
+      'deviceCode',
+      AZURE_PUBLIC_CLOUD
+    );
+
+    await expect(credential.getToken('https://vault.azure.net/.default')).rejects.toMatchObject({
+      reason: 'session_expired',
+    });
+  });
+
+  it('passes other errors on unchanged', async () => {
+    const failure = new Error('Network down');
+    mockGetToken.mockRejectedValue(failure);
+    const credential = new SourceCredential(
+      { getToken: mockGetToken },
+      'environment',
+      AZURE_PUBLIC_CLOUD
+    );
+
+    await expect(credential.getToken('https://vault.azure.net/.default')).rejects.toBe(failure);
+  });
+});
+
+describe('createSourceCredential', () => {
+  const onDeviceCode = vi.fn();
+
+  beforeEach(() => {
+    constructed.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the Azure CLI login with the saved tenant', () => {
+    createSourceCredential('azureCli', {
+      cloud: AZURE_PUBLIC_CLOUD,
+      tenantId: 'tenant-1',
+      onDeviceCode,
+    });
+
+    expect(constructed).toEqual([
+      { type: 'AzureCliCredential', options: { tenantId: 'tenant-1' } },
+    ]);
+  });
+
+  it('uses a service principal from the environment', () => {
+    vi.stubEnv('AZURE_FEDERATED_TOKEN_FILE', '');
+
+    createSourceCredential('environment', { cloud: US_GOVERNMENT, onDeviceCode });
+
+    expect(constructed).toEqual([
+      {
+        type: 'EnvironmentCredential',
+        options: { authorityHost: 'https://login.microsoftonline.us' },
+      },
+    ]);
+  });
+
+  it('uses a workload identity when a federated token file is set', () => {
+    vi.stubEnv('AZURE_FEDERATED_TOKEN_FILE', '/var/run/token');
+
+    createSourceCredential('environment', { cloud: AZURE_PUBLIC_CLOUD, onDeviceCode });
+
+    expect(constructed[0].type).toBe('WorkloadIdentityCredential');
+  });
+
+  it('signs in with a device code for any organization by default', () => {
+    createSourceCredential('deviceCode', { cloud: AZURE_PUBLIC_CLOUD, onDeviceCode });
+
+    expect(constructed).toEqual([
+      {
+        type: 'DeviceCodeCredential',
+        options: {
+          tenantId: 'organizations',
+          authorityHost: 'https://login.microsoftonline.com',
+          userPromptCallback: onDeviceCode,
+        },
+      },
+    ]);
+  });
+});
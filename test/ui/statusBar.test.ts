@@ -37,10 +37,7 @@ describe('StatusBarManager', () => {
 
   describe('initialization', () => {
     it('creates a status bar item', () => {
-      expect(mockCreateStatusBarItem).toHaveBeenCalledWith(
-        vscode.StatusBarAlignment.Left,
-        100
-      );
+      expect(mockCreateStatusBarItem).toHaveBeenCalledWith(vscode.StatusBarAlignment.Left, 100);
     });
 
     it('shows the status bar item', () => {
@@ -106,6 +103,11 @@ describe('StatusBarManager', () => {
       statusBarManager.setState('refreshing');
       expect(mockStatusBarItem.text).toContain('$(sync~spin)');
     });
+
+    it('shows refresh detail such as a rate limit wait', () => {
+      statusBarManager.setState('refreshing', 'waiting 5 s for rate limit');
+      expect(mockStatusBarItem.text).toBe('$(sync~spin) Azure Env: waiting 5 s for rate limit');
+    });
   });
 
   describe('tooltip', () => {
@@ -136,9 +138,9 @@ describe('StatusBarManager', () => {
       expect(mockStatusBarItem.command).toBe('azureEnv.connect');
     });
 
-    it('uses refresh command when connected', () => {
+    it('offers refresh and label switching when connected', () => {
       statusBarManager.setState('connected');
-      expect(mockStatusBarItem.command).toBe('azureEnv.refresh');
+      expect(mockStatusBarItem.command).toBe('azureEnv.showActions');
     });
 
     it('uses connect command when error', () => {
@@ -159,6 +161,56 @@ describe('StatusBarManager', () => {
     });
   });
 
+  describe('profile', () => {
+    it('shows the active profile next to the name', () => {
+      statusBarManager.setProfile('staging');
+      statusBarManager.setState('connected', 'mystore');
+      expect(mockStatusBarItem.text).toContain('Azure Env (staging): mystore');
+      expect(mockStatusBarItem.tooltip).toContain('Profile: staging');
+    });
+
+    it('hides the profile when cleared', () => {
+      statusBarManager.setProfile('staging');
+      statusBarManager.setProfile('');
+      expect(mockStatusBarItem.text).toBe('$(cloud) Azure Env');
+    });
+  });
+
+  describe('label', () => {
+    it('shows the active label after the state', () => {
+      statusBarManager.setLabel('dev');
+      statusBarManager.setState('connected', 'mystore');
+      expect(mockStatusBarItem.text).toBe('$(cloud-upload) Azure Env: mystore $(tag) dev');
+      expect(mockStatusBarItem.tooltip).toContain('Label: dev');
+    });
+
+    it('shows the null label', () => {
+      statusBarManager.setLabel('');
+      expect(mockStatusBarItem.text).toContain('$(tag) (no label)');
+    });
+
+    it('hides the label when cleared', () => {
+      statusBarManager.setLabel('dev');
+      statusBarManager.setLabel(undefined);
+      expect(mockStatusBarItem.text).toBe('$(cloud) Azure Env');
+    });
+  });
+
+  describe('identity', () => {
+    it('shows the identity in the tooltip only', () => {
+      statusBarManager.setIdentity('me@contoso.com (Azure CLI)');
+      statusBarManager.setState('connected', 'mystore');
+      expect(mockStatusBarItem.text).toBe('$(cloud-upload) Azure Env: mystore');
+      expect(mockStatusBarItem.tooltip).toContain('Identity: me@contoso.com (Azure CLI)');
+    });
+
+    it('hides the identity when cleared', () => {
+      statusBarManager.setIdentity('me@contoso.com (Azure CLI)');
+      statusBarManager.setIdentity(undefined);
+      expect(mockStatusBarItem.tooltip).not.toContain('Identity');
+    });
+  });
+
   describe('dispose', () => {
     it('disposes the status bar item', () => {
       statusBarManager.dispose();
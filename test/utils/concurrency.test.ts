@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { chunk, mapWithConcurrency } from '../../src/utils/concurrency';
+
+describe('chunk', () => {
+  it('splits items into chunks of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('returns no chunks for an empty list', () => {
+    expect(chunk([], 5)).toEqual([]);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('returns results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (delay) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('handles an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAccessToken, describeTokenIdentity } from '../../src/utils/jwt';
+
+function jwt(claims: Record<string, unknown>): string {
+  return `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+}
+
+describe('decodeAccessToken', () => {
+  it('reads the claims of a JWT', () => {
+    expect(decodeAccessToken(jwt({ upn: 'me@contoso.com', exp: 1700000000 }))).toEqual({
+      upn: 'me@contoso.com',
+      exp: 1700000000,
+    });
+  });
+
+  it('returns undefined for a token that is not a JWT', () => {
+    expect(decodeAccessToken('opaque-token')).toBeUndefined();
+    expect(decodeAccessToken('header.not-json.signature')).toBeUndefined();
+  });
+});
+
+describe('describeTokenIdentity', () => {
+  it('prefers the sign-in name of a user', () => {
+    expect(describeTokenIdentity({ preferred_username: 'me@contoso.com', appid: 'app-1' })).toBe(
+      'me@contoso.com'
+    );
+  });
+
+  it('falls back to the application ID', () => {
+    expect(describeTokenIdentity({ appid: 'app-1' })).toBe('app app-1');
+    expect(describeTokenIdentity({})).toBeUndefined();
+  });
+});
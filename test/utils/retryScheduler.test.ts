@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RetryScheduler } from '../../src/utils/retryScheduler';
+import { AppConfigError, RateLimitError, ValidationError } from '../../src/errors';
+
+describe('RetryScheduler', () => {
+  /** A scheduler whose sleeps advance a fake clock instead of waiting */
+  function createScheduler(options: { maxConcurrent?: number; maxRetries?: number } = {}) {
+    const clock = { now: 0 };
+    const sleeps: number[] = [];
+    const sleep = vi.fn(async (ms: number) => {
+      sleeps.push(ms);
+      clock.now += ms;
+    });
+    const scheduler = new RetryScheduler({
+      ...options,
+      baseDelayMs: 1000,
+      maxDelayMs: 5000,
+      sleep,
+      now: () => clock.now,
+    });
+    return { scheduler, sleeps };
+  }
+
+  function serverError(): AppConfigError {
+    return new AppConfigError(
+      'Server error',
+      'key',
+      '',
+      Object.assign(new Error('boom'), { statusCode: 503 })
+    );
+  }
+
+  it('returns the result of a successful task', async () => {
+    const { scheduler, sleeps } = createScheduler();
+    await expect(scheduler.run(async () => 'value')).resolves.toBe('value');
+    expect(sleeps).toEqual([]);
+  });
+
+  it('waits out retry-after before retrying a rate limited task', async () => {
+    const { scheduler, sleeps } = createScheduler();
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('AppConfig', 7000))
+      .mockResolvedValue('value');
+
+    await expect(scheduler.run(task)).resolves.toBe('value');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(sleeps).toEqual([7000]);
+  });
+
+  it('backs off exponentially up to the cap', async () => {
+    const { scheduler, sleeps } = createScheduler({ maxRetries: 4 });
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValue('value');
+
+    await expect(scheduler.run(task)).resolves.toBe('value');
+    expect(sleeps).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('rethrows the last error once retries are used up', async () => {
+    const { scheduler } = createScheduler({ maxRetries: 2 });
+    const error = serverError();
+    const task = vi.fn().mockRejectedValue(error);
+
+    await expect(scheduler.run(task)).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const { scheduler, sleeps } = createScheduler();
+    const task = vi.fn().mockRejectedValue(new ValidationError('input', 'Bad input'));
+
+    await expect(scheduler.run(task)).rejects.toThrow('Bad input');
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('pauses every task while rate limited', async () => {
+    const { scheduler, sleeps } = createScheduler({ maxConcurrent: 1 });
+    const first = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('AppConfig', 3000))
+      .mockResolvedValue('first');
+    const second = vi.fn().mockResolvedValue('second');
+
+    const results = await Promise.all([scheduler.run(first), scheduler.run(second)]);
+
+    expect(results).toEqual(['first', 'second']);
+    expect(sleeps).toEqual([3000]);
+  });
+
+  it('limits the number of tasks in flight', async () => {
+    const { scheduler } = createScheduler({ maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+    const task = async (): Promise<void> => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 5 }, () => scheduler.run(task)));
+
+    expect(peak).toBe(2);
+  });
+
+  it('stops waiting and rethrows the error when cancelled', async () => {
+    const listeners: (() => void)[] = [];
+    const cancellation = {
+      isCancellationRequested: false,
+      onCancellationRequested: (listener: () => void) => {
+        listeners.push(listener);
+        return { dispose: vi.fn() };
+      },
+    };
+    // A backoff that never ends on its own
+    const scheduler = new RetryScheduler({ sleep: () => new Promise(() => {}) });
+    const error = serverError();
+    const task = vi.fn().mockRejectedValue(error);
+
+    const run = scheduler.run(task, cancellation);
+    await vi.waitFor(() => expect(listeners).toHaveLength(1));
+    cancellation.isCancellationRequested = true;
+    listeners[0]();
+
+    await expect(run).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry once the operation is cancelled', async () => {
+    const { scheduler, sleeps } = createScheduler();
+    const error = new RateLimitError('AppConfig', 3000);
+    const task = vi.fn().mockRejectedValue(error);
+    const cancellation = {
+      isCancellationRequested: true,
+      onCancellationRequested: vi.fn(),
+    };
+
+    await expect(scheduler.run(task, cancellation)).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(sleeps).toEqual([]);
+
+    // The rate limit pause is not waited out by a cancelled request either
+    await expect(scheduler.run(vi.fn(), cancellation)).rejects.toBe(error);
+  });
+
+  it('notifies listeners before each wait', async () => {
+    const { scheduler } = createScheduler();
+    const listener = vi.fn();
+    const subscription = scheduler.onWait(listener);
+    const error = new RateLimitError('KeyVault', 2000);
+
+    await scheduler.run(vi.fn().mockRejectedValueOnce(error).mockResolvedValue('value'));
+    subscription.dispose();
+    await scheduler.run(vi.fn().mockRejectedValueOnce(error).mockResolvedValue('value'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ delayMs: 2000, attempt: 1, error });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { TtlCache } from '../../src/utils/ttlCache';
+
+describe('TtlCache', () => {
+  function createCache(ttlMs: number) {
+    const clock = { now: 1000 };
+    const cache = new TtlCache<string>(ttlMs, () => clock.now);
+    return { cache, clock };
+  }
+
+  it('returns stored values before they expire', () => {
+    const { cache, clock } = createCache(5000);
+    cache.set('a', 'value');
+
+    clock.now += 4999;
+    expect(cache.get('a')).toBe('value');
+  });
+
+  it('drops values once they expire', () => {
+    const { cache, clock } = createCache(5000);
+    cache.set('a', 'value');
+
+    clock.now += 5000;
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('returns undefined for unknown keys', () => {
+    const { cache } = createCache(5000);
+    expect(cache.get('missing')).toBeUndefined();
+  });
+
+  it('deletes and clears entries', () => {
+    const { cache } = createCache(5000);
+    cache.set('a', '1');
+    cache.set('b', '2');
+
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe('2');
+
+    cache.clear();
+    expect(cache.get('b')).toBeUndefined();
+  });
+});